@@ -1,3 +1,4 @@
+import './src/app/installCrypto';
 import { registerRootComponent } from 'expo';
 
 import App from './App';
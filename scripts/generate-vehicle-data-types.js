@@ -0,0 +1,123 @@
+// Generates src/lib/vehicleDataTypes.ts from src/lib/protos.json.
+// The emitted types describe what normalizeVehicleData() (src/lib/vehicleData.ts)
+// returns, so both must follow the same rules:
+//   - fields inside a oneof (including proto3 `optional_*` wrappers) and message fields are `T | null`
+//   - messages whose fields are all `Void` (ShiftState, ChargingState…) become a string union of the field names
+//   - enums become a string union of their value names
+//   - google.protobuf.Timestamp becomes milliseconds since the epoch
+//   - other scalars keep their proto3 default when absent
+// Run with `npm run generate:vehicle-data-types` after updating protos.json.
+const fs = require('fs');
+const path = require('path');
+const protobuf = require('protobufjs');
+
+const ROOT_TYPE = 'CarServer.VehicleData';
+const OUTPUT = path.join(__dirname, '..', 'src', 'lib', 'vehicleDataTypes.ts');
+
+const root = protobuf.Root.fromJSON(require('../src/lib/protos.json'));
+root.resolveAll();
+
+const SCALARS = {
+  double: 'number',
+  float: 'number',
+  int32: 'number',
+  uint32: 'number',
+  sint32: 'number',
+  fixed32: 'number',
+  sfixed32: 'number',
+  int64: 'number',
+  uint64: 'number',
+  sint64: 'number',
+  fixed64: 'number',
+  sfixed64: 'number',
+  bool: 'boolean',
+  string: 'string',
+  bytes: 'number[]',
+};
+
+function isTimestamp(type) {
+  return type.fullName === '.google.protobuf.Timestamp';
+}
+
+function isVoidUnion(type) {
+  return type.fieldsArray.length > 0
+    && type.fieldsArray.every((field) => field.resolvedType instanceof protobuf.Type && field.resolvedType.fieldsArray.length === 0);
+}
+
+// Short names where they are unique, parent-qualified otherwise.
+const reachable = [];
+function collect(type) {
+  if (reachable.includes(type)) {
+    return;
+  }
+  reachable.push(type);
+  if (!(type instanceof protobuf.Type) || isTimestamp(type) || isVoidUnion(type)) {
+    return;
+  }
+  for (const field of type.fieldsArray) {
+    if (field.resolvedType && !(field.resolvedType instanceof protobuf.Type && field.resolvedType.fieldsArray.length === 0)) {
+      collect(field.resolvedType);
+    }
+  }
+}
+collect(root.lookupType(ROOT_TYPE));
+
+const nameCounts = new Map();
+for (const type of reachable) {
+  nameCounts.set(type.name, (nameCounts.get(type.name) ?? 0) + 1);
+}
+function typeName(type) {
+  const name = type.name.replace(/_E$/, '');
+  return nameCounts.get(type.name) > 1 ? `${type.parent.name}${name}` : name;
+}
+
+function fieldType(field) {
+  const resolved = field.resolvedType;
+  if (!resolved) {
+    return SCALARS[field.type];
+  }
+  if (resolved instanceof protobuf.Type && isTimestamp(resolved)) {
+    return 'number';
+  }
+  if (resolved instanceof protobuf.Type && resolved.fieldsArray.length === 0) {
+    return 'boolean';
+  }
+  return typeName(resolved);
+}
+
+function declaration(type) {
+  const name = typeName(type);
+  if (type instanceof protobuf.Enum) {
+    return `export type ${name} =\n${Object.keys(type.values).map((value) => `  | '${value}'`).join('\n')};`;
+  }
+  if (isVoidUnion(type)) {
+    return `export type ${name} =\n${type.fieldsArray.map((field) => `  | '${field.name}'`).join('\n')};`;
+  }
+  const lines = type.fieldsArray.map((field) => {
+    let tsType = fieldType(field);
+    if (field.repeated) {
+      return `  ${field.name}: ${tsType}[];`;
+    }
+    const nullable = field.partOf || (field.resolvedType instanceof protobuf.Type);
+    if (field.resolvedType instanceof protobuf.Type && isTimestamp(field.resolvedType)) {
+      tsType = 'number';
+    }
+    return `  ${field.name}: ${tsType}${nullable ? ' | null' : ''};`;
+  });
+  return `export interface ${name} {\n${lines.join('\n')}\n}`;
+}
+
+const declarations = reachable
+  .filter((type) => !(type instanceof protobuf.Type && isTimestamp(type)))
+  .map(declaration);
+
+const output = [
+  '// Generated by scripts/generate-vehicle-data-types.js from protos.json. Do not edit by hand.',
+  '// Shapes returned by normalizeVehicleData(); see src/lib/vehicleData.ts.',
+  '',
+  declarations.join('\n\n'),
+  '',
+].join('\n');
+
+fs.writeFileSync(OUTPUT, output);
+console.log(`Wrote ${declarations.length} types to ${path.relative(process.cwd(), OUTPUT)}`);
@@ -6,6 +6,7 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { enableScreens } from 'react-native-screens';
 import { MainTabs } from './navigation/MainTabs';
 import { PowerStateController } from './PowerStateController';
+import { TelemetryController } from './TelemetryController';
 
 const Stack = createNativeStackNavigator();
 
@@ -16,6 +17,7 @@ export function RootApp() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
         <PowerStateController />
+        <TelemetryController />
         <StatusBar style="light" />
         <NavigationContainer>
           <Stack.Navigator screenOptions={{ headerShown: false }}>
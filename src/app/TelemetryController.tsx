@@ -0,0 +1,209 @@
+import { useEffect } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { StateCategory, VehicleStateResult } from '@lib/session';
+import type { TelemetryRecord } from '@lib/telemetryLog';
+import { Trip, TripRecorder } from '@lib/tripComputer';
+import { isCharging } from '@components/ChargePanel';
+import { useVehicleStore } from '@state/vehicleStore';
+import {
+  addVehicleConnectionListener,
+  configureVehicleConnection,
+  disconnectVehicle,
+  telemetry,
+  tripLog,
+} from './vehicleConnection';
+import { loadVehicleSettings } from './vehicleSettings';
+
+const CHARGE_REFRESH_INTERVAL_MS = 30_000;
+const CHARGING_REFRESH_INTERVAL_MS = 10_000;
+const CLIMATE_REFRESH_INTERVAL_MS = 5_000;
+const MEDIA_REFRESH_INTERVAL_MS = 5_000;
+const TIRE_PRESSURE_REFRESH_INTERVAL_MS = 30_000;
+const CLOSURES_REFRESH_INTERVAL_MS = 5_000;
+
+/**
+ * Loads the saved vehicle settings at startup, points the connection and the
+ * polling intervals at them, runs the telemetry service while auto refresh is
+ * on, mirrors its results into the vehicle store and records trips.
+ */
+export function TelemetryController() {
+  const autoRefreshActive = useVehicleStore((state) => state.autoRefreshActive);
+  const vin = useVehicleStore((state) => state.vin);
+  const simulatorScenarioId = useVehicleStore((state) => state.simulatorScenarioId);
+  const refreshInterval = useVehicleStore((state) => state.refreshIntervalMs);
+  const adaptivePolling = useVehicleStore((state) => state.adaptivePolling);
+  const inspectedCategory = useVehicleStore((state) => state.inspectedCategory);
+  const charging = useVehicleStore((state) => isCharging(state.chargeState?.vehicleData.chargeState));
+
+  useEffect(() => {
+    const store = useVehicleStore.getState();
+    const tripRecorder = new TripRecorder();
+    const saveTrip = (trip: Trip | null) => {
+      if (trip) {
+        tripLog
+          .add(trip, store.telemetryLog.between(trip.startedAt, trip.endedAt))
+          .then(store.setTrips)
+          .catch((error) => console.warn('Failed to save trip', error));
+      }
+    };
+    tripLog.load().then(store.setTrips).catch(() => {});
+    loadVehicleSettings().catch((error) => console.warn('Failed to load vehicle settings', error));
+
+    const unsubscribeTelemetry = telemetry.subscribe((event) => {
+      switch (event.type) {
+        case 'state': {
+          const receivedAt = Date.now();
+          const record = telemetryRecord(receivedAt, event.results, event.latencyMs);
+          const drive = event.results.find((result) => result.category === StateCategory.Drive);
+          const charge = event.results.find((result) => result.category === StateCategory.Charge);
+          const climate = event.results.find((result) => result.category === StateCategory.Climate);
+          const chargeSchedule = event.results.find((result) => result.category === StateCategory.ChargeSchedule);
+          const media = event.results.find((result) => result.category === StateCategory.Media);
+          const mediaDetail = event.results.find((result) => result.category === StateCategory.MediaDetail);
+          const tirePressure = event.results.find((result) => result.category === StateCategory.TirePressure);
+          const closures = event.results.find((result) => result.category === StateCategory.Closures);
+          if (drive) {
+            store.setDriveState(drive);
+          }
+          if (charge) {
+            store.setChargeState(charge);
+          }
+          if (climate) {
+            store.setClimateState(climate);
+          }
+          if (chargeSchedule) {
+            store.setChargeScheduleState(chargeSchedule);
+          }
+          if (media) {
+            store.setMediaState(media);
+          }
+          if (mediaDetail) {
+            store.setMediaDetailState(mediaDetail);
+          }
+          if (tirePressure) {
+            store.setTirePressureState(tirePressure);
+          }
+          if (closures) {
+            store.setClosuresState(closures);
+          }
+          store.setStateRequestedAt(
+            event.results.map((result) => result.category),
+            receivedAt - event.latencyMs,
+          );
+          store.setLastLatency(event.latencyMs);
+          store.recordTelemetry(record);
+          tripRecorder.updateBatteryLevel(record.batteryLevel);
+          if (drive?.vehicleData.driveState) {
+            saveTrip(tripRecorder.addSample(record));
+            store.setActiveTrip(tripRecorder.activeTrip);
+          }
+          break;
+        }
+        case 'status':
+          store.setVehicleStatus(event.status);
+          break;
+      }
+    });
+    const removeConnectionListener = addVehicleConnectionListener((change) => {
+      store.setConnectionState(change.state, change.attempt ?? null);
+    });
+    const unsubscribeVin = useVehicleStore.subscribe((state, previous) => {
+      if (state.vin !== previous.vin) {
+        // A trip in progress belongs to the previous car; keep what was driven.
+        saveTrip(tripRecorder.finish());
+        tripRecorder.reset();
+        store.setActiveTrip(null);
+      }
+    });
+    return () => {
+      unsubscribeTelemetry();
+      removeConnectionListener();
+      unsubscribeVin();
+      saveTrip(tripRecorder.finish());
+      telemetry.stop();
+      disconnectVehicle();
+    };
+  }, []);
+
+  useEffect(() => {
+    configureVehicleConnection({ vin: vin ?? '', simulatorScenarioId });
+  }, [simulatorScenarioId, vin]);
+
+  useEffect(() => {
+    // Drive and Location always poll for the dashboard and the drive log, Charge slowly
+    // for the battery panel (a little faster during a charging session), Climate, charge
+    // schedules, tire pressures and closures for their tabs and the dashboard alerts, and
+    // Media for the now-playing strip; the inspected category shares the Drive interval.
+    const chargeInterval = charging ? CHARGING_REFRESH_INTERVAL_MS : CHARGE_REFRESH_INTERVAL_MS;
+    telemetry.setIntervals({
+      [StateCategory.Charge]: Math.max(refreshInterval, chargeInterval),
+      [StateCategory.Closures]: Math.max(refreshInterval, CLOSURES_REFRESH_INTERVAL_MS),
+      [StateCategory.ChargeSchedule]: Math.max(refreshInterval, CHARGE_REFRESH_INTERVAL_MS),
+      [StateCategory.Climate]: Math.max(refreshInterval, CLIMATE_REFRESH_INTERVAL_MS),
+      [StateCategory.Drive]: refreshInterval,
+      [StateCategory.Location]: refreshInterval,
+      [StateCategory.Media]: Math.max(refreshInterval, MEDIA_REFRESH_INTERVAL_MS),
+      [StateCategory.MediaDetail]: Math.max(refreshInterval, MEDIA_REFRESH_INTERVAL_MS),
+      [StateCategory.TirePressure]: Math.max(refreshInterval, TIRE_PRESSURE_REFRESH_INTERVAL_MS),
+      [inspectedCategory]: refreshInterval,
+    });
+  }, [charging, inspectedCategory, refreshInterval]);
+
+  useEffect(() => {
+    telemetry.setAdaptivePolicy({ enabled: adaptivePolling });
+  }, [adaptivePolling]);
+
+  useEffect(() => {
+    if (!autoRefreshActive) {
+      telemetry.stop();
+      return;
+    }
+    telemetry.start();
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        void telemetry.refreshNow();
+      }
+    };
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => {
+      subscription.remove();
+    };
+  }, [autoRefreshActive]);
+
+  return null;
+}
+
+function telemetryRecord(at: number, results: VehicleStateResult[], latencyMs: number): TelemetryRecord {
+  const record: TelemetryRecord = {
+    at,
+    latencyMs,
+    shiftState: null,
+    speedMph: null,
+    powerKw: null,
+    odometerMiles: null,
+    batteryLevel: null,
+    latitude: null,
+    longitude: null,
+    headingDeg: null,
+  };
+  for (const { vehicleData } of results) {
+    const { driveState, chargeState, locationState } = vehicleData;
+    if (driveState) {
+      record.shiftState = driveState.shiftState;
+      record.speedMph = driveState.speedFloat ?? driveState.speed;
+      record.powerKw = driveState.power;
+      record.odometerMiles = driveState.odometerInHundredthsOfAMile == null
+        ? null
+        : driveState.odometerInHundredthsOfAMile / 100;
+    }
+    if (chargeState) {
+      record.batteryLevel = chargeState.batteryLevel;
+    }
+    if (locationState) {
+      record.latitude = locationState.latitude;
+      record.longitude = locationState.longitude;
+      record.headingDeg = locationState.heading;
+    }
+  }
+  return record;
+}
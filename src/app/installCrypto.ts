@@ -0,0 +1,10 @@
+import { getRandomValues } from 'expo-crypto';
+
+// The session layer draws randomness from `globalThis.crypto`, which React Native
+// does not provide; back it with Expo's CSPRNG before anything else loads.
+if (typeof globalThis.crypto?.getRandomValues !== 'function') {
+  Object.defineProperty(globalThis, 'crypto', {
+    configurable: true,
+    value: { ...globalThis.crypto, getRandomValues },
+  });
+}
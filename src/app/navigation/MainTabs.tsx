@@ -3,10 +3,14 @@ import { Pressable, StyleSheet, Text, View, useWindowDimensions } from 'react-na
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
 import { useVehicleStore } from '@state/vehicleStore';
+import { ChargingScreen } from '@screens/ChargingScreen';
+import { ClimateScreen } from '@screens/ClimateScreen';
 import { DashboardScreen } from '@screens/DashboardScreen';
 import { DebugScreen } from '@screens/DebugScreen';
+import { SecurityScreen } from '@screens/SecurityScreen';
+import { TiresScreen } from '@screens/TiresScreen';
 
-type TabKey = 'dashboard' | 'settings';
+type TabKey = 'dashboard' | 'climate' | 'charging' | 'tires' | 'security' | 'settings';
 
 interface TabConfig {
   key: TabKey;
@@ -16,6 +20,10 @@ interface TabConfig {
 
 const TAB_CONFIG: TabConfig[] = [
   { key: 'dashboard', label: 'Dashboard', render: () => <DashboardScreen /> },
+  { key: 'climate', label: 'Climate', render: () => <ClimateScreen /> },
+  { key: 'charging', label: 'Charging', render: () => <ChargingScreen /> },
+  { key: 'tires', label: 'Tires', render: () => <TiresScreen /> },
+  { key: 'security', label: 'Security', render: () => <SecurityScreen /> },
   { key: 'settings', label: 'Settings', render: () => <DebugScreen /> },
 ];
 
@@ -69,7 +77,9 @@ export function MainTabs() {
                 onPress={() => setActiveTab(tab.key)}
                 style={[styles.navButton, isActive && styles.navButtonActive]}
               >
-                <Text style={[styles.navLabel, isActive && styles.navLabelActive]}>{tab.label}</Text>
+                <Text style={[styles.navLabel, isActive && styles.navLabelActive]} numberOfLines={1} adjustsFontSizeToFit>
+                  {tab.label}
+                </Text>
               </Pressable>
             );
           })}
@@ -110,10 +120,10 @@ const styles = StyleSheet.create({
   },
   navLabel: {
     color: '#888',
-    fontSize: 15,
+    fontSize: 13,
     fontWeight: '600',
     textTransform: 'uppercase',
-    letterSpacing: 0.8,
+    letterSpacing: 0.6,
   },
   navLabelActive: {
     color: '#f5f5f5',
@@ -0,0 +1,62 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import {
+  EXPORT_MIME_TYPES,
+  ExportFormat,
+  exportFileName,
+  toCsv,
+  toGpx,
+  toJson,
+} from '@lib/telemetryExport';
+import type { Trip } from '@lib/tripComputer';
+import { useVehicleStore } from '@state/vehicleStore';
+import { tripLog } from './vehicleConnection';
+
+const UTIS: Record<ExportFormat, string> = {
+  gpx: 'com.topografix.gpx',
+  csv: 'public.comma-separated-values-text',
+  json: 'public.json',
+};
+
+/**
+ * Writes the recorded telemetry (or one trip's part of it) to a file in the
+ * cache directory and opens the share sheet for it. Returns the number of
+ * records exported.
+ */
+export async function shareTelemetryExport(format: ExportFormat, trip?: Trip): Promise<number> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const { vin, telemetryLog, trips } = useVehicleStore.getState();
+  let records = trip ? telemetryLog.between(trip.startedAt, trip.endedAt) : telemetryLog.between();
+  if (trip && !records.length) {
+    // Trips from an earlier run are only in the trip log.
+    records = await tripLog.loadTrack(trip.id);
+  }
+  if (!records.length) {
+    throw new Error(trip ? 'No telemetry recorded for this trip' : 'No telemetry recorded yet');
+  }
+  const name = trip ? `Trip ${new Date(trip.startedAt).toLocaleString()}` : `Drive log ${vin ?? ''}`.trim();
+  let contents: string;
+  switch (format) {
+    case 'gpx':
+      contents = toGpx(records, name);
+      break;
+    case 'csv':
+      contents = toCsv(records);
+      break;
+    case 'json':
+      contents = toJson({ vin, exportedAt: Date.now(), records, trips: trip ? [trip] : trips });
+      break;
+  }
+
+  const file = new File(Paths.cache, exportFileName(vin, format));
+  file.create({ overwrite: true });
+  file.write(contents);
+  await Sharing.shareAsync(file.uri, {
+    mimeType: EXPORT_MIME_TYPES[format],
+    UTI: UTIS[format],
+    dialogTitle: name,
+  });
+  return records.length;
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { VehicleCommand } from '@lib/commands';
+import {
+  PendingEdit,
+  applyPendingEdits,
+  confirmPendingEdit,
+  reconcilePendingEdits,
+  removePendingEdit,
+} from '@lib/pendingEdits';
+import { executeVehicleCommand } from './vehicleConnection';
+
+export interface OptimisticState<T> {
+  /** Polled state with pending edits applied; null until the first poll. */
+  state: T | null;
+  /** Last failed command, e.g. `Charge limit failed: …`. */
+  error: string | null;
+  setError(error: string | null): void;
+  /** Shows `values` at once and sends `command`; reverts the values if the command fails. */
+  send(label: string, command: VehicleCommand, values: Partial<T>): Promise<void>;
+}
+
+/**
+ * Vehicle controls that update immediately. Edits stay over the polled state
+ * until a poll sent after the command succeeded (`requestedAt`) arrives.
+ */
+export function useOptimisticState<T extends object>(polled: T | null, requestedAt: number | null): OptimisticState<T> {
+  const [edits, setEdits] = useState<PendingEdit<T>[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const nextEditId = useRef(1);
+
+  const state = useMemo(() => (polled ? applyPendingEdits(polled, edits) : null), [edits, polled]);
+
+  useEffect(() => {
+    if (requestedAt !== null) {
+      setEdits((current) => reconcilePendingEdits(current, requestedAt));
+    }
+  }, [polled, requestedAt]);
+
+  const send = useCallback(async (label: string, command: VehicleCommand, values: Partial<T>) => {
+    const id = nextEditId.current;
+    nextEditId.current += 1;
+    setError(null);
+    setEdits((current) => [...current, { id, values, confirmedAt: null }]);
+    try {
+      await executeVehicleCommand(command);
+      setEdits((current) => confirmPendingEdit(current, id, Date.now()));
+    } catch (failure) {
+      setEdits((current) => removePendingEdit(current, id));
+      setError(`${label} failed: ${failure instanceof Error ? failure.message : String(failure)}`);
+    }
+  }, []);
+
+  return { state, error, setError, send };
+}
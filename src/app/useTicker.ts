@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+/** Re-renders every `intervalMs` while `active`, returning the current time. */
+export function useTicker(active: boolean, intervalMs = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [active, intervalMs]);
+  return now;
+}
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Vibration } from 'react-native';
+import { DOORS, TRUNKS, openClosures, walkAwayIssues } from '@lib/closures';
+import { ConnectionState, isConnectionUsable } from '@lib/connectionState';
+import { TIRE_LABELS, TirePosition, formatPressure, hardWarningPositions } from '@lib/tirePressure';
+import type { ShiftState } from '@lib/vehicleData';
+import type { AlertTone } from '@components/AlertBanner';
+import { useVehicleStore } from '@state/vehicleStore';
+
+export type VehicleAlertId = 'closures' | 'tires' | 'walkAway';
+
+export interface VehicleAlert {
+  id: VehicleAlertId;
+  title: string;
+  message: string;
+  tone: AlertTone;
+}
+
+const WALK_AWAY_VIBRATION = [0, 400, 200, 400];
+
+/**
+ * Alerts for the dashboard: a door or trunk opening in D or R, a hard tire
+ * pressure warning appearing while driving, and the walk-away check, raised
+ * when the link drops while parked with the car not confirmed locked or something open.
+ */
+export function useVehicleAlerts(): { alerts: VehicleAlert[]; dismiss(id: VehicleAlertId): void } {
+  const shiftState = useVehicleStore((state) => state.driveState?.vehicleData.driveState?.shiftState ?? null);
+  const closuresResult = useVehicleStore((state) => state.closuresState);
+  const tirePressureResult = useVehicleStore((state) => state.tirePressureState);
+  const pressureUnit = useVehicleStore((state) => state.pressureUnit);
+  const connectionState = useVehicleStore((state) => state.connectionState);
+
+  const closures = closuresResult?.vehicleData.closuresState ?? null;
+  const tirePressure = tirePressureResult?.vehicleData.tirePressureState ?? null;
+  const inGear = shiftState === 'D' || shiftState === 'R';
+
+  const openedItems = useMemo(() => (closures ? openClosures(closures, [...DOORS, ...TRUNKS]) : []), [closures]);
+  const [openedInGear, dismissOpened] = useAppearingItems(openedItems, inGear);
+  const [warnedTires, dismissTires] = useAppearingItems(hardWarningPositions(tirePressure), isDrivingGear(shiftState));
+  const [walkAway, setWalkAway] = useState<string[]>([]);
+  const previousConnection = useRef<ConnectionState>(connectionState);
+
+  useEffect(() => {
+    const previous = previousConnection.current;
+    previousConnection.current = connectionState;
+    // The session reconnects when the link drops unexpectedly, e.g. the phone leaving
+    // range; a deliberate disconnect goes straight to idle.
+    if (!isConnectionUsable(previous) || connectionState !== 'reconnecting' || inGear) {
+      return;
+    }
+    const { closuresState, vehicleStatus } = useVehicleStore.getState();
+    const issues = walkAwayIssues(closuresState?.vehicleData.closuresState ?? null, vehicleStatus?.lockState ?? null);
+    if (issues.length) {
+      setWalkAway(issues);
+      Vibration.vibrate(WALK_AWAY_VIBRATION);
+    }
+  }, [connectionState, inGear]);
+
+  const dismiss = useCallback(
+    (id: VehicleAlertId) => {
+      if (id === 'closures') {
+        dismissOpened();
+      } else if (id === 'tires') {
+        dismissTires();
+      } else {
+        setWalkAway([]);
+      }
+    },
+    [dismissOpened, dismissTires],
+  );
+
+  const alerts: VehicleAlert[] = [];
+  if (openedInGear.length) {
+    alerts.push({
+      id: 'closures',
+      title: openedInGear.length === 1 ? `${openedInGear[0]} open` : 'Doors open',
+      message: `${openedInGear.join(', ')} opened while in ${shiftState ?? 'gear'}.`,
+      tone: 'danger',
+    });
+  }
+  if (warnedTires.length) {
+    const tires = (warnedTires as TirePosition[]).map((position) => {
+      const pressure = tirePressure?.[`tpmsPressure${position}` as const] ?? null;
+      return `${TIRE_LABELS[position]} ${formatPressure(pressure, pressureUnit)}`;
+    });
+    alerts.push({
+      id: 'tires',
+      title: 'Tire pressure warning',
+      message: `${tires.join(', ')}. Slow down and check the tire when it is safe.`,
+      tone: 'danger',
+    });
+  }
+  if (walkAway.length) {
+    alerts.push({
+      id: 'walkAway',
+      title: 'Car left insecure',
+      message: `Lost the connection while parked: ${walkAway.join(', ').toLowerCase()}.`,
+      tone: 'warning',
+    });
+  }
+  return { alerts, dismiss };
+}
+
+/**
+ * Items that appeared in `current` while `active`, kept until they leave
+ * `current` or are dismissed. Items already present are not reported.
+ */
+function useAppearingItems(current: string[], active: boolean): [string[], () => void] {
+  const [shown, setShown] = useState<string[]>([]);
+  const known = useRef<string[]>([]);
+  const key = current.join('\n');
+
+  useEffect(() => {
+    const items = key ? key.split('\n') : [];
+    const appeared = items.filter((item) => !known.current.includes(item));
+    known.current = items;
+    setShown((previous) => {
+      const remaining = previous.filter((item) => items.includes(item));
+      return active && appeared.length ? [...remaining, ...appeared] : remaining;
+    });
+  }, [active, key]);
+
+  const dismiss = useCallback(() => setShown([]), []);
+  return [shown, dismiss];
+}
+
+function isDrivingGear(shiftState: ShiftState | null): boolean {
+  return shiftState === 'D' || shiftState === 'R' || shiftState === 'N';
+}
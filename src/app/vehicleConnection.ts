@@ -0,0 +1,192 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { DeviceDiscoveryMode, TeslaBleTransport } from '@lib/bluetooth';
+import { VehicleActionError, VehicleCommand } from '@lib/commands';
+import type { TeslaPrivateKey } from '@lib/crypto';
+import { createLoopbackPair } from '@lib/loopback';
+import { ConnectionStateChange, TeslaBleSession } from '@lib/session';
+import { SessionCache } from '@lib/sessionCache';
+import { VehicleSimulator } from '@lib/simulator';
+import { findScenario } from '@lib/simulatorScenarios';
+import { TelemetryService } from '@lib/telemetry';
+import { TripLog } from '@lib/tripLog';
+
+const DEVICE_ID_STORAGE_KEY = 'tsla.deviceId';
+const DEFAULT_DISCOVERY_MODE = DeviceDiscoveryMode.VinPrefixPromptFilter;
+
+// Only real vehicles are cached; simulator sessions die with the simulator.
+const sessionCache = new SessionCache(AsyncStorage, {
+  getItem: (key) => SecureStore.getItemAsync(key),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value),
+});
+
+export interface VehicleConnectionConfig {
+  vin: string;
+  /** Empty for a real car over Bluetooth. */
+  simulatorScenarioId: string;
+}
+
+type ConnectionListener = (change: ConnectionStateChange, session: TeslaBleSession) => void;
+
+let config: VehicleConnectionConfig | null = null;
+let privateKey: TeslaPrivateKey | null = null;
+/** Shared by every caller, including while the session is still being created. */
+let session: Promise<TeslaBleSession> | null = null;
+let sessionConfig: VehicleConnectionConfig | null = null;
+let activeSession: TeslaBleSession | null = null;
+/** Bumped by `disconnectVehicle()` so a session still being created knows it was abandoned. */
+let sessionGeneration = 0;
+let simulator: VehicleSimulator | null = null;
+const connectionListeners = new Set<ConnectionListener>();
+
+/** Selects the vehicle; the session is (re)created lazily by the next `getVehicleSession()`. */
+export function configureVehicleConnection(next: VehicleConnectionConfig): void {
+  config = next;
+}
+
+/** The signing key for telemetry and commands; see `applyVehiclePrivateKey()` in `vehicleSettings.ts`. */
+export function setVehiclePrivateKey(key: TeslaPrivateKey | null): void {
+  privateKey = key;
+}
+
+export function getVehiclePrivateKey(): Promise<TeslaPrivateKey> {
+  if (!privateKey) {
+    return Promise.reject(new Error('Provide a private key first'));
+  }
+  return Promise.resolve(privateKey);
+}
+
+/** The shared session for the configured vehicle, replaced whenever the VIN or simulator changes. */
+export function getVehicleSession(): Promise<TeslaBleSession> {
+  if (!config?.vin) {
+    return Promise.reject(new Error('VIN is required'));
+  }
+  const target = config;
+  if (
+    !session
+    || !sessionConfig
+    || sessionConfig.vin !== target.vin
+    || sessionConfig.simulatorScenarioId !== target.simulatorScenarioId
+  ) {
+    void disconnectVehicle();
+    const created = createSession(target);
+    session = created;
+    sessionConfig = target;
+    created.catch(() => {
+      if (session === created) {
+        session = null;
+        sessionConfig = null;
+      }
+    });
+  }
+  return session;
+}
+
+/**
+ * Sends an infotainment command with the current key. Refusals because the car
+ * is already in the requested state count as success.
+ */
+export async function executeVehicleCommand(command: VehicleCommand): Promise<void> {
+  const key = await getVehiclePrivateKey();
+  const target = await getVehicleSession();
+  try {
+    await target.execute(command, key);
+  } catch (error) {
+    if (!(error instanceof VehicleActionError && error.nominal)) {
+      throw error;
+    }
+  }
+}
+
+/** Returns a function that removes the listener. */
+export function addVehicleConnectionListener(listener: ConnectionListener): () => void {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+}
+
+/** Drops the shared session; one still being created is abandoned and torn down once it settles. */
+export async function disconnectVehicle(): Promise<void> {
+  const pending = session;
+  const previousSimulator = simulator;
+  session = null;
+  sessionConfig = null;
+  activeSession = null;
+  simulator = null;
+  sessionGeneration += 1;
+  const previous = await pending?.catch(() => null);
+  await previous?.disconnect().catch(() => {});
+  previousSimulator?.stop();
+}
+
+export const telemetry = new TelemetryService({
+  getSession: getVehicleSession,
+  getPrivateKey: getVehiclePrivateKey,
+});
+
+export const tripLog = new TripLog(AsyncStorage);
+
+async function createSession(target: VehicleConnectionConfig): Promise<TeslaBleSession> {
+  const generation = sessionGeneration;
+  const abandoned = () => generation !== sessionGeneration;
+  const scenario = target.simulatorScenarioId ? findScenario(target.simulatorScenarioId) : null;
+  let next: TeslaBleSession;
+  if (scenario) {
+    const [clientTransport, vehicleTransport] = createLoopbackPair({ name: `Simulator (${scenario.label})` });
+    const vehicle = new VehicleSimulator({ vin: target.vin, transport: vehicleTransport, scenario });
+    await vehicle.start();
+    if (abandoned()) {
+      vehicle.stop();
+      throw new Error('Vehicle connection was reset');
+    }
+    simulator = vehicle;
+    next = new TeslaBleSession({ vin: target.vin, transport: clientTransport });
+  } else {
+    const knownDeviceId = await loadKnownDeviceId(target.vin);
+    if (abandoned()) {
+      throw new Error('Vehicle connection was reset');
+    }
+    const transport = new TeslaBleTransport({
+      vin: target.vin,
+      deviceDiscoveryMode: DEFAULT_DISCOVERY_MODE,
+      preferredBlockLength: 1024,
+      knownDeviceId,
+    });
+    next = new TeslaBleSession({ vin: target.vin, transport, sessionCache });
+  }
+  next.addConnectionStateListener((change) => handleConnectionStateChange(next, target, change));
+  activeSession = next;
+  return next;
+}
+
+function handleConnectionStateChange(
+  source: TeslaBleSession,
+  sourceConfig: VehicleConnectionConfig,
+  change: ConnectionStateChange,
+): void {
+  if (source !== activeSession) {
+    return;
+  }
+  if (change.state === 'linked' && !sourceConfig.simulatorScenarioId) {
+    const info = source.getSelectedDeviceInfo();
+    if (info) {
+      AsyncStorage.setItem(DEVICE_ID_STORAGE_KEY, JSON.stringify({ vin: sourceConfig.vin, deviceId: info.id })).catch(
+        () => {},
+      );
+    }
+  }
+  connectionListeners.forEach((listener) => listener(change, source));
+}
+
+async function loadKnownDeviceId(vin: string): Promise<string | undefined> {
+  try {
+    const raw = await AsyncStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!raw) return undefined;
+    const parsed = JSON.parse(raw) as { vin?: string; deviceId?: string };
+    return parsed.vin === vin && parsed.deviceId ? parsed.deviceId : undefined;
+  } catch (error) {
+    console.warn('Failed to load known device id', error);
+    return undefined;
+  }
+}
@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { importPrivateKeyPem, TeslaPrivateKey } from '@lib/crypto';
+import { DEFAULT_REFRESH_INTERVAL_MS, useVehicleStore } from '@state/vehicleStore';
+import { setVehiclePrivateKey } from './vehicleConnection';
+
+const PROFILE_STORAGE_KEY = 'tsla.profiles';
+const VIN_STORAGE_KEY = 'tsla.vin';
+const REFRESH_INTERVAL_STORAGE_KEY = 'tsla.stateRefreshIntervalMs';
+const ADAPTIVE_POLLING_STORAGE_KEY = 'tsla.adaptivePolling';
+const MIN_REFRESH_INTERVAL_MS = 0;
+const MAX_REFRESH_INTERVAL_MS = 60_000;
+
+export interface KeyProfile {
+  id: string;
+  name: string;
+  privateKeyPem: string;
+  publicKeyPem: string;
+}
+
+/**
+ * Restores the saved VIN, polling settings and the first key profile into the
+ * store and the vehicle connection, so telemetry works before Settings opens.
+ */
+export async function loadVehicleSettings(): Promise<void> {
+  const store = useVehicleStore.getState();
+  const [vin, refreshInterval, adaptivePolling, profiles] = await Promise.all([
+    AsyncStorage.getItem(VIN_STORAGE_KEY).catch(() => null),
+    AsyncStorage.getItem(REFRESH_INTERVAL_STORAGE_KEY).catch(() => null),
+    AsyncStorage.getItem(ADAPTIVE_POLLING_STORAGE_KEY).catch(() => null),
+    loadKeyProfiles(),
+  ]);
+  if (vin) {
+    store.setVin(normalizeVin(vin));
+  }
+  if (refreshInterval) {
+    store.setRefreshIntervalMs(sanitizeRefreshInterval(refreshInterval));
+  }
+  if (adaptivePolling !== null) {
+    store.setAdaptivePolling(adaptivePolling === 'true');
+  }
+  // Settings may have picked a key while this was loading.
+  if (profiles.length && !useVehicleStore.getState().keyLoaded) {
+    try {
+      applyVehiclePrivateKey(await importPrivateKeyPem(profiles[0].privateKeyPem));
+    } catch (error) {
+      console.warn(`Failed to load key profile "${profiles[0].name}"`, error);
+    }
+  }
+}
+
+/** Signs with `key` from now on, or stops signing when null. */
+export function applyVehiclePrivateKey(key: TeslaPrivateKey | null): void {
+  setVehiclePrivateKey(key);
+  useVehicleStore.getState().setKeyLoaded(Boolean(key));
+}
+
+export async function loadKeyProfiles(): Promise<KeyProfile[]> {
+  try {
+    const raw = await AsyncStorage.getItem(PROFILE_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as KeyProfile[]) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Failed to load profiles', error);
+    return [];
+  }
+}
+
+export async function saveKeyProfiles(profiles: KeyProfile[]): Promise<void> {
+  await AsyncStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/** Selects the vehicle and remembers it for the next start. */
+export async function saveVin(vin: string): Promise<void> {
+  const normalized = normalizeVin(vin);
+  useVehicleStore.getState().setVin(normalized || null);
+  if (normalized) {
+    await AsyncStorage.setItem(VIN_STORAGE_KEY, normalized);
+  }
+}
+
+export function saveRefreshInterval(value: string | number): number {
+  const interval = sanitizeRefreshInterval(value);
+  useVehicleStore.getState().setRefreshIntervalMs(interval);
+  AsyncStorage.setItem(REFRESH_INTERVAL_STORAGE_KEY, String(interval)).catch(() => {});
+  return interval;
+}
+
+export function saveAdaptivePolling(enabled: boolean): void {
+  useVehicleStore.getState().setAdaptivePolling(enabled);
+  AsyncStorage.setItem(ADAPTIVE_POLLING_STORAGE_KEY, String(enabled)).catch(() => {});
+}
+
+export function normalizeVin(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+function sanitizeRefreshInterval(value: string | number): number {
+  const numeric = typeof value === 'number' ? value : Number.parseInt(String(value ?? '').trim(), 10);
+  if (!Number.isFinite(numeric)) {
+    return DEFAULT_REFRESH_INTERVAL_MS;
+  }
+  const rounded = Math.round(numeric);
+  return Math.min(MAX_REFRESH_INTERVAL_MS, Math.max(MIN_REFRESH_INTERVAL_MS, rounded));
+}
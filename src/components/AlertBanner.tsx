@@ -0,0 +1,77 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+
+export type AlertTone = 'danger' | 'warning';
+
+interface AlertBannerProps {
+  title: string;
+  message?: string;
+  tone?: AlertTone;
+  onDismiss(): void;
+}
+
+/** A full-width alert with a dismiss button, for conditions that need attention while driving. */
+export function AlertBanner({ title, message, tone = 'danger', onDismiss }: AlertBannerProps) {
+  const palette = PALETTES[tone];
+  return (
+    <View
+      accessibilityRole="alert"
+      style={[styles.banner, { backgroundColor: palette.background, borderColor: palette.border }]}
+    >
+      <MaterialIcons name={tone === 'danger' ? 'error' : 'warning'} size={28} color={palette.text} />
+      <View style={styles.body}>
+        <Text style={[styles.title, { color: palette.text }]}>{title}</Text>
+        {message ? <Text style={styles.message}>{message}</Text> : null}
+      </View>
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel="Dismiss alert"
+        onPress={onDismiss}
+        hitSlop={8}
+        style={({ pressed }) => [styles.dismiss, pressed && styles.dismissPressed]}
+      >
+        <MaterialIcons name="close" size={22} color="#e2e8f0" />
+      </Pressable>
+    </View>
+  );
+}
+
+const PALETTES: Record<AlertTone, { background: string; border: string; text: string }> = {
+  danger: { background: '#450a0a', border: '#dc2626', text: '#fca5a5' },
+  warning: { background: '#422006', border: '#facc15', text: '#fde68a' },
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    width: '100%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  body: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  message: {
+    color: '#e2e8f0',
+    fontSize: 13,
+  },
+  dismiss: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dismissPressed: {
+    backgroundColor: '#1e293b',
+  },
+});
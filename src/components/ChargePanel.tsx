@@ -0,0 +1,230 @@
+import { StyleSheet, Text, View } from 'react-native';
+import type { ChargeState, ChargerType } from '@lib/vehicleData';
+
+const LOW_BATTERY_LEVEL = 20;
+
+const FAST_CHARGER_LABELS: Partial<Record<ChargerType, string>> = {
+  Supercharger: 'Supercharger',
+  Tesla: 'Tesla',
+  Combo: 'CCS',
+  Chademo: 'CHAdeMO',
+  Gb: 'GB/T',
+};
+
+interface BatteryIndicatorProps {
+  chargeState: ChargeState | null;
+  width?: number;
+}
+
+/** State of charge bar with the charge limit marked, and the rated range. */
+export function BatteryIndicator({ chargeState, width }: BatteryIndicatorProps) {
+  const level = chargeState?.batteryLevel ?? null;
+  const usable = chargeState?.usableBatteryLevel ?? level;
+  const limit = chargeState?.chargeLimitSoc ?? null;
+  const color = batteryColor(chargeState);
+  const range = chargeState?.batteryRange ?? null;
+
+  return (
+    <View
+      style={[styles.indicator, width != null && { width }]}
+      accessibilityLabel={level === null ? 'Battery unavailable' : `Battery ${Math.round(level)} percent`}
+    >
+      <Text style={styles.indicatorText}>
+        <Text style={{ color }}>{level === null ? '--' : `${Math.round(level)}%`}</Text>
+        {range !== null && <Text style={styles.indicatorRange}>{`  ${Math.round(range)} mi`}</Text>}
+      </Text>
+      <View style={styles.bar}>
+        {/* The part of the charge that is not usable yet, e.g. in a cold battery. */}
+        {level !== null && <View style={[styles.barFill, styles.barUnusable, { width: `${clampPercent(level)}%` }]} />}
+        {usable !== null && (
+          <View style={[styles.barFill, { width: `${clampPercent(usable)}%`, backgroundColor: color }]} />
+        )}
+        {limit !== null && <View style={[styles.barLimit, { left: `${clampPercent(limit)}%` }]} />}
+      </View>
+    </View>
+  );
+}
+
+interface ChargingPanelProps {
+  chargeState: ChargeState;
+  /** A single row of the main figures without the battery bar, for the landscape dashboard. */
+  compact?: boolean;
+}
+
+const COMPACT_STATS = ['Power', 'To Limit', 'Limit', 'Added'];
+
+/** Full charging session view, shown while the car is charging. */
+export function ChargingPanel({ chargeState, compact = false }: ChargingPanelProps) {
+  const {
+    usableBatteryLevel,
+    batteryRange,
+    estBatteryRange,
+    chargerPower,
+    chargerVoltage,
+    chargerActualCurrent,
+    chargeLimitSoc,
+    chargeEnergyAdded,
+    chargeRateMphFloat,
+    chargeRateMph,
+    minutesToFullCharge,
+    minutesToChargeLimit,
+  } = chargeState;
+  const stats: { label: string; value: string }[] = [
+    { label: 'Power', value: chargerPower == null ? '--' : `${chargerPower} kW` },
+    { label: 'To Limit', value: formatMinutesRemaining(minutesToChargeLimit ?? minutesToFullCharge) },
+    { label: 'Limit', value: chargeLimitSoc == null ? '--' : `${chargeLimitSoc}%` },
+    { label: 'Added', value: chargeEnergyAdded == null ? '--' : `${chargeEnergyAdded.toFixed(1)} kWh` },
+    { label: 'Rate', value: formatChargeRate(chargeRateMphFloat ?? chargeRateMph) },
+    {
+      label: 'Supply',
+      value: chargerVoltage == null || chargerActualCurrent == null ? '--' : `${chargerVoltage} V ${chargerActualCurrent} A`,
+    },
+    { label: 'Rated', value: batteryRange == null ? '--' : `${Math.round(batteryRange)} mi` },
+    { label: 'Estimated', value: estBatteryRange == null ? '--' : `${Math.round(estBatteryRange)} mi` },
+    { label: 'Usable', value: usableBatteryLevel == null ? '--' : `${usableBatteryLevel}%` },
+  ];
+
+  const shown = compact ? stats.filter(({ label }) => COMPACT_STATS.includes(label)) : stats;
+
+  return (
+    <View style={[styles.panel, compact && styles.panelCompact]}>
+      <Text style={styles.title}>{`Charging · ${chargerLabel(chargeState)}`}</Text>
+      {!compact && <BatteryIndicator chargeState={chargeState} />}
+      <View style={styles.grid}>
+        {shown.map(({ label, value }) => (
+          <View key={label} style={[styles.stat, compact && styles.statCompact]}>
+            <Text style={[styles.statValue, compact && styles.statValueCompact]}>{value}</Text>
+            <Text style={styles.statLabel}>{label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export function isCharging(chargeState: ChargeState | null | undefined): boolean {
+  return chargeState?.chargingState === 'Charging';
+}
+
+/** `1 h 05 min`, `12 min`, or `--` when unknown. */
+export function formatMinutesRemaining(minutes: number | null): string {
+  if (minutes == null || minutes < 0) {
+    return '--';
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours ? `${hours} h ${String(rest).padStart(2, '0')} min` : `${rest} min`;
+}
+
+function formatChargeRate(mph: number | null): string {
+  return mph == null ? '--' : `${Math.round(mph)} mi/h`;
+}
+
+/** DC chargers report their type; anything else is AC charging. */
+function chargerLabel(chargeState: ChargeState): string {
+  const type = chargeState.fastChargerType;
+  if (chargeState.fastChargerPresent && type) {
+    return FAST_CHARGER_LABELS[type] ?? 'DC';
+  }
+  return 'AC';
+}
+
+function batteryColor(chargeState: ChargeState | null): string {
+  if (isCharging(chargeState)) {
+    return '#22c55e';
+  }
+  const level = chargeState?.batteryLevel;
+  if (level == null) {
+    return '#94a3b8';
+  }
+  return level < LOW_BATTERY_LEVEL ? '#f87171' : '#e2e8f0';
+}
+
+function clampPercent(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+const styles = StyleSheet.create({
+  indicator: {
+    gap: 6,
+  },
+  indicatorText: {
+    fontSize: 18,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  indicatorRange: {
+    color: '#94a3b8',
+    fontWeight: '600',
+  },
+  bar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#1f2937',
+    overflow: 'hidden',
+  },
+  barFill: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+  },
+  barUnusable: {
+    backgroundColor: '#475569',
+  },
+  barLimit: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    marginLeft: -1,
+    backgroundColor: '#f8fafc',
+  },
+  panel: {
+    width: '100%',
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#1f2937',
+    backgroundColor: '#0f172a',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  panelCompact: {
+    paddingVertical: 8,
+    gap: 4,
+  },
+  title: {
+    color: '#94a3b8',
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
+  },
+  stat: {
+    width: '33.33%',
+  },
+  statCompact: {
+    width: '25%',
+  },
+  statValue: {
+    color: '#f8fafc',
+    fontSize: 18,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  statValueCompact: {
+    fontSize: 15,
+  },
+  statLabel: {
+    color: '#64748b',
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+});
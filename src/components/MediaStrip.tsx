@@ -0,0 +1,229 @@
+import type { ComponentProps } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import type { VehicleCommand } from '@lib/commands';
+import type { MediaDetailState, MediaState } from '@lib/vehicleData';
+import { useTicker } from '@app/useTicker';
+import { formatTripDuration } from './TripSummaryPanel';
+
+interface MediaStripProps {
+  media: MediaState;
+  detail: MediaDetailState | null;
+  /** When the poll that returned `detail` was sent; elapsed time advances from here while playing. */
+  detailRequestedAt: number | null;
+  error: string | null;
+  onCommand(label: string, command: VehicleCommand, values: Partial<MediaState>): void;
+}
+
+/** A compact now-playing row: track, progress, transport and volume controls. */
+export function MediaStrip({ media, detail, detailRequestedAt, error, onCommand }: MediaStripProps) {
+  const playing = media.mediaPlaybackStatus === 'Playing';
+  const now = useTicker(playing);
+  const enabled = Boolean(media.remoteControlEnabled);
+
+  const duration = detail?.nowPlayingDuration ?? null;
+  const elapsed = estimateElapsed(detail, detailRequestedAt, playing, now);
+  const progress = duration && elapsed !== null ? Math.min(1, elapsed / duration) : 0;
+
+  const volume = media.audioVolume;
+  const volumeMax = media.audioVolumeMax ?? 10;
+  const volumeStep = media.audioVolumeIncrement ?? 1;
+  const adjustVolume = (delta: number) => {
+    const values = volume === null ? {} : { audioVolume: clamp(volume + delta * volumeStep, 0, volumeMax) };
+    onCommand('Volume', { type: 'mediaAdjustVolume', delta }, values);
+  };
+
+  const title = media.nowPlayingTitle || detail?.nowPlayingStation || 'Nothing playing';
+  const subtitle = error ?? (enabled
+    ? [media.nowPlayingArtist, detail?.nowPlayingSourceString].filter(Boolean).join(' · ')
+    : 'Remote media control is off in the vehicle');
+
+  return (
+    <View style={styles.strip}>
+      <View style={styles.controls}>
+        <MediaButton
+          icon="skip-previous"
+          disabled={!enabled}
+          accessibilityLabel="Previous track"
+          onPress={() => onCommand('Previous track', { type: 'mediaPreviousTrack' }, {})}
+        />
+        <MediaButton
+          icon={playing ? 'pause' : 'play-arrow'}
+          disabled={!enabled}
+          accessibilityLabel={playing ? 'Pause' : 'Play'}
+          onPress={() =>
+            onCommand(
+              playing ? 'Pause' : 'Play',
+              { type: 'mediaTogglePlayback' },
+              { mediaPlaybackStatus: playing ? 'Paused' : 'Playing' },
+            )
+          }
+        />
+        <MediaButton
+          icon="skip-next"
+          disabled={!enabled}
+          accessibilityLabel="Next track"
+          onPress={() => onCommand('Next track', { type: 'mediaNextTrack' }, {})}
+        />
+        <MediaButton
+          icon="star-outline"
+          disabled={!enabled}
+          accessibilityLabel="Next favorite"
+          onPress={() => onCommand('Next favorite', { type: 'mediaNextFavorite' }, {})}
+        />
+      </View>
+
+      <View style={styles.track}>
+        <Text style={styles.title} numberOfLines={1}>{title}</Text>
+        <Text style={[styles.subtitle, error !== null && styles.error]} numberOfLines={1}>{subtitle}</Text>
+        <View style={styles.progressRow}>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { flex: progress }]} />
+            <View style={{ flex: 1 - progress }} />
+          </View>
+          <Text style={styles.time}>
+            {elapsed !== null && duration ? `${formatTripDuration(elapsed)} / ${formatTripDuration(duration)}` : '--:--'}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.controls}>
+        <MediaButton
+          icon="volume-down"
+          disabled={!enabled || (volume !== null && volume <= 0)}
+          accessibilityLabel="Volume down"
+          onPress={() => adjustVolume(-1)}
+        />
+        <Text style={styles.volume}>{volume === null ? '--' : volume.toFixed(1)}</Text>
+        <MediaButton
+          icon="volume-up"
+          disabled={!enabled || (volume !== null && volume >= volumeMax)}
+          accessibilityLabel="Volume up"
+          onPress={() => adjustVolume(1)}
+        />
+      </View>
+    </View>
+  );
+}
+
+interface MediaButtonProps {
+  icon: ComponentProps<typeof MaterialIcons>['name'];
+  disabled: boolean;
+  accessibilityLabel: string;
+  onPress(): void;
+}
+
+function MediaButton({ icon, disabled, accessibilityLabel, onPress }: MediaButtonProps) {
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityState={{ disabled }}
+      disabled={disabled}
+      onPress={onPress}
+      hitSlop={6}
+      style={({ pressed }) => [styles.button, pressed && styles.buttonPressed, disabled && styles.buttonDisabled]}
+    >
+      <MaterialIcons name={icon} size={24} color="#e2e8f0" />
+    </Pressable>
+  );
+}
+
+/** Polled elapsed time, advanced by the time since the poll while the track is playing. */
+function estimateElapsed(
+  detail: MediaDetailState | null,
+  requestedAt: number | null,
+  playing: boolean,
+  now: number,
+): number | null {
+  const elapsed = detail?.nowPlayingElapsed ?? null;
+  if (elapsed === null) {
+    return null;
+  }
+  const advanced = playing && requestedAt !== null ? elapsed + Math.max(0, now - requestedAt) : elapsed;
+  const duration = detail?.nowPlayingDuration;
+  return duration ? Math.min(advanced, duration) : advanced;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+const styles = StyleSheet.create({
+  strip: {
+    width: '100%',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#1f2937',
+    backgroundColor: '#0f172a',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  button: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonPressed: {
+    backgroundColor: '#1e293b',
+  },
+  buttonDisabled: {
+    opacity: 0.35,
+  },
+  track: {
+    flex: 1,
+    minWidth: 0,
+    gap: 2,
+  },
+  title: {
+    color: '#f8fafc',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  subtitle: {
+    color: '#94a3b8',
+    fontSize: 12,
+  },
+  error: {
+    color: '#f87171',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    flexDirection: 'row',
+    overflow: 'hidden',
+    backgroundColor: '#1e293b',
+  },
+  progressFill: {
+    backgroundColor: '#38bdf8',
+  },
+  time: {
+    color: '#64748b',
+    fontSize: 11,
+    fontVariant: ['tabular-nums'],
+  },
+  volume: {
+    color: '#e2e8f0',
+    fontSize: 13,
+    fontVariant: ['tabular-nums'],
+    minWidth: 32,
+    textAlign: 'center',
+  },
+});
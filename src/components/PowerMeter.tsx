@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import type { TimeSeriesSample } from '@lib/timeSeries';
+
+// Gauge full scale on either side of zero. Peak regen is far below peak power.
+const MAX_POWER_KW = 250;
+const MAX_REGEN_KW = 80;
+export const POWER_HISTORY_WINDOW_MS = 60_000;
+const HISTORY_BARS = 30;
+const HISTORY_MIN_SCALE_KW = 20;
+
+const POWER_COLOR = '#38bdf8';
+const REGEN_COLOR = '#22c55e';
+const IDLE_COLOR = '#94a3b8';
+
+interface PowerMeterProps {
+  /** Positive while drawing from the battery, negative while regenerating. */
+  powerKw: number | null;
+  /** Recent power samples, oldest first, covering about `POWER_HISTORY_WINDOW_MS`. */
+  history: TimeSeriesSample[];
+  width?: number;
+}
+
+export function PowerMeter({ powerKw, history, width = 180 }: PowerMeterProps) {
+  const power = powerKw == null || Number.isNaN(powerKw) ? null : Math.round(powerKw);
+  const color = powerColor(power);
+  const regenWidth = power !== null && power < 0 ? Math.min(1, -power / MAX_REGEN_KW) : 0;
+  const powerWidth = power !== null && power > 0 ? Math.min(1, power / MAX_POWER_KW) : 0;
+  const bars = useMemo(() => historyBars(history), [history]);
+  const scale = Math.max(HISTORY_MIN_SCALE_KW, ...bars.map((value) => Math.abs(value ?? 0)));
+
+  return (
+    <View style={[styles.container, { width }]} accessibilityLabel={power === null ? 'Power unavailable' : `Power ${power} kilowatts`}>
+      <Text style={[styles.value, { color }]}>
+        {power === null ? '--' : power}
+        <Text style={styles.unit}> kW</Text>
+      </Text>
+
+      <View style={styles.gauge}>
+        <View style={[styles.gaugeHalf, styles.gaugeRegen]}>
+          <View style={[styles.gaugeFill, { width: `${regenWidth * 100}%`, backgroundColor: REGEN_COLOR }]} />
+        </View>
+        <View style={styles.gaugeZero} />
+        <View style={[styles.gaugeHalf, styles.gaugePower]}>
+          <View style={[styles.gaugeFill, { width: `${powerWidth * 100}%`, backgroundColor: POWER_COLOR }]} />
+        </View>
+      </View>
+
+      <View style={styles.history}>
+        {bars.map((value, index) => {
+          const height = `${Math.min(1, Math.abs(value ?? 0) / scale) * 100}%` as const;
+          return (
+            <View key={index} style={styles.historyColumn}>
+              <View style={styles.historyHalf}>
+                {value !== null && value > 0 && (
+                  <View style={[styles.historyBar, { height, backgroundColor: POWER_COLOR }]} />
+                )}
+              </View>
+              <View style={[styles.historyHalf, styles.historyHalfRegen]}>
+                {value !== null && value < 0 && (
+                  <View style={[styles.historyBar, { height, backgroundColor: REGEN_COLOR }]} />
+                )}
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Averages the samples into fixed time slots ending at the newest sample, so
+ * the bars span the same time whatever the polling rate. Empty slots are null.
+ */
+function historyBars(history: TimeSeriesSample[]): (number | null)[] {
+  const sums = new Array<number>(HISTORY_BARS).fill(0);
+  const counts = new Array<number>(HISTORY_BARS).fill(0);
+  const newest = history[history.length - 1];
+  if (newest) {
+    const slotMs = POWER_HISTORY_WINDOW_MS / HISTORY_BARS;
+    for (const sample of history) {
+      const slot = HISTORY_BARS - 1 - Math.floor((newest.at - sample.at) / slotMs);
+      if (slot >= 0) {
+        sums[slot] += sample.value;
+        counts[slot] += 1;
+      }
+    }
+  }
+  return sums.map((sum, slot) => (counts[slot] ? sum / counts[slot] : null));
+}
+
+function powerColor(power: number | null): string {
+  if (power === null || power === 0) {
+    return IDLE_COLOR;
+  }
+  return power < 0 ? REGEN_COLOR : POWER_COLOR;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  value: {
+    fontSize: 32,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  unit: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  gauge: {
+    height: 8,
+    flexDirection: 'row',
+    alignItems: 'stretch',
+  },
+  gaugeHalf: {
+    flex: 1,
+    flexDirection: 'row',
+    backgroundColor: '#1f2937',
+    overflow: 'hidden',
+  },
+  // The regen half is narrower than the power half, matching the smaller full scale.
+  gaugeRegen: {
+    flex: MAX_REGEN_KW / MAX_POWER_KW,
+    justifyContent: 'flex-end',
+    borderTopLeftRadius: 4,
+    borderBottomLeftRadius: 4,
+  },
+  gaugePower: {
+    borderTopRightRadius: 4,
+    borderBottomRightRadius: 4,
+  },
+  gaugeFill: {
+    height: '100%',
+  },
+  gaugeZero: {
+    width: 2,
+    backgroundColor: '#e2e8f0',
+  },
+  history: {
+    height: 36,
+    flexDirection: 'row',
+    alignItems: 'stretch',
+    gap: 1,
+  },
+  historyColumn: {
+    flex: 1,
+  },
+  historyHalf: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  historyHalfRegen: {
+    justifyContent: 'flex-start',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#334155',
+  },
+  historyBar: {
+    borderRadius: 1,
+  },
+});
@@ -0,0 +1,55 @@
+import { StyleSheet, Text, View } from 'react-native';
+import { AppButton } from './AppButton';
+
+interface StepperProps {
+  label: string;
+  /** Already formatted, e.g. `21.5°C` or `80%`. */
+  value: string;
+  onDecrement(): void;
+  onIncrement(): void;
+  canDecrement?: boolean;
+  canIncrement?: boolean;
+}
+
+/** A labelled value with − and + buttons. */
+export function Stepper({ label, value, onDecrement, onIncrement, canDecrement = true, canIncrement = true }: StepperProps) {
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.controls}>
+        <AppButton label="−" onPress={onDecrement} disabled={!canDecrement} style={styles.button} />
+        <Text style={styles.value}>{value}</Text>
+        <AppButton label="+" onPress={onIncrement} disabled={!canIncrement} style={styles.button} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    color: '#e2e8f0',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  button: {
+    minWidth: 48,
+  },
+  value: {
+    color: '#f8fafc',
+    fontSize: 20,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+    minWidth: 72,
+    textAlign: 'center',
+  },
+});
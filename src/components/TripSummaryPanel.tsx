@@ -0,0 +1,108 @@
+import { StyleSheet, Text, View } from 'react-native';
+import { Trip, tripEfficiency } from '@lib/tripComputer';
+
+interface TripSummaryPanelProps {
+  trip: Trip | null;
+  /** True while the trip is still being recorded. */
+  active: boolean;
+  /** A single row of the main figures, for the landscape dashboard. */
+  compact?: boolean;
+}
+
+const COMPACT_STATS = ['Distance', 'Moving', 'Energy', 'Efficiency'];
+
+export function TripSummaryPanel({ trip, active, compact = false }: TripSummaryPanelProps) {
+  if (!trip) {
+    return null;
+  }
+  const efficiency = tripEfficiency(trip, 'mi');
+  const batteryUsed = trip.startBatteryLevel != null && trip.endBatteryLevel != null
+    ? trip.startBatteryLevel - trip.endBatteryLevel
+    : null;
+  const stats: { label: string; value: string }[] = [
+    { label: 'Distance', value: `${trip.distanceMiles.toFixed(1)} mi` },
+    { label: 'Moving', value: formatTripDuration(trip.movingTimeMs) },
+    { label: 'Avg', value: trip.averageSpeedMph == null ? '--' : `${Math.round(trip.averageSpeedMph)} mph` },
+    { label: 'Max', value: `${Math.round(trip.maxSpeedMph)} mph` },
+    { label: 'Energy', value: `${trip.energyKwh.toFixed(2)} kWh` },
+    { label: 'Efficiency', value: efficiency == null ? '--' : `${Math.round(efficiency)} Wh/mi` },
+  ];
+  if (batteryUsed != null) {
+    stats.push({ label: 'Battery', value: `${batteryUsed}%` });
+  }
+
+  const shown = compact ? stats.filter(({ label }) => COMPACT_STATS.includes(label)) : stats;
+
+  return (
+    <View style={[styles.panel, compact && styles.panelCompact]}>
+      <Text style={styles.title}>{active ? 'Current Trip' : 'Last Trip'}</Text>
+      <View style={styles.grid}>
+        {shown.map(({ label, value }) => (
+          <View key={label} style={[styles.stat, compact && styles.statCompact]}>
+            <Text style={[styles.statValue, compact && styles.statValueCompact]}>{value}</Text>
+            <Text style={styles.statLabel}>{label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+/** `h:mm:ss`, or `m:ss` under an hour. */
+export function formatTripDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    width: '100%',
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#1f2937',
+    backgroundColor: '#0f172a',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  panelCompact: {
+    paddingVertical: 8,
+    gap: 4,
+  },
+  title: {
+    color: '#94a3b8',
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 8,
+  },
+  stat: {
+    width: '33.33%',
+  },
+  statCompact: {
+    width: '25%',
+  },
+  statValue: {
+    color: '#f8fafc',
+    fontSize: 18,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  statValueCompact: {
+    fontSize: 15,
+  },
+  statLabel: {
+    color: '#64748b',
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+});
@@ -6,68 +6,45 @@ import {
   TESLA_SERVICE_UUID,
   TESLA_TX_CHAR_UUID,
   TESLA_RX_CHAR_UUID,
-  HEADER_SIZE,
-  DEFAULT_MAX_MESSAGE_SIZE,
-  DEFAULT_RX_TIMEOUT_MS,
   WEB_BLUETOOTH_DEFAULT_BLOCK,
   TESLA_PAIRING_SERVICE_UUID,
 } from './constants';
+import {
+  DISCONNECT_EVENT,
+  MESSAGE_EVENT,
+  MessageDeframer,
+  PHASE_EVENT,
+  SimpleEventEmitter,
+  TransportDeviceInfo,
+  TransportMessageEvent,
+  TransportPhase,
+  VehicleTransport,
+  frameMessage,
+} from './transport';
+
+export { MESSAGE_EVENT, DISCONNECT_EVENT } from './transport';
+export type { TransportMessageEvent } from './transport';
 
 const MIN_BLOCK_LENGTH = 20;
+const DIRECT_CONNECT_TIMEOUT_MS = 8_000;
 type WriteMode = 'with-response' | 'without-response';
 
-export const MESSAGE_EVENT = 'message';
-export const DISCONNECT_EVENT = 'disconnect';
-
 export enum DeviceDiscoveryMode {
   VinPrefixPromptFilter = 'vin-prefix-prompt-filter',
   VinPrefixValidation = 'vin-prefix-validation',
   Unfiltered = 'unfiltered',
 }
 
-export interface TransportMessageEvent {
-  detail: Uint8Array;
-}
-
 export interface TeslaBleTransportOptions {
   vin?: string;
   preferredBlockLength?: number;
   deviceDiscoveryMode?: DeviceDiscoveryMode;
   scanTimeoutMs?: number;
+  /** Device id from an earlier connection; tried directly before falling back to a scan. */
+  knownDeviceId?: string;
 }
 
-type Listener<T> = (payload: T) => void;
-
-class SimpleEventEmitter {
-  private listeners = new Map<string, Set<Listener<any>>>();
-
-  on<T>(event: string, listener: Listener<T>): void {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set());
-    }
-    this.listeners.get(event)!.add(listener);
-  }
-
-  off<T>(event: string, listener: Listener<T>): void {
-    this.listeners.get(event)?.delete(listener);
-  }
-
-  emit<T>(event: string, payload: T): void {
-    const listeners = this.listeners.get(event);
-    if (!listeners) {
-      return;
-    }
-    for (const listener of listeners) {
-      try {
-        listener(payload);
-      } catch (error) {
-        console.error(`[BLE] Listener for "${event}" failed`, error);
-      }
-    }
-  }
-}
-
-export class TeslaBleTransport {
+export class TeslaBleTransport implements VehicleTransport {
   private readonly options: TeslaBleTransportOptions;
   private readonly ble = new BleManager();
   private readonly events = new SimpleEventEmitter();
@@ -77,14 +54,15 @@ export class TeslaBleTransport {
   private rxChar: Characteristic | null = null;
   private rxSubscription: Subscription | null = null;
   private disconnectSubscription: Subscription | null = null;
-  private buffer = new Uint8Array(0);
-  private lastNotification = 0;
+  private readonly deframer = new MessageDeframer();
   private blockLength = WEB_BLUETOOTH_DEFAULT_BLOCK;
   private writeMode: WriteMode = 'with-response';
   private writeChain: Promise<void> = Promise.resolve();
+  private knownDeviceId: string | null;
 
   constructor(options: TeslaBleTransportOptions = {}) {
     this.options = options;
+    this.knownDeviceId = options.knownDeviceId ?? null;
   }
 
   get connected(): boolean {
@@ -95,6 +73,22 @@ export class TeslaBleTransport {
     return this.device;
   }
 
+  get lastDeviceId(): string | null {
+    return this.knownDeviceId;
+  }
+
+  get deviceInfo(): TransportDeviceInfo | null {
+    if (!this.device) {
+      return null;
+    }
+    return {
+      id: this.device.id,
+      name: this.device.name ?? null,
+      serviceUUIDs: this.device.serviceUUIDs ?? null,
+      mtu: this.device.mtu,
+    };
+  }
+
   async connect(existing?: Device): Promise<void> {
     if (this.connected) {
       return;
@@ -102,13 +96,14 @@ export class TeslaBleTransport {
     if (Platform.OS === 'android') {
       await ensureAndroidBlePermissions();
     }
-    const target = existing ?? (await this.requestDevice());
-    const connectedDevice = await target.connect();
+    const connectedDevice = await this.establishConnection(existing);
+    this.knownDeviceId = connectedDevice.id;
     this.disconnectSubscription?.remove();
     this.disconnectSubscription = connectedDevice.onDisconnected(() => {
       this.handleExternalDisconnect();
     });
 
+    this.events.emit<TransportPhase>(PHASE_EVENT, 'discovering');
     const discovered = await connectedDevice.discoverAllServicesAndCharacteristics();
     let preparedDevice: Device = discovered;
     if (Platform.OS === 'android') {
@@ -170,13 +165,7 @@ export class TeslaBleTransport {
     if (!this.txChar) {
       throw new Error('TX characteristic not ready');
     }
-    if (payload.length > DEFAULT_MAX_MESSAGE_SIZE) {
-      throw new Error(`Payload too large (${payload.length})`);
-    }
-    const packet = new Uint8Array(HEADER_SIZE + payload.length);
-    packet[0] = (payload.length >> 8) & 0xff;
-    packet[1] = payload.length & 0xff;
-    packet.set(payload, HEADER_SIZE);
+    const packet = frameMessage(payload);
 
     const task = this.writeChain.then(() => this.writePacket(packet));
     this.writeChain = task.catch(() => {
@@ -201,6 +190,34 @@ export class TeslaBleTransport {
     this.events.off(DISCONNECT_EVENT, listener);
   }
 
+  addPhaseListener(listener: (phase: TransportPhase) => void): void {
+    this.events.on(PHASE_EVENT, listener);
+  }
+
+  removePhaseListener(listener: (phase: TransportPhase) => void): void {
+    this.events.off(PHASE_EVENT, listener);
+  }
+
+  private async establishConnection(existing?: Device): Promise<Device> {
+    if (existing) {
+      this.events.emit<TransportPhase>(PHASE_EVENT, 'connecting');
+      return existing.connect();
+    }
+    if (this.knownDeviceId) {
+      // Reconnecting to a known peripheral skips the (slow) VIN-filtered scan.
+      this.events.emit<TransportPhase>(PHASE_EVENT, 'connecting');
+      try {
+        return await this.ble.connectToDevice(this.knownDeviceId, { timeout: DIRECT_CONNECT_TIMEOUT_MS });
+      } catch (error) {
+        console.warn('[BLE] Direct connect to known device failed, falling back to scan', error);
+      }
+    }
+    this.events.emit<TransportPhase>(PHASE_EVENT, 'scanning');
+    const target = await this.requestDevice();
+    this.events.emit<TransportPhase>(PHASE_EVENT, 'connecting');
+    return target.connect();
+  }
+
   private async requestDevice(): Promise<Device> {
     const filters = [TESLA_PAIRING_SERVICE_UUID, TESLA_SERVICE_UUID].map((uuid) => normalizeUuid(uuid));
     const expectedPrefix = this.options.vin ? await vinToLocalName(this.options.vin) : null;
@@ -338,34 +355,7 @@ export class TeslaBleTransport {
   }
 
   private handleNotification(chunk: Uint8Array) {
-    if (!chunk.length) {
-      return;
-    }
-    const now = Date.now();
-    if (now - this.lastNotification > DEFAULT_RX_TIMEOUT_MS) {
-      this.buffer = new Uint8Array(0);
-    }
-    this.lastNotification = now;
-    const merged = new Uint8Array(this.buffer.length + chunk.length);
-    merged.set(this.buffer);
-    merged.set(chunk, this.buffer.length);
-    this.buffer = merged;
-    this.flush();
-  }
-
-  private flush(): void {
-    while (this.buffer.length >= HEADER_SIZE) {
-      const length = (this.buffer[0] << 8) | this.buffer[1];
-      if (length > DEFAULT_MAX_MESSAGE_SIZE) {
-        console.error('Received oversized BLE packet, resetting buffer');
-        this.buffer = new Uint8Array(0);
-        return;
-      }
-      if (this.buffer.length < HEADER_SIZE + length) {
-        return;
-      }
-      const message = this.buffer.slice(HEADER_SIZE, HEADER_SIZE + length);
-      this.buffer = this.buffer.slice(HEADER_SIZE + length);
+    for (const message of this.deframer.push(chunk)) {
       this.events.emit<TransportMessageEvent>(MESSAGE_EVENT, { detail: message });
     }
   }
@@ -385,7 +375,7 @@ export class TeslaBleTransport {
     this.device = null;
     this.txChar = null;
     this.rxChar = null;
-    this.buffer = new Uint8Array(0);
+    this.deframer.reset();
   }
 }
 
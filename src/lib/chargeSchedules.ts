@@ -0,0 +1,77 @@
+import type { ChargeScheduleInput } from './commands';
+import type { ChargeSchedule } from './vehicleData';
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const EVERY_DAY = 0b1111111;
+const WEEKDAYS = 0b0111110;
+const WEEKEND = 0b1000001;
+
+/** `daysOfWeek` bit mask (bit 0 = Sunday) as `Every day`, `Weekdays`, `Weekend` or `Mon Wed Fri`. */
+export function formatScheduleDays(daysOfWeek: number): string {
+  const mask = daysOfWeek & EVERY_DAY;
+  if (mask === EVERY_DAY) {
+    return 'Every day';
+  }
+  if (mask === WEEKDAYS) {
+    return 'Weekdays';
+  }
+  if (mask === WEEKEND) {
+    return 'Weekend';
+  }
+  const days = DAY_NAMES.filter((_, day) => mask & (1 << day));
+  return days.length ? days.join(' ') : 'No days';
+}
+
+/** Minutes after midnight as `HH:MM`. */
+export function formatTimeOfDay(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+/** `Start 23:00 · End 06:30`; `Any time` when neither end is set. */
+export function formatScheduleWindow(schedule: Pick<ChargeSchedule, 'startEnabled' | 'startTime' | 'endEnabled' | 'endTime'>): string {
+  const parts = [
+    schedule.startEnabled ? `Start ${formatTimeOfDay(schedule.startTime)}` : null,
+    schedule.endEnabled ? `End ${formatTimeOfDay(schedule.endTime)}` : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : 'Any time';
+}
+
+/** The vehicle replaces a schedule added with an existing id, so new ones take the next free id. */
+export function nextChargeScheduleId(schedules: ChargeSchedule[]): number {
+  return schedules.reduce((max, schedule) => Math.max(max, schedule.id), 0) + 1;
+}
+
+export function chargeScheduleInput(schedule: ChargeSchedule): ChargeScheduleInput {
+  return {
+    id: schedule.id,
+    name: schedule.name || undefined,
+    daysOfWeek: schedule.daysOfWeek,
+    startEnabled: schedule.startEnabled,
+    startTime: schedule.startTime,
+    endEnabled: schedule.endEnabled,
+    endTime: schedule.endTime,
+    oneTime: schedule.oneTime,
+    enabled: schedule.enabled,
+    latitude: schedule.latitude,
+    longitude: schedule.longitude,
+  };
+}
+
+/** The full `ChargeSchedule` a vehicle reports for an input; unset times are 0. */
+export function chargeScheduleFromInput(input: ChargeScheduleInput): ChargeSchedule {
+  return {
+    id: input.id,
+    name: input.name ?? '',
+    daysOfWeek: input.daysOfWeek,
+    startEnabled: input.startEnabled,
+    startTime: input.startTime ?? 0,
+    endEnabled: input.endEnabled,
+    endTime: input.endTime ?? 0,
+    oneTime: input.oneTime ?? false,
+    enabled: input.enabled,
+    latitude: input.latitude,
+    longitude: input.longitude,
+  };
+}
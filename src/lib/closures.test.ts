@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { resolveLocked, walkAwayIssues } from './closures';
+import type { ClosuresState } from './vehicleData';
+
+function closures(values: Partial<ClosuresState>): ClosuresState {
+  return { locked: null, sunRoofState: null, sunRoofPercentOpen: null, ...values } as ClosuresState;
+}
+
+describe('walkAwayIssues', () => {
+  it('is empty for a locked, closed car', () => {
+    expect(walkAwayIssues(closures({ locked: true }), 'locked')).toEqual([]);
+  });
+
+  it('prefers the VCSEC lock state over polled closures', () => {
+    expect(resolveLocked(closures({ locked: true }), 'unlocked')).toBe(false);
+    expect(walkAwayIssues(closures({ locked: true, windowOpenDriverFront: true }), 'unlocked')).toEqual([
+      'Unlocked',
+      'Driver front window',
+    ]);
+  });
+
+  it('treats an unknown lock state as not confirmed locked', () => {
+    expect(resolveLocked(closures({}), 'unknown')).toBeNull();
+    expect(walkAwayIssues(closures({}), 'unknown')).toEqual(['Lock not confirmed']);
+    expect(walkAwayIssues(null)).toEqual(['Lock not confirmed']);
+  });
+});
@@ -0,0 +1,87 @@
+import type { LockState } from './vcsec';
+import type { ClosuresState, SentryModeState } from './vehicleData';
+
+type OpenFlag = Extract<keyof ClosuresState, `doorOpen${string}` | `windowOpen${string}`>;
+
+export interface ClosureItem {
+  field: OpenFlag;
+  label: string;
+}
+
+export const DOORS: ClosureItem[] = [
+  { field: 'doorOpenDriverFront', label: 'Driver front door' },
+  { field: 'doorOpenPassengerFront', label: 'Passenger front door' },
+  { field: 'doorOpenDriverRear', label: 'Driver rear door' },
+  { field: 'doorOpenPassengerRear', label: 'Passenger rear door' },
+];
+
+export const TRUNKS: ClosureItem[] = [
+  { field: 'doorOpenTrunkFront', label: 'Frunk' },
+  { field: 'doorOpenTrunkRear', label: 'Trunk' },
+];
+
+export const WINDOWS: ClosureItem[] = [
+  { field: 'windowOpenDriverFront', label: 'Driver front window' },
+  { field: 'windowOpenPassengerFront', label: 'Passenger front window' },
+  { field: 'windowOpenDriverRear', label: 'Driver rear window' },
+  { field: 'windowOpenPassengerRear', label: 'Passenger rear window' },
+];
+
+/** Labels of the items reported open; unknown counts as closed. */
+export function openClosures(closures: ClosuresState, items: ClosureItem[]): string[] {
+  return items.filter((item) => closures[item.field]).map((item) => item.label);
+}
+
+export function isSunroofOpen(closures: ClosuresState): boolean {
+  return (
+    closures.sunRoofState === 'Open' ||
+    closures.sunRoofState === 'Vent' ||
+    (closures.sunRoofPercentOpen ?? 0) > 0
+  );
+}
+
+/**
+ * Whether the car reports itself locked; null when neither reading is known.
+ * `lockState` is the fresher VCSEC reading when there is one.
+ */
+export function resolveLocked(closures: ClosuresState | null, lockState: LockState | null = null): boolean | null {
+  if (lockState && lockState !== 'unknown') {
+    return lockState === 'locked' || lockState === 'internalLocked';
+  }
+  return closures?.locked ?? null;
+}
+
+/**
+ * What is left insecure for someone walking away: not confirmed locked, windows,
+ * sunroof, doors and trunks.
+ */
+export function walkAwayIssues(closures: ClosuresState | null, lockState: LockState | null = null): string[] {
+  const locked = resolveLocked(closures, lockState);
+  const issues = locked === true ? [] : [locked === false ? 'Unlocked' : 'Lock not confirmed'];
+  if (!closures) {
+    return issues;
+  }
+  issues.push(...openClosures(closures, [...DOORS, ...TRUNKS, ...WINDOWS]));
+  if (isSunroofOpen(closures)) {
+    issues.push('Sunroof');
+  }
+  return issues;
+}
+
+export function describeSentryMode(state: SentryModeState | null): string {
+  switch (state) {
+    case 'Armed':
+    case 'Quiet':
+      return 'Sentry armed';
+    case 'Aware':
+      return 'Sentry aware';
+    case 'Panic':
+      return 'Sentry alarm';
+    case 'Idle':
+      return 'Sentry idle';
+    case 'Off':
+      return 'Sentry off';
+    default:
+      return 'Sentry unknown';
+  }
+}
@@ -0,0 +1,309 @@
+import { ActionStatusData, encodeVehicleAction } from './protocol';
+
+/**
+ * Typed infotainment (CarServer) commands. Each variant maps onto exactly one
+ * `CarServer.VehicleAction` field; `encodeVehicleCommand` produces the
+ * plaintext that `TeslaBleSession.execute` signs and sends.
+ */
+export type VehicleCommand =
+  | { type: 'chargingSetLimit'; percent: number }
+  | { type: 'chargingStartStop'; action: ChargingAction }
+  | { type: 'setChargingAmps'; amps: number }
+  | { type: 'chargePortDoorOpen' }
+  | { type: 'chargePortDoorClose' }
+  | { type: 'scheduledCharging'; enabled: boolean; minutesAfterMidnight: number }
+  | { type: 'addChargeSchedule'; schedule: ChargeScheduleInput }
+  | { type: 'removeChargeSchedule'; id: number }
+  | { type: 'batchRemoveChargeSchedules'; home?: boolean; work?: boolean; other?: boolean }
+  | { type: 'addPreconditionSchedule'; schedule: PreconditionScheduleInput }
+  | { type: 'removePreconditionSchedule'; id: number }
+  | { type: 'batchRemovePreconditionSchedules'; home?: boolean; work?: boolean; other?: boolean }
+  | { type: 'hvacAuto'; on: boolean; manualOverride?: boolean }
+  | { type: 'hvacTemperature'; driverCelsius: number; passengerCelsius: number }
+  | { type: 'hvacPreconditioningMax'; on: boolean; manualOverride?: boolean }
+  | { type: 'hvacSteeringWheelHeater'; on: boolean }
+  | { type: 'hvacSeatHeater'; seat: SeatPosition; level: SeatClimateLevel }
+  | { type: 'hvacSeatCooler'; seat: FrontSeatPosition; level: SeatClimateLevel }
+  | { type: 'autoSeatClimate'; seat: FrontSeatPosition; on: boolean }
+  | { type: 'hvacBioweaponMode'; on: boolean; manualOverride?: boolean }
+  | { type: 'climateKeeper'; mode: ClimateKeeperMode; manualOverride?: boolean }
+  | { type: 'cabinOverheatProtection'; on: boolean; fanOnly?: boolean }
+  | { type: 'cabinOverheatProtectionTemp'; level: 'low' | 'medium' | 'high' }
+  | { type: 'mediaTogglePlayback' }
+  | { type: 'mediaNextTrack' }
+  | { type: 'mediaPreviousTrack' }
+  | { type: 'mediaNextFavorite' }
+  | { type: 'mediaPreviousFavorite' }
+  | { type: 'mediaSetVolume'; volume: number }
+  | { type: 'mediaAdjustVolume'; delta: number }
+  | { type: 'setSentryMode'; on: boolean }
+  | { type: 'setValetMode'; on: boolean; password?: string }
+  | { type: 'resetValetPin' }
+  | { type: 'setPinToDrive'; on: boolean; password?: string }
+  | { type: 'resetPinToDrive' }
+  | { type: 'speedLimitActivate'; pin: string }
+  | { type: 'speedLimitDeactivate'; pin: string }
+  | { type: 'speedLimitSet'; limitMph: number }
+  | { type: 'speedLimitClearPin'; pin: string }
+  | { type: 'setGuestMode'; on: boolean }
+  | { type: 'setLowPowerMode'; on: boolean }
+  | { type: 'setVehicleName'; name: string }
+  | { type: 'flashLights' }
+  | { type: 'honkHorn' }
+  | { type: 'windows'; action: 'vent' | 'close' }
+  | { type: 'sunroof'; action: 'vent' | 'close' | 'open' }
+  | { type: 'triggerHomelink'; latitude: number; longitude: number }
+  | { type: 'scheduleSoftwareUpdate'; offsetSec: number }
+  | { type: 'cancelSoftwareUpdate' }
+  | { type: 'ping'; pingId: number };
+
+export type VehicleCommandType = VehicleCommand['type'];
+
+export type ChargingAction = 'start' | 'stop' | 'startStandard' | 'startMaxRange';
+export type SeatPosition = FrontSeatPosition | 'rearLeft' | 'rearLeftBack' | 'rearCenter' | 'rearRight' | 'rearRightBack' | 'thirdRowLeft' | 'thirdRowRight';
+export type FrontSeatPosition = 'frontLeft' | 'frontRight';
+export type SeatClimateLevel = 'off' | 'low' | 'medium' | 'high';
+export type ClimateKeeperMode = 'off' | 'on' | 'dog' | 'camp';
+
+export interface ChargeScheduleInput {
+  id: number;
+  name?: string;
+  /** Bit mask, bit 0 = Sunday. */
+  daysOfWeek: number;
+  startEnabled: boolean;
+  /** Minutes after midnight. */
+  startTime?: number;
+  endEnabled: boolean;
+  endTime?: number;
+  oneTime?: boolean;
+  enabled: boolean;
+  latitude: number;
+  longitude: number;
+}
+
+export interface PreconditionScheduleInput {
+  id: number;
+  name?: string;
+  daysOfWeek: number;
+  /** Minutes after midnight. */
+  preconditionTime: number;
+  oneTime?: boolean;
+  enabled: boolean;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Reason strings the vehicle uses when the requested state already holds, e.g.
+ * starting a charge that is already running. Controls usually treat these as success.
+ */
+const NOMINAL_REASONS = new Set(['already_set', 'is_charging', 'not_charging', 'complete', 'requested']);
+
+/** The vehicle accepted the request but refused to carry out the action. */
+export class VehicleActionError extends Error {
+  readonly reason: string;
+  readonly command: VehicleCommandType | null;
+
+  constructor(reason: string, command: VehicleCommandType | null = null) {
+    super(`Vehicle reported error: ${reason}`);
+    this.name = 'VehicleActionError';
+    this.reason = reason;
+    this.command = command;
+  }
+
+  /** True when the vehicle is already in the requested state. */
+  get nominal(): boolean {
+    return NOMINAL_REASONS.has(this.reason);
+  }
+}
+
+export function assertActionSucceeded(status: ActionStatusData, command: VehicleCommandType | null = null): void {
+  if (!status.ok) {
+    throw new VehicleActionError(status.reason ?? 'unknown error', command);
+  }
+}
+
+export function encodeVehicleCommand(command: VehicleCommand): Uint8Array {
+  return encodeVehicleAction(vehicleActionFields(command));
+}
+
+const SEAT_HEATER_POSITIONS: Record<SeatPosition, string> = {
+  frontLeft: 'CAR_SEAT_FRONT_LEFT',
+  frontRight: 'CAR_SEAT_FRONT_RIGHT',
+  rearLeft: 'CAR_SEAT_REAR_LEFT',
+  rearLeftBack: 'CAR_SEAT_REAR_LEFT_BACK',
+  rearCenter: 'CAR_SEAT_REAR_CENTER',
+  rearRight: 'CAR_SEAT_REAR_RIGHT',
+  rearRightBack: 'CAR_SEAT_REAR_RIGHT_BACK',
+  thirdRowLeft: 'CAR_SEAT_THIRD_ROW_LEFT',
+  thirdRowRight: 'CAR_SEAT_THIRD_ROW_RIGHT',
+};
+
+const SEAT_HEATER_LEVELS: Record<SeatClimateLevel, string> = {
+  off: 'SEAT_HEATER_OFF',
+  low: 'SEAT_HEATER_LOW',
+  medium: 'SEAT_HEATER_MED',
+  high: 'SEAT_HEATER_HIGH',
+};
+
+// HvacSeatCoolerActions.HvacSeatCoolerLevel_E / HvacSeatCoolerPosition_E
+const SEAT_COOLER_LEVELS: Record<SeatClimateLevel, number> = { off: 1, low: 2, medium: 3, high: 4 };
+const FRONT_SEAT_POSITIONS: Record<FrontSeatPosition, number> = { frontLeft: 1, frontRight: 2 };
+
+// HvacClimateKeeperAction.ClimateKeeperAction_E
+const CLIMATE_KEEPER_MODES: Record<ClimateKeeperMode, number> = { off: 0, on: 1, dog: 2, camp: 3 };
+
+// ClimateState.CopActivationTemp
+const COP_TEMPS = { low: 1, medium: 2, high: 3 } as const;
+
+const MAX_VOLUME = 10;
+
+function vehicleActionFields(command: VehicleCommand): Record<string, unknown> {
+  switch (command.type) {
+    case 'chargingSetLimit':
+      requireRange(command.percent, 50, 100, 'Charge limit');
+      return { chargingSetLimitAction: { percent: Math.round(command.percent) } };
+    case 'chargingStartStop':
+      return { chargingStartStopAction: { [command.action]: {} } };
+    case 'setChargingAmps':
+      requireRange(command.amps, 1, 80, 'Charging current');
+      return { setChargingAmpsAction: { chargingAmps: Math.round(command.amps) } };
+    case 'chargePortDoorOpen':
+      return { chargePortDoorOpen: {} };
+    case 'chargePortDoorClose':
+      return { chargePortDoorClose: {} };
+    case 'scheduledCharging':
+      requireRange(command.minutesAfterMidnight, 0, 24 * 60 - 1, 'Charging time');
+      return { scheduledChargingAction: { enabled: command.enabled, chargingTime: command.minutesAfterMidnight } };
+    case 'addChargeSchedule':
+      return { addChargeScheduleAction: { ...command.schedule } };
+    case 'removeChargeSchedule':
+      return { removeChargeScheduleAction: { id: command.id } };
+    case 'batchRemoveChargeSchedules':
+      return { batchRemoveChargeSchedulesAction: locationFlags(command) };
+    case 'addPreconditionSchedule':
+      return { addPreconditionScheduleAction: { ...command.schedule } };
+    case 'removePreconditionSchedule':
+      return { removePreconditionScheduleAction: { id: command.id } };
+    case 'batchRemovePreconditionSchedules':
+      return { batchRemovePreconditionSchedulesAction: locationFlags(command) };
+    case 'hvacAuto':
+      return { hvacAutoAction: { powerOn: command.on, manualOverride: command.manualOverride ?? false } };
+    case 'hvacTemperature':
+      return {
+        hvacTemperatureAdjustmentAction: {
+          driverTempCelsius: command.driverCelsius,
+          passengerTempCelsius: command.passengerCelsius,
+          level: { TEMP_MAX: {} },
+        },
+      };
+    case 'hvacPreconditioningMax':
+      return { hvacSetPreconditioningMaxAction: { on: command.on, manualOverride: command.manualOverride ?? false } };
+    case 'hvacSteeringWheelHeater':
+      return { hvacSteeringWheelHeaterAction: { powerOn: command.on } };
+    case 'hvacSeatHeater':
+      return {
+        hvacSeatHeaterActions: {
+          hvacSeatHeaterAction: [
+            { [SEAT_HEATER_LEVELS[command.level]]: {}, [SEAT_HEATER_POSITIONS[command.seat]]: {} },
+          ],
+        },
+      };
+    case 'hvacSeatCooler':
+      return {
+        hvacSeatCoolerActions: {
+          hvacSeatCoolerAction: [
+            { seatCoolerLevel: SEAT_COOLER_LEVELS[command.level], seatPosition: FRONT_SEAT_POSITIONS[command.seat] },
+          ],
+        },
+      };
+    case 'autoSeatClimate':
+      return { autoSeatClimateAction: { carseat: [{ on: command.on, seatPosition: FRONT_SEAT_POSITIONS[command.seat] }] } };
+    case 'hvacBioweaponMode':
+      return { hvacBioweaponModeAction: { on: command.on, manualOverride: command.manualOverride ?? false } };
+    case 'climateKeeper':
+      return {
+        hvacClimateKeeperAction: {
+          ClimateKeeperAction: CLIMATE_KEEPER_MODES[command.mode],
+          manualOverride: command.manualOverride ?? false,
+        },
+      };
+    case 'cabinOverheatProtection':
+      return { setCabinOverheatProtectionAction: { on: command.on, fanOnly: command.fanOnly ?? false } };
+    case 'cabinOverheatProtectionTemp':
+      return { setCopTempAction: { copActivationTemp: COP_TEMPS[command.level] } };
+    case 'mediaTogglePlayback':
+      return { mediaPlayAction: {} };
+    case 'mediaNextTrack':
+      return { mediaNextTrack: {} };
+    case 'mediaPreviousTrack':
+      return { mediaPreviousTrack: {} };
+    case 'mediaNextFavorite':
+      return { mediaNextFavorite: {} };
+    case 'mediaPreviousFavorite':
+      return { mediaPreviousFavorite: {} };
+    case 'mediaSetVolume':
+      requireRange(command.volume, 0, MAX_VOLUME, 'Volume');
+      return { mediaUpdateVolume: { volumeAbsoluteFloat: command.volume } };
+    case 'mediaAdjustVolume':
+      return { mediaUpdateVolume: { volumeDelta: Math.round(command.delta) } };
+    case 'setSentryMode':
+      return { vehicleControlSetSentryModeAction: { on: command.on } };
+    case 'setValetMode':
+      return { vehicleControlSetValetModeAction: { on: command.on, password: command.password ?? '' } };
+    case 'resetValetPin':
+      return { vehicleControlResetValetPinAction: {} };
+    case 'setPinToDrive':
+      return { vehicleControlSetPinToDriveAction: { on: command.on, password: command.password ?? '' } };
+    case 'resetPinToDrive':
+      return { vehicleControlResetPinToDriveAction: {} };
+    case 'speedLimitActivate':
+      return { drivingSpeedLimitAction: { activate: true, pin: command.pin } };
+    case 'speedLimitDeactivate':
+      return { drivingSpeedLimitAction: { activate: false, pin: command.pin } };
+    case 'speedLimitSet':
+      return { drivingSetSpeedLimitAction: { limitMph: command.limitMph } };
+    case 'speedLimitClearPin':
+      return { drivingClearSpeedLimitPinAction: { pin: command.pin } };
+    case 'setGuestMode':
+      return { guestModeAction: { GuestModeActive: command.on } };
+    case 'setLowPowerMode':
+      return { setLowPowerModeAction: { lowPowerMode: command.on } };
+    case 'setVehicleName':
+      return { setVehicleNameAction: { vehicleName: command.name } };
+    case 'flashLights':
+      return { vehicleControlFlashLightsAction: {} };
+    case 'honkHorn':
+      return { vehicleControlHonkHornAction: {} };
+    case 'windows':
+      return { vehicleControlWindowAction: { [command.action]: {} } };
+    case 'sunroof':
+      return { vehicleControlSunroofOpenCloseAction: { [command.action]: {} } };
+    case 'triggerHomelink':
+      return {
+        vehicleControlTriggerHomelinkAction: {
+          location: { latitude: command.latitude, longitude: command.longitude },
+        },
+      };
+    case 'scheduleSoftwareUpdate':
+      return { vehicleControlScheduleSoftwareUpdateAction: { offsetSec: Math.max(0, Math.round(command.offsetSec)) } };
+    case 'cancelSoftwareUpdate':
+      return { vehicleControlCancelSoftwareUpdateAction: {} };
+    case 'ping':
+      return { ping: { pingId: command.pingId } };
+    default: {
+      const unknown: never = command;
+      throw new Error(`Unsupported vehicle command: ${(unknown as { type: string }).type}`);
+    }
+  }
+}
+
+function locationFlags(command: { home?: boolean; work?: boolean; other?: boolean }): Record<string, boolean> {
+  return { home: command.home ?? false, work: command.work ?? false, other: command.other ?? false };
+}
+
+function requireRange(value: number, min: number, max: number, label: string): void {
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${label} must be between ${min} and ${max} (got ${value})`);
+  }
+}
@@ -0,0 +1,83 @@
+export type ConnectionState =
+  | 'idle'
+  | 'scanning'
+  | 'connecting'
+  | 'discovering'
+  /** The link is up but no domain session is authenticated yet. */
+  | 'linked'
+  | 'waking'
+  | 'handshaking'
+  | 'ready'
+  | 'degraded'
+  | 'reconnecting';
+
+export interface ConnectionStateChange {
+  state: ConnectionState;
+  previous: ConnectionState;
+  at: number;
+  /** Reconnect attempt number while reconnecting, starting at 1. */
+  attempt?: number;
+  /** Delay before the next reconnect attempt. */
+  retryInMs?: number;
+  error?: Error;
+}
+
+export interface ReconnectPolicy {
+  enabled: boolean;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  /** Fraction of the delay randomised in either direction to avoid lock-step retries. */
+  jitter: number;
+  /** Give up and return to idle after this many failed attempts. 0 retries forever. */
+  maxAttempts: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  enabled: true,
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxAttempts: 10,
+};
+
+export type BackoffPolicy = Pick<ReconnectPolicy, 'initialDelayMs' | 'maxDelayMs' | 'multiplier' | 'jitter'>;
+
+export function backoffDelay(attempt: number, policy: BackoffPolicy, random: () => number = Math.random): number {
+  const exponent = Math.max(0, attempt - 1);
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.multiplier ** exponent);
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + random() * spread * 2));
+}
+
+export function isConnectionUsable(state: ConnectionState): boolean {
+  return state === 'ready' || state === 'degraded';
+}
+
+export function describeConnectionState(state: ConnectionState): string {
+  switch (state) {
+    case 'idle':
+      return 'Disconnected';
+    case 'scanning':
+      return 'Scanning…';
+    case 'connecting':
+      return 'Connecting…';
+    case 'discovering':
+      return 'Discovering services…';
+    case 'linked':
+      return 'Linked, not authenticated';
+    case 'waking':
+      return 'Waking vehicle…';
+    case 'handshaking':
+      return 'Authenticating…';
+    case 'ready':
+      return 'Connected';
+    case 'degraded':
+      return 'Connection unstable';
+    case 'reconnecting':
+      return 'Reconnecting…';
+    default:
+      return state;
+  }
+}
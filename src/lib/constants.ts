@@ -7,6 +7,7 @@ export const DEFAULT_RX_TIMEOUT_MS = 1000;
 export const HEADER_SIZE = 2; // leading uint16 big-endian length prefix
 export const DEFAULT_TTL_SECONDS = 10;
 
+export const DOMAIN_VEHICLE_SECURITY = 2; // UniversalMessage.Domain.DOMAIN_VEHICLE_SECURITY
 export const DOMAIN_INFOTAINMENT = 3; // UniversalMessage.Domain.DOMAIN_INFOTAINMENT
 
 export const PERSONALIZATION_TAG_VIN = 2; // Signatures.Tag.TAG_PERSONALIZATION
@@ -6,7 +6,6 @@ import { hmac } from '@noble/hashes/hmac.js';
 import { sha256 as nobleSha256 } from '@noble/hashes/sha2.js';
 import { utf8ToBytes } from '@noble/hashes/utils.js';
 import { fromByteArray, toByteArray } from 'base64-js';
-import { getRandomBytes } from 'expo-crypto';
 import { DEFAULT_TTL_SECONDS } from './constants';
 
 export interface TeslaPrivateKey {
@@ -30,10 +29,8 @@ const textEncoder = new TextEncoder();
 
 export async function generatePrivateKey(): Promise<TeslaKeyPair> {
   let secret: Uint8Array;
-  // Use Expo's CSPRNG and validate with noble's helpers to avoid relying on
-  // global crypto.getRandomValues, which is not available in React Native.
   do {
-    secret = getRandomBytes(32);
+    secret = randomBytes(32);
   } while (!p256.utils.isValidSecretKey(secret));
   const publicKey = p256.getPublicKey(secret, false);
   return {
@@ -110,6 +107,11 @@ export async function deriveSessionKeys(opts: {
   // We only want the X coordinate (32 bytes), which matches WebCrypto's ECDH output.
   const sharedPoint = p256.getSharedSecret(opts.privateKey.d, opts.peerPublicKey, true);
   const sharedSecret = sharedPoint.slice(1); // drop format byte, keep 32-byte X coordinate
+  return sessionKeysFromSharedSecret(sharedSecret);
+}
+
+/** Re-derives the session keys from an ECDH shared secret, e.g. one restored from the session cache. */
+export async function sessionKeysFromSharedSecret(sharedSecret: Uint8Array): Promise<TeslaSessionKeys> {
   const sha1Digest = sha1(sharedSecret);
   const aesKeyBytes = sha1Digest.slice(0, 16);
   const sessionInfoKey = await hmacSha256(aesKeyBytes, utf8ToBytes('session info'));
@@ -140,6 +142,11 @@ export async function decryptAesGcm(
   return cipher.decrypt(ciphertext);
 }
 
+/** VCSEC key identifier: the first four bytes of the SHA-1 of the raw public key. */
+export function publicKeyId(publicKeyRaw: Uint8Array): Uint8Array {
+  return sha1(publicKeyRaw).slice(0, 4);
+}
+
 export async function sha256(data: Uint8Array): Promise<Uint8Array> {
   return nobleSha256(data);
 }
@@ -157,8 +164,16 @@ export async function verifyHmacSha256(
   return timingSafeEqual(actual, expected);
 }
 
+/**
+ * CSPRNG bytes from `globalThis.crypto`, which Node and browsers provide and
+ * the app installs on React Native at startup (`src/app/installCrypto.ts`).
+ */
 export function randomBytes(length: number): Uint8Array {
-  return getRandomBytes(length);
+  const source = globalThis.crypto;
+  if (!source?.getRandomValues) {
+    throw new Error('crypto.getRandomValues is not available');
+  }
+  return source.getRandomValues(new Uint8Array(length));
 }
 
 export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
@@ -0,0 +1,48 @@
+import { enumValueName, MessageFault } from './protocol';
+
+/**
+ * Broad classes of `UniversalMessage.MessageFault_E`. The session only needs to
+ * know whether a fault means "handshake again" or "give up".
+ */
+export type MessageFaultKind = 'badCounter' | 'expired' | 'unknownKey' | 'epochChanged' | 'busy' | 'other';
+
+const FAULT_KINDS: Partial<Record<number, MessageFaultKind>> = {
+  [MessageFault.MESSAGEFAULT_ERROR_BUSY]: 'busy',
+  [MessageFault.MESSAGEFAULT_ERROR_UNKNOWN_KEY_ID]: 'unknownKey',
+  [MessageFault.MESSAGEFAULT_ERROR_INACTIVE_KEY]: 'unknownKey',
+  [MessageFault.MESSAGEFAULT_ERROR_INVALID_TOKEN_OR_COUNTER]: 'badCounter',
+  [MessageFault.MESSAGEFAULT_ERROR_REPEATED_COUNTER]: 'badCounter',
+  [MessageFault.MESSAGEFAULT_ERROR_INCORRECT_EPOCH]: 'epochChanged',
+  [MessageFault.MESSAGEFAULT_ERROR_TIME_EXPIRED]: 'expired',
+};
+
+/** Faults caused by stale session state, which a fresh handshake fixes. */
+const RESYNC_KINDS = new Set<MessageFaultKind>(['badCounter', 'expired', 'epochChanged']);
+
+/** The vehicle rejected a message before acting on it (bad signature, counter, epoch, key…). */
+export class MessageFaultError extends Error {
+  readonly fault: number;
+  readonly kind: MessageFaultKind;
+  readonly reason: string;
+
+  constructor(fault: number) {
+    const name = enumValueName('UniversalMessage.MessageFault_E', fault);
+    const reason = name ? name.replace('MESSAGEFAULT_ERROR_', '').toLowerCase() : `fault ${fault}`;
+    super(`Vehicle rejected message: ${reason}`);
+    this.name = 'MessageFaultError';
+    this.fault = fault;
+    this.kind = FAULT_KINDS[fault] ?? 'other';
+    this.reason = reason;
+  }
+
+  /** True when re-running the session handshake and resending is expected to succeed. */
+  get recoverable(): boolean {
+    return RESYNC_KINDS.has(this.kind);
+  }
+}
+
+/** Returns the fault carried by a decoded `RoutableMessage`, or null if there is none. */
+export function decodeMessageFault(message: any): MessageFaultError | null {
+  const fault = message.signedMessageStatus?.signedMessageFault ?? MessageFault.MESSAGEFAULT_ERROR_NONE;
+  return fault === MessageFault.MESSAGEFAULT_ERROR_NONE ? null : new MessageFaultError(fault);
+}
@@ -0,0 +1,158 @@
+import { WEB_BLUETOOTH_DEFAULT_BLOCK } from './constants';
+import {
+  DISCONNECT_EVENT,
+  MESSAGE_EVENT,
+  MessageDeframer,
+  PHASE_EVENT,
+  SimpleEventEmitter,
+  TransportDeviceInfo,
+  TransportMessageEvent,
+  TransportPhase,
+  VehicleTransport,
+  frameMessage,
+} from './transport';
+
+export interface LoopbackTransportOptions {
+  name?: string;
+  /** Size of the chunks a framed packet is split into, mirroring the BLE block length. */
+  blockLength?: number;
+  /** Delay applied to each delivered chunk. */
+  latencyMs?: number;
+}
+
+/**
+ * In-memory transport for running the session layer without Bluetooth. Two
+ * instances are linked with createLoopbackPair(); bytes written to one side are
+ * framed, chunked and re-assembled on the other exactly as they would be over
+ * the Tesla GATT characteristics.
+ */
+export class LoopbackTransport implements VehicleTransport {
+  private readonly name: string;
+  private readonly blockLength: number;
+  private readonly latencyMs: number;
+  private readonly events = new SimpleEventEmitter();
+  private readonly deframer = new MessageDeframer();
+
+  private peer: LoopbackTransport | null = null;
+  private linked = false;
+
+  constructor(options: LoopbackTransportOptions = {}) {
+    this.name = options.name ?? 'loopback';
+    this.blockLength = Math.max(1, options.blockLength ?? WEB_BLUETOOTH_DEFAULT_BLOCK);
+    this.latencyMs = Math.max(0, options.latencyMs ?? 0);
+  }
+
+  get connected(): boolean {
+    return this.linked;
+  }
+
+  get deviceInfo(): TransportDeviceInfo | null {
+    if (!this.linked || !this.peer) {
+      return null;
+    }
+    return {
+      id: `loopback:${this.peer.name}`,
+      name: this.peer.name,
+      serviceUUIDs: null,
+      mtu: this.blockLength + 3,
+    };
+  }
+
+  attach(peer: LoopbackTransport): void {
+    this.peer = peer;
+    peer.peer = this;
+  }
+
+  async connect(): Promise<void> {
+    if (this.linked) {
+      return;
+    }
+    if (!this.peer) {
+      throw new Error('Loopback transport has no peer');
+    }
+    this.events.emit<TransportPhase>(PHASE_EVENT, 'connecting');
+    this.linked = true;
+    this.peer.linked = true;
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.linked) {
+      return;
+    }
+    this.linked = false;
+    this.deframer.reset();
+    this.peer?.handleRemoteDisconnect();
+  }
+
+  /** Drops the link on both sides, as if the vehicle went out of range. */
+  simulateLinkLoss(): void {
+    if (!this.linked) {
+      return;
+    }
+    this.handleRemoteDisconnect();
+    this.peer?.handleRemoteDisconnect();
+  }
+
+  async send(payload: Uint8Array): Promise<void> {
+    if (!this.linked || !this.peer) {
+      throw new Error('Loopback transport not connected');
+    }
+    const packet = frameMessage(payload);
+    const peer = this.peer;
+    for (let offset = 0; offset < packet.length; offset += this.blockLength) {
+      const block = packet.slice(offset, Math.min(offset + this.blockLength, packet.length));
+      setTimeout(() => peer.receiveChunk(block), this.latencyMs);
+    }
+  }
+
+  addMessageListener(listener: (event: TransportMessageEvent) => void): void {
+    this.events.on(MESSAGE_EVENT, listener);
+  }
+
+  removeMessageListener(listener: (event: TransportMessageEvent) => void): void {
+    this.events.off(MESSAGE_EVENT, listener);
+  }
+
+  addDisconnectListener(listener: () => void): void {
+    this.events.on(DISCONNECT_EVENT, listener);
+  }
+
+  removeDisconnectListener(listener: () => void): void {
+    this.events.off(DISCONNECT_EVENT, listener);
+  }
+
+  addPhaseListener(listener: (phase: TransportPhase) => void): void {
+    this.events.on(PHASE_EVENT, listener);
+  }
+
+  removePhaseListener(listener: (phase: TransportPhase) => void): void {
+    this.events.off(PHASE_EVENT, listener);
+  }
+
+  private receiveChunk(chunk: Uint8Array): void {
+    if (!this.linked) {
+      return;
+    }
+    for (const message of this.deframer.push(chunk)) {
+      this.events.emit<TransportMessageEvent>(MESSAGE_EVENT, { detail: message });
+    }
+  }
+
+  private handleRemoteDisconnect(): void {
+    if (!this.linked) {
+      return;
+    }
+    this.linked = false;
+    this.deframer.reset();
+    this.events.emit(DISCONNECT_EVENT, undefined);
+  }
+}
+
+export function createLoopbackPair(
+  options: LoopbackTransportOptions = {},
+): [client: LoopbackTransport, vehicle: LoopbackTransport] {
+  const client = new LoopbackTransport({ ...options, name: 'client' });
+  const vehicle = new LoopbackTransport({ ...options, name: options.name ?? 'Loopback Vehicle' });
+  client.attach(vehicle);
+  return [client, vehicle];
+}
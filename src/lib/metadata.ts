@@ -0,0 +1,42 @@
+import { TAG_END } from './constants';
+import { concat } from './crypto';
+
+export interface MetadataItem {
+  tag: number;
+  value?: Uint8Array | null;
+}
+
+/**
+ * TLV encoding of signature metadata. Both the client and the vehicle hash
+ * this exact byte layout, so the session and the simulator share it.
+ */
+export function serializeMetadata(items: MetadataItem[]): Uint8Array {
+  let lastTag = -1;
+  const chunks: Uint8Array[] = [];
+  for (const { tag, value } of items) {
+    if (tag < lastTag) {
+      throw new Error('Metadata tags must be appended in ascending order');
+    }
+    lastTag = tag;
+    if (!value) {
+      continue;
+    }
+    if (value.length > 255) {
+      throw new Error('Metadata value too large');
+    }
+    const chunk = new Uint8Array(2 + value.length);
+    chunk[0] = tag & 0xff;
+    chunk[1] = value.length & 0xff;
+    chunk.set(value, 2);
+    chunks.push(chunk);
+  }
+  chunks.push(new Uint8Array([TAG_END]));
+  return concat(...chunks);
+}
+
+export function uint32ToBytes(value: number): Uint8Array {
+  const buffer = new Uint8Array(4);
+  const view = new DataView(buffer.buffer);
+  view.setUint32(0, value >>> 0, false);
+  return buffer;
+}
@@ -0,0 +1,31 @@
+/**
+ * A change shown ahead of the vehicle confirming it. Edits are laid over
+ * polled state until a poll requested after the command succeeded arrives,
+ * which then carries the vehicle's own value.
+ */
+export interface PendingEdit<T> {
+  id: number;
+  values: Partial<T>;
+  /** When the command succeeded; null while it is in flight. */
+  confirmedAt: number | null;
+}
+
+/** `state` with the edits applied in order; later edits win. */
+export function applyPendingEdits<T extends object>(state: T, edits: PendingEdit<T>[]): T {
+  return edits.reduce<T>((merged, edit) => ({ ...merged, ...edit.values }), state);
+}
+
+export function confirmPendingEdit<T>(edits: PendingEdit<T>[], id: number, at: number): PendingEdit<T>[] {
+  return edits.map((edit) => (edit.id === id ? { ...edit, confirmedAt: at } : edit));
+}
+
+/** Drops a failed edit so the polled value shows again. */
+export function removePendingEdit<T>(edits: PendingEdit<T>[], id: number): PendingEdit<T>[] {
+  return edits.filter((edit) => edit.id !== id);
+}
+
+/** Drops the edits that a poll requested at `requestedAt` already reflects. */
+export function reconcilePendingEdits<T>(edits: PendingEdit<T>[], requestedAt: number): PendingEdit<T>[] {
+  const remaining = edits.filter((edit) => edit.confirmedAt === null || edit.confirmedAt > requestedAt);
+  return remaining.length === edits.length ? edits : remaining;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ADAPTIVE_POLLING_POLICY as POLICY,
+  PollingConditions,
+  adaptiveInterval,
+  motionFromDriveState,
+} from './pollingPolicy';
+import type { DriveState } from './vehicleData';
+
+// The middle of the jitter range, so backoff delays come out exact.
+const noJitter = () => 0.5;
+
+function conditions(values: Partial<PollingConditions> = {}): PollingConditions {
+  return { motion: 'driving', consecutiveTimeouts: 0, latencyMs: null, ...values };
+}
+
+function driveState(values: Partial<DriveState>): DriveState {
+  return { shiftState: null, speed: null, speedFloat: null, ...values } as DriveState;
+}
+
+describe('motionFromDriveState', () => {
+  it('is unknown before a Drive state arrives', () => {
+    expect(motionFromDriveState(null)).toBe('unknown');
+  });
+
+  it('counts D, R or any speed as driving and everything else as parked', () => {
+    expect(motionFromDriveState(driveState({ shiftState: 'D' }))).toBe('driving');
+    expect(motionFromDriveState(driveState({ shiftState: 'R' }))).toBe('driving');
+    expect(motionFromDriveState(driveState({ shiftState: 'N', speedFloat: 3.5 }))).toBe('driving');
+    expect(motionFromDriveState(driveState({ shiftState: 'N', speed: 0 }))).toBe('parked');
+    expect(motionFromDriveState(driveState({ shiftState: 'P' }))).toBe('parked');
+  });
+});
+
+describe('adaptiveInterval', () => {
+  it('keeps the configured interval while driving', () => {
+    expect(adaptiveInterval(1000, conditions(), POLICY, noJitter)).toBe(1000);
+  });
+
+  it('polls a parked car at the parked minimum but keeps longer intervals', () => {
+    expect(adaptiveInterval(1000, conditions({ motion: 'parked' }), POLICY, noJitter)).toBe(5000);
+    expect(adaptiveInterval(30_000, conditions({ motion: 'parked' }), POLICY, noJitter)).toBe(30_000);
+    expect(adaptiveInterval(1000, conditions({ motion: 'unknown' }), POLICY, noJitter)).toBe(1000);
+  });
+
+  it('backs off exponentially after timeouts, up to the maximum', () => {
+    const after = (consecutiveTimeouts: number) =>
+      adaptiveInterval(1000, conditions({ consecutiveTimeouts }), POLICY, noJitter);
+    expect(after(1)).toBe(2000);
+    expect(after(2)).toBe(4000);
+    expect(after(3)).toBe(8000);
+    expect(after(10)).toBe(60_000);
+  });
+
+  it('applies jitter from the given random source', () => {
+    const interval = (random: number) =>
+      adaptiveInterval(1000, conditions({ consecutiveTimeouts: 1 }), POLICY, () => random);
+    expect(interval(0)).toBe(1600);
+    expect(interval(1)).toBe(2400);
+  });
+
+  it('spaces polls by round-trips when latency is high', () => {
+    expect(adaptiveInterval(1000, conditions({ latencyMs: 700 }), POLICY, noJitter)).toBe(1000);
+    expect(adaptiveInterval(1000, conditions({ latencyMs: 900 }), POLICY, noJitter)).toBe(1800);
+    expect(adaptiveInterval(1000, conditions({ motion: 'parked', latencyMs: 900 }), POLICY, noJitter)).toBe(5000);
+  });
+
+  it('returns the configured interval when disabled', () => {
+    const disabled = { ...POLICY, enabled: false };
+    const slow = conditions({ motion: 'parked', consecutiveTimeouts: 3, latencyMs: 2000 });
+    expect(adaptiveInterval(1000, slow, disabled, noJitter)).toBe(1000);
+  });
+});
@@ -0,0 +1,65 @@
+import { backoffDelay, BackoffPolicy } from './connectionState';
+import type { DriveState } from './vehicleData';
+
+/** What the last Drive state says about the car; `unknown` until one has arrived. */
+export type VehicleMotion = 'driving' | 'parked' | 'unknown';
+
+export interface AdaptivePollingPolicy {
+  enabled: boolean;
+  /** While parked, no category is polled more often than this. Longer configured intervals are kept. */
+  parkedIntervalMs: number;
+  /** Minimum interval after consecutive request timeouts, by timeout count. */
+  timeoutBackoff: BackoffPolicy;
+  /** Smoothed request latency above which the link counts as saturated. */
+  saturatedLatencyMs: number;
+  /** While saturated, polls start at least this many round-trips apart. */
+  saturatedLatencyFactor: number;
+}
+
+export const DEFAULT_ADAPTIVE_POLLING_POLICY: AdaptivePollingPolicy = {
+  enabled: true,
+  parkedIntervalMs: 5_000,
+  timeoutBackoff: {
+    initialDelayMs: 2_000,
+    maxDelayMs: 60_000,
+    multiplier: 2,
+    jitter: 0.2,
+  },
+  saturatedLatencyMs: 750,
+  saturatedLatencyFactor: 2,
+};
+
+export interface PollingConditions {
+  motion: VehicleMotion;
+  consecutiveTimeouts: number;
+  /** Smoothed latency of recent state requests, or null before the first one. */
+  latencyMs: number | null;
+}
+
+export function motionFromDriveState(driveState: DriveState | null | undefined): VehicleMotion {
+  if (!driveState) {
+    return 'unknown';
+  }
+  const speed = driveState.speedFloat ?? driveState.speed ?? 0;
+  return driveState.shiftState === 'D' || driveState.shiftState === 'R' || speed > 0 ? 'driving' : 'parked';
+}
+
+/** Stretches a configured interval for the current conditions; never shortens it. */
+export function adaptiveInterval(
+  baseMs: number,
+  conditions: PollingConditions,
+  policy: AdaptivePollingPolicy,
+  random: () => number = Math.random,
+): number {
+  if (!policy.enabled) {
+    return baseMs;
+  }
+  let interval = conditions.motion === 'parked' ? Math.max(baseMs, policy.parkedIntervalMs) : baseMs;
+  if (conditions.consecutiveTimeouts > 0) {
+    interval = Math.max(interval, backoffDelay(conditions.consecutiveTimeouts, policy.timeoutBackoff, random));
+  }
+  if (conditions.latencyMs !== null && conditions.latencyMs > policy.saturatedLatencyMs) {
+    interval = Math.max(interval, Math.round(conditions.latencyMs * policy.saturatedLatencyFactor));
+  }
+  return interval;
+}
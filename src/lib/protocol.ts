@@ -1,5 +1,6 @@
 import protobuf from 'protobufjs';
 import protos from './protos.json';
+import { normalizeVehicleData, VehicleData as VehicleDataModel } from './vehicleData';
 
 const { Root } = protobuf;
 
@@ -23,6 +24,7 @@ const VCSEC_PermissionChange = root.lookupType('VCSEC.PermissionChange');
 const VCSEC_WhitelistOperation = root.lookupType('VCSEC.WhitelistOperation');
 const VCSEC_PublicKey = root.lookupType('VCSEC.PublicKey');
 const VCSEC_KeyMetadata = root.lookupType('VCSEC.KeyMetadata');
+const VCSEC_FromVCSECMessage = root.lookupType('VCSEC.FromVCSECMessage');
 
 export const UniversalDomain = {
   DOMAIN_BROADCAST: 0,
@@ -47,6 +49,57 @@ export enum StateCategory {
   ParentalControls = 'parentalControls',
 }
 
+export const OperationStatus = {
+  OPERATIONSTATUS_OK: 0,
+  OPERATIONSTATUS_WAIT: 1,
+  OPERATIONSTATUS_ERROR: 2,
+} as const;
+
+/** `CarServer.OperationStatus_E`; differs from the UniversalMessage variant above. */
+export const CarServerOperationStatus = {
+  OPERATIONSTATUS_OK: 0,
+  OPERATIONSTATUS_ERROR: 1,
+} as const;
+
+export const SessionInfoStatus = {
+  SESSION_INFO_STATUS_OK: 0,
+  SESSION_INFO_STATUS_KEY_NOT_ON_WHITELIST: 1,
+} as const;
+
+export const MessageFault = {
+  MESSAGEFAULT_ERROR_NONE: 0,
+  MESSAGEFAULT_ERROR_BUSY: 1,
+  MESSAGEFAULT_ERROR_TIMEOUT: 2,
+  MESSAGEFAULT_ERROR_UNKNOWN_KEY_ID: 3,
+  MESSAGEFAULT_ERROR_INACTIVE_KEY: 4,
+  MESSAGEFAULT_ERROR_INVALID_SIGNATURE: 5,
+  MESSAGEFAULT_ERROR_INVALID_TOKEN_OR_COUNTER: 6,
+  MESSAGEFAULT_ERROR_INSUFFICIENT_PRIVILEGES: 7,
+  MESSAGEFAULT_ERROR_INVALID_DOMAINS: 8,
+  MESSAGEFAULT_ERROR_INVALID_COMMAND: 9,
+  MESSAGEFAULT_ERROR_DECODING: 10,
+  MESSAGEFAULT_ERROR_INTERNAL: 11,
+  MESSAGEFAULT_ERROR_WRONG_PERSONALIZATION: 12,
+  MESSAGEFAULT_ERROR_BAD_PARAMETER: 13,
+  MESSAGEFAULT_ERROR_KEYCHAIN_IS_FULL: 14,
+  MESSAGEFAULT_ERROR_INCORRECT_EPOCH: 15,
+  MESSAGEFAULT_ERROR_IV_INCORRECT_LENGTH: 16,
+  MESSAGEFAULT_ERROR_TIME_EXPIRED: 17,
+  MESSAGEFAULT_ERROR_NOT_PROVISIONED_WITH_IDENTITY: 18,
+  MESSAGEFAULT_ERROR_COULD_NOT_HASH_METADATA: 19,
+  MESSAGEFAULT_ERROR_TIME_TO_LIVE_TOO_LONG: 20,
+  MESSAGEFAULT_ERROR_REMOTE_ACCESS_DISABLED: 21,
+  MESSAGEFAULT_ERROR_REMOTE_SERVICE_ACCESS_DISABLED: 22,
+  MESSAGEFAULT_ERROR_COMMAND_REQUIRES_ACCOUNT_CREDENTIALS: 23,
+  MESSAGEFAULT_ERROR_REQUEST_MTU_EXCEEDED: 24,
+  MESSAGEFAULT_ERROR_RESPONSE_MTU_EXCEEDED: 25,
+  MESSAGEFAULT_ERROR_REPEATED_COUNTER: 26,
+  MESSAGEFAULT_ERROR_INVALID_KEY_HANDLE: 27,
+  MESSAGEFAULT_ERROR_REQUIRES_RESPONSE_ENCRYPTION: 28,
+} as const;
+
+export type MessageFault = typeof MessageFault[keyof typeof MessageFault];
+
 export const VcsecSignatureType = {
   SIGNATURE_TYPE_NONE: 0,
   SIGNATURE_TYPE_PRESENT_KEY: 2,
@@ -63,6 +116,8 @@ export const KeyRole = {
   ROLE_GUEST: 8,
 } as const;
 
+export type KeyRole = typeof KeyRole[keyof typeof KeyRole];
+
 export const KeyFormFactor = {
   KEY_FORM_FACTOR_UNKNOWN: 0,
   KEY_FORM_FACTOR_NFC_CARD: 1,
@@ -71,6 +126,36 @@ export const KeyFormFactor = {
   KEY_FORM_FACTOR_CLOUD_KEY: 9,
 } as const;
 
+export type KeyFormFactor = typeof KeyFormFactor[keyof typeof KeyFormFactor];
+
+export const RkeAction = {
+  RKE_ACTION_UNLOCK: 0,
+  RKE_ACTION_LOCK: 1,
+  RKE_ACTION_REMOTE_DRIVE: 20,
+  RKE_ACTION_AUTO_SECURE_VEHICLE: 29,
+  RKE_ACTION_WAKE_VEHICLE: 30,
+} as const;
+
+export type RkeAction = typeof RkeAction[keyof typeof RkeAction];
+
+export const ClosureMoveType = {
+  CLOSURE_MOVE_TYPE_NONE: 0,
+  CLOSURE_MOVE_TYPE_MOVE: 1,
+  CLOSURE_MOVE_TYPE_STOP: 2,
+  CLOSURE_MOVE_TYPE_OPEN: 3,
+  CLOSURE_MOVE_TYPE_CLOSE: 4,
+} as const;
+
+export type ClosureMoveType = typeof ClosureMoveType[keyof typeof ClosureMoveType];
+
+export const InformationRequestType = {
+  INFORMATION_REQUEST_TYPE_GET_STATUS: 0,
+  INFORMATION_REQUEST_TYPE_GET_WHITELIST_INFO: 5,
+  INFORMATION_REQUEST_TYPE_GET_WHITELIST_ENTRY_INFO: 6,
+} as const;
+
+export type InformationRequestType = typeof InformationRequestType[keyof typeof InformationRequestType];
+
 export interface SessionInfoData {
   counter: number;
   epoch: Uint8Array;
@@ -116,6 +201,17 @@ export function decodeSessionInfo(message: any): SessionInfoData {
   };
 }
 
+export function encodeSessionInfo(info: SessionInfoData & { status?: number }): Uint8Array {
+  const message = SessionInfoType.create({
+    counter: info.counter,
+    publicKey: info.publicKey,
+    epoch: info.epoch,
+    clockTime: info.clockTime,
+    status: info.status ?? SessionInfoStatus.SESSION_INFO_STATUS_OK,
+  });
+  return SessionInfoType.encode(message).finish();
+}
+
 export function extractSessionInfoTag(message: any): Uint8Array {
   const signatureData = message.signatureData as any;
   if (!signatureData?.sessionInfoTag?.tag) {
@@ -172,24 +268,125 @@ export function encodeEncryptedCommand(opts: {
   return { buffer, object: message };
 }
 
-export function encodeGetVehicleData(category: StateCategory): Uint8Array {
-  const field = stateCategoryToProtoField(category);
-  const payload = GetVehicleData.create(field);
+/** Unsigned RoutableMessage carrying a plain payload, e.g. a VCSEC status request. */
+export function encodePlainRequest(opts: {
+  domain: UniversalDomain;
+  routingAddress: Uint8Array;
+  uuid: Uint8Array;
+  payload: Uint8Array;
+}): EncodedRoutableMessage {
+  const message = RoutableMessage.create({
+    toDestination: { domain: opts.domain },
+    fromDestination: { routingAddress: opts.routingAddress },
+    protobufMessageAsBytes: opts.payload,
+    uuid: opts.uuid,
+  });
+  const buffer = RoutableMessage.encode(message).finish();
+  return { buffer, object: message };
+}
+
+export interface ResponseSignatureData {
+  nonce: Uint8Array;
+  counter: number;
+  tag: Uint8Array;
+}
+
+/**
+ * Vehicle-side RoutableMessage encoder. Used by the simulator to answer
+ * requests the same way the car does.
+ */
+export function encodeRoutableResponse(opts: {
+  domain: UniversalDomain;
+  routingAddress: Uint8Array;
+  requestUuid: Uint8Array;
+  uuid: Uint8Array;
+  flags?: number;
+  payload?: Uint8Array;
+  sessionInfo?: Uint8Array;
+  sessionInfoTag?: Uint8Array;
+  responseSignature?: ResponseSignatureData;
+  fault?: MessageFault;
+}): EncodedRoutableMessage {
+  const fields: Record<string, unknown> = {
+    toDestination: { routingAddress: opts.routingAddress },
+    fromDestination: { domain: opts.domain },
+    requestUuid: opts.requestUuid,
+    uuid: opts.uuid,
+    flags: opts.flags ?? 0,
+  };
+  if (opts.sessionInfo) {
+    fields.sessionInfo = opts.sessionInfo;
+  } else if (opts.payload) {
+    fields.protobufMessageAsBytes = opts.payload;
+  }
+  if (opts.sessionInfoTag) {
+    fields.signatureData = { sessionInfoTag: { tag: opts.sessionInfoTag } };
+  } else if (opts.responseSignature) {
+    fields.signatureData = { AES_GCM_ResponseData: opts.responseSignature };
+  }
+  if (opts.fault) {
+    fields.signedMessageStatus = {
+      operationStatus: OperationStatus.OPERATIONSTATUS_ERROR,
+      signedMessageFault: opts.fault,
+    };
+  }
+  const message = RoutableMessage.fromObject(fields);
+  const buffer = RoutableMessage.encode(message).finish();
+  return { buffer, object: message };
+}
+
+/** Several categories can be requested at once; the car answers with one `VehicleData` holding all of them. */
+export function encodeGetVehicleData(categories: StateCategory | StateCategory[]): Uint8Array {
+  const fields = (Array.isArray(categories) ? categories : [categories]).map(stateCategoryToProtoField);
+  const payload = GetVehicleData.create(Object.assign({}, ...fields));
   const action = CarServerAction.create({ vehicleAction: { getVehicleData: payload } });
   return CarServerAction.encode(action).finish();
 }
 
+/** Encodes a `CarServer.Action` from the object form of a single VehicleAction field. */
+export function encodeVehicleAction(vehicleAction: Record<string, unknown>): Uint8Array {
+  const action = CarServerAction.fromObject({ vehicleAction });
+  return CarServerAction.encode(action).finish();
+}
+
+export function decodeCarServerAction(buffer: Uint8Array): any {
+  return CarServerAction.toObject(CarServerAction.decode(buffer), { longs: Number, enums: Number, bytes: Array });
+}
+
+export function encodeCarServerResponse(opts: { vehicleData?: Record<string, unknown>; errorReason?: string }): Uint8Array {
+  const fields: Record<string, unknown> = opts.errorReason
+    ? { actionStatus: { result: CarServerOperationStatus.OPERATIONSTATUS_ERROR, resultReason: { plainText: opts.errorReason } } }
+    : { actionStatus: { result: CarServerOperationStatus.OPERATIONSTATUS_OK } };
+  if (opts.vehicleData) {
+    fields.vehicleData = opts.vehicleData;
+  }
+  const message = CarServerResponseType.fromObject(fields);
+  return CarServerResponseType.encode(message).finish();
+}
+
 export function decodeCarServerResponse(buffer: Uint8Array): any {
   return CarServerResponseType.decode(buffer);
 }
 
+export interface ActionStatusData {
+  ok: boolean;
+  reason: string | null;
+}
+
+export function decodeActionStatus(response: any): ActionStatusData {
+  const status = response.actionStatus;
+  const ok = (status?.result ?? CarServerOperationStatus.OPERATIONSTATUS_OK) === CarServerOperationStatus.OPERATIONSTATUS_OK;
+  return { ok, reason: status?.resultReason?.plainText || null };
+}
+
 export function carServerResponseToObject(message: any): any {
   return CarServerResponseType.toObject(message, { longs: Number, enums: Number, bytes: Array });
 }
 
-export function decodeVehicleData(buffer: Uint8Array): any {
+export function decodeVehicleData(buffer: Uint8Array): VehicleDataModel {
   const response = decodeCarServerResponse(buffer);
-  return VehicleData.toObject(response.vehicleData ?? {}, { longs: Number, enums: Number, bytes: Array });
+  const raw = VehicleData.toObject(response.vehicleData ?? {}, { longs: Number, enums: Number, bytes: Array });
+  return normalizeVehicleData(VehicleData, raw);
 }
 
 export function encodeVcsecAddKeyRequest(params: { publicKeyRaw: Uint8Array; role: number; formFactor: number }): Uint8Array {
@@ -215,6 +412,37 @@ export function encodeVcsecAddKeyRequest(params: { publicKeyRaw: Uint8Array; rol
   return VCSEC_ToVCSECMessage.encode(envelope).finish();
 }
 
+export function encodeVcsecUnsignedMessage(message: Record<string, unknown>): Uint8Array {
+  return VCSEC_UnsignedMessage.encode(VCSEC_UnsignedMessage.fromObject(message)).finish();
+}
+
+export function decodeVcsecUnsignedMessage(buffer: Uint8Array): any {
+  return VCSEC_UnsignedMessage.toObject(VCSEC_UnsignedMessage.decode(buffer), { longs: Number, enums: Number, bytes: Array });
+}
+
+export function decodeVcsecToMessage(buffer: Uint8Array): any {
+  return VCSEC_ToVCSECMessage.toObject(VCSEC_ToVCSECMessage.decode(buffer), { longs: Number, enums: Number, bytes: Array });
+}
+
+export function decodeVcsecFromMessage(buffer: Uint8Array): any {
+  return VCSEC_FromVCSECMessage.toObject(VCSEC_FromVCSECMessage.decode(buffer), { longs: Number, enums: Number, bytes: Array });
+}
+
+export function encodeVcsecFromMessage(message: Record<string, unknown>): Uint8Array {
+  return VCSEC_FromVCSECMessage.encode(VCSEC_FromVCSECMessage.fromObject(message)).finish();
+}
+
+/** Symbolic name of a schema enum value, e.g. `enumValueName('Errors.GenericError_E', 5)`. */
+export function enumValueName(enumName: string, value: number): string | null {
+  return root.lookupEnum(enumName).valuesById[value] ?? null;
+}
+
+/** The `VehicleData` field that answers a category, e.g. `chargeState` for `getChargeState`. */
+export function vehicleDataField(category: StateCategory): keyof VehicleDataModel {
+  const [requestField] = Object.keys(stateCategoryToProtoField(category));
+  return requestField.replace(/^get/, '').replace(/^./, (c) => c.toLowerCase()) as keyof VehicleDataModel;
+}
+
 function stateCategoryToProtoField(category: StateCategory): Record<string, unknown> {
   switch (category) {
     case StateCategory.Charge:
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { generatePrivateKey } from './crypto';
+import { createLoopbackPair } from './loopback';
+import { StateCategory, TeslaBleSession } from './session';
+import { VehicleSimulator } from './simulator';
+import { findScenario } from './simulatorScenarios';
+
+const VIN = '5YJ3E1EA7JF000000';
+
+let cleanup: (() => Promise<void>) | null = null;
+
+afterEach(async () => {
+  await cleanup?.();
+  cleanup = null;
+});
+
+async function connectToSimulator(scenarioId: string) {
+  const [client, vehicle] = createLoopbackPair();
+  const simulator = new VehicleSimulator({
+    vin: VIN,
+    transport: vehicle,
+    scenario: findScenario(scenarioId) ?? undefined,
+    wakeDelayMs: 10,
+  });
+  await simulator.start();
+  const session = new TeslaBleSession({ vin: VIN, transport: client });
+  const { privateKey } = await generatePrivateKey();
+  cleanup = async () => {
+    await session.disconnect();
+    simulator.stop();
+  };
+  return { session, simulator, privateKey };
+}
+
+describe('TeslaBleSession against the simulator', () => {
+  it('handshakes and reads normalized vehicle data', async () => {
+    const { session, privateKey } = await connectToSimulator('parked-asleep');
+    const [drive, charge] = await session.getStates([StateCategory.Drive, StateCategory.Charge], privateKey);
+
+    expect(drive.vehicleData.driveState?.shiftState).toBe('P');
+    expect(charge.vehicleData.chargeState?.batteryLevel).toBe(64);
+    expect(session.state).toBe('ready');
+  });
+
+  it('sends infotainment commands', async () => {
+    const { session, privateKey } = await connectToSimulator('parked-asleep');
+    await session.execute({ type: 'chargingSetLimit', percent: 85 }, privateKey);
+    const charge = await session.getState(StateCategory.Charge, privateKey);
+
+    expect(charge.vehicleData.chargeState?.chargeLimitSoc).toBe(85);
+  });
+
+  it('locks and unlocks over VCSEC', async () => {
+    const { session, privateKey } = await connectToSimulator('parked-asleep');
+    await session.wake(privateKey);
+    await session.executeSecurity({ type: 'unlock' }, privateKey);
+    expect((await session.getVehicleStatus()).lockState).toBe('unlocked');
+
+    await session.executeSecurity({ type: 'lock' }, privateKey);
+    expect((await session.getVehicleStatus()).lockState).toBe('locked');
+  });
+
+  it('reports ready only after a session is authenticated', async () => {
+    const { session, privateKey } = await connectToSimulator('driving');
+    const states: string[] = [];
+    session.addConnectionStateListener((change) => states.push(change.state));
+
+    await session.connect();
+    expect(session.state).toBe('linked');
+    await session.ensureSession(privateKey);
+
+    expect(states).toEqual(['connecting', 'linked', 'handshaking', 'ready']);
+  });
+
+  it('wakes a sleeping car before the infotainment handshake', async () => {
+    const { session, privateKey } = await connectToSimulator('parked-asleep');
+    const states: string[] = [];
+    session.addConnectionStateListener((change) => states.push(change.state));
+
+    await session.ensureSession(privateKey);
+
+    expect(states).toEqual(['connecting', 'linked', 'handshaking', 'waking', 'handshaking', 'ready']);
+  });
+});
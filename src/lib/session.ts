@@ -14,18 +14,39 @@ import {
   TAG_PERSONALIZATION,
   TAG_REQUEST_HASH,
   TAG_SIGNATURE_TYPE,
-  TAG_END,
 } from './constants';
+import { SimpleEventEmitter, TransportMessageEvent, TransportPhase, VehicleTransport } from './transport';
 import {
-  TeslaBleTransport,
-  MESSAGE_EVENT,
-  DISCONNECT_EVENT,
-  TransportMessageEvent,
-  DeviceDiscoveryMode,
-  BleDevice,
-} from './bluetooth';
-export { DeviceDiscoveryMode } from './bluetooth';
-export { StateCategory, KeyRole, KeyFormFactor } from './protocol';
+  ConnectionState,
+  ConnectionStateChange,
+  DEFAULT_RECONNECT_POLICY,
+  ReconnectPolicy,
+  backoffDelay,
+} from './connectionState';
+export type { VehicleTransport } from './transport';
+export type { ConnectionState, ConnectionStateChange, ReconnectPolicy } from './connectionState';
+export { StateCategory, KeyRole, KeyFormFactor, UniversalDomain } from './protocol';
+export { VehicleActionError } from './commands';
+export { MessageFaultError } from './faults';
+export type { VehicleData } from './vehicleData';
+export type { MessageFaultKind } from './faults';
+export type { VehicleCommand, VehicleCommandType } from './commands';
+export { VcsecCommandError, describeKeyFormFactor, describeKeyRole } from './vcsec';
+export type {
+  SecurityCommand,
+  Closure,
+  ClosureMove,
+  ClosureState,
+  KeyEnrollmentResult,
+  KeyEnrollmentStatus,
+  LockState,
+  SleepStatus,
+  UserPresence,
+  VehicleSecurityStatus,
+  WhitelistEntry,
+  WhitelistOperation,
+  WhitelistSummary,
+} from './vcsec';
 import {
   randomBytes,
   deriveSessionKeys,
@@ -36,6 +57,7 @@ import {
   verifyHmacSha256,
   sha256,
   defaultExpiry,
+  publicKeyId,
   TeslaPrivateKey,
 } from './crypto';
 import {
@@ -44,50 +66,100 @@ import {
   decodeSessionInfo,
   extractSessionInfoTag,
   encodeEncryptedCommand,
+  encodePlainRequest,
   encodeGetVehicleData,
   decodeVehicleData,
   decodeCarServerResponse,
   carServerResponseToObject,
+  decodeActionStatus,
+  decodeVcsecFromMessage,
   StateCategory,
   UniversalDomain,
+  vehicleDataField,
   encodeVcsecAddKeyRequest,
   KeyRole,
   KeyFormFactor,
 } from './protocol';
+import { serializeMetadata, uint32ToBytes } from './metadata';
+import { decodeMessageFault, MessageFaultError } from './faults';
+import { SessionCache, SessionSnapshot } from './sessionCache';
+import type { VehicleData } from './vehicleData';
+import { assertActionSucceeded, encodeVehicleCommand, VehicleCommand } from './commands';
+import {
+  assertVcsecSucceeded,
+  decodeEnrollmentReply,
+  decodeVehicleStatus,
+  decodeWhitelistEntry,
+  decodeWhitelistInfo,
+  encodeSecurityCommand,
+  encodeVehicleStatusRequest,
+  encodeWhitelistEntryRequest,
+  encodeWhitelistInfoRequest,
+  encodeWhitelistOperation,
+  KeyEnrollmentResult,
+  SecurityCommand,
+  VehicleSecurityStatus,
+  WhitelistEntry,
+  WhitelistOperation,
+  WhitelistSummary,
+} from './vcsec';
 
 const REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_WAKE_TIMEOUT_MS = 30_000;
+const WAKE_POLL_INTERVAL_MS = 1_000;
+const DEFAULT_ENROLLMENT_TIMEOUT_MS = 60_000;
+const ENROLLMENT_POLL_INTERVAL_MS = 2_000;
+const CONNECTION_STATE_EVENT = 'connection-state';
 const GCM_TAG_SIZE = 16;
 const AES_GCM_NONCE_SIZE = 12;
 
 interface PendingRequest {
   resolve: (value: any) => void;
   reject: (err: Error) => void;
-  timeout: number;
+  timeout: ReturnType<typeof setTimeout>;
   handler?: (message: any, raw: Uint8Array) => Promise<void>;
 }
 
-interface DomainSessionState {
-  keys: Awaited<ReturnType<typeof deriveSessionKeys>>;
-  counter: number;
-  epoch: Uint8Array;
-  vehiclePublicKey: Uint8Array;
-  clientPublicKey: Uint8Array;
-  timeZeroMs: number;
-}
+type DomainSessionState = SessionSnapshot;
 
 export interface TeslaBleSessionOptions {
   vin: string;
-  transport?: TeslaBleTransport;
+  /** The link to the car: a `TeslaBleTransport`, or a loopback pair for the simulator and tests. */
+  transport: VehicleTransport;
   domain?: UniversalDomain;
   flags?: number;
-  deviceDiscoveryMode?: DeviceDiscoveryMode;
+  reconnectPolicy?: Partial<ReconnectPolicy>;
+  /** Wake a sleeping car over VCSEC before the infotainment handshake. Defaults to true. */
+  autoWake?: boolean;
+  wakeTimeoutMs?: number;
+  /** Resume domain sessions from an earlier run instead of handshaking again. */
+  sessionCache?: SessionCache;
+}
+
+export interface KeyEnrollmentOptions {
+  role?: KeyRole;
+  formFactor?: KeyFormFactor;
+  /** How long to wait for the key card tap. Defaults to 60 s. */
+  timeoutMs?: number;
 }
 
 export interface VehicleStateResult {
   category: StateCategory;
   rawResponse: Uint8Array;
   response: any;
-  vehicleData: any;
+  /** Only the category's own field is set, e.g. `driveState` for StateCategory.Drive. */
+  vehicleData: Partial<VehicleData>;
+}
+
+export interface VehicleCommandResult {
+  command: VehicleCommand;
+  rawResponse: Uint8Array;
+  response: any;
+}
+
+export interface SecurityCommandResult {
+  command: SecurityCommand;
+  response: any;
 }
 
 export interface SelectedDeviceInfo {
@@ -100,63 +172,150 @@ export interface SelectedDeviceInfo {
 
 const textEncoder = new TextEncoder();
 
+/** The vehicle did not answer a request in time; the link may be congested or dropping. */
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super('Request timed out');
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 export class TeslaBleSession {
-  private readonly transport: TeslaBleTransport;
+  private readonly transport: VehicleTransport;
   private readonly vin: string;
   private readonly domain: UniversalDomain;
   private readonly flags: number;
   private readonly routingAddress: Uint8Array;
+  private readonly reconnectPolicy: ReconnectPolicy;
+  private readonly autoWake: boolean;
+  private readonly wakeTimeoutMs: number;
+  private readonly sessionCache: SessionCache | null;
+  private readonly stateEvents = new SimpleEventEmitter();
 
   private pending = new Map<string, PendingRequest>();
-  private sessionState: DomainSessionState | null = null;
+  /** Receives replies that arrive after a request's first response was consumed. */
+  private readonly lateReplyHandlers = new Map<string, (message: any) => void>();
+  private readonly sessions = new Map<UniversalDomain, DomainSessionState>();
+  private readonly handshakes = new Map<UniversalDomain, Promise<void>>();
   private connected = false;
+  private connectionState: ConnectionState = 'idle';
+  private connectPromise: Promise<void> | null = null;
+  private lastPrivateKey: TeslaPrivateKey | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
 
   constructor(options: TeslaBleSessionOptions) {
     this.vin = options.vin;
     this.domain = options.domain ?? DOMAIN_INFOTAINMENT;
     this.flags = options.flags ?? DEFAULT_REQUEST_FLAGS;
-    this.transport = options.transport
-      ?? new TeslaBleTransport({
-        vin: options.vin,
-        deviceDiscoveryMode: options.deviceDiscoveryMode,
-        preferredBlockLength: 1024,
-      });
+    this.transport = options.transport;
     this.routingAddress = randomBytes(16);
+    this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...options.reconnectPolicy };
+    this.autoWake = options.autoWake ?? true;
+    this.wakeTimeoutMs = options.wakeTimeoutMs ?? DEFAULT_WAKE_TIMEOUT_MS;
+    this.sessionCache = options.sessionCache ?? null;
+  }
+
+  get state(): ConnectionState {
+    return this.connectionState;
+  }
+
+  addConnectionStateListener(listener: (change: ConnectionStateChange) => void): void {
+    this.stateEvents.on(CONNECTION_STATE_EVENT, listener);
+  }
+
+  removeConnectionStateListener(listener: (change: ConnectionStateChange) => void): void {
+    this.stateEvents.off(CONNECTION_STATE_EVENT, listener);
   }
 
-  async connect(device?: BleDevice): Promise<void> {
+  /** `target` is passed to the transport, e.g. a BLE device to use instead of scanning. */
+  async connect(target?: unknown): Promise<void> {
     if (this.connected) return;
-    await this.transport.connect(device);
-    this.transport.addMessageListener(this.onMessage as (event: TransportMessageEvent) => void);
-    this.transport.addDisconnectListener(this.onDisconnect);
-    this.connected = true;
+    if (!this.connectPromise) {
+      this.connectPromise = this.openTransport(target).finally(() => {
+        this.connectPromise = null;
+      });
+    }
+    await this.connectPromise;
   }
 
   async disconnect(): Promise<void> {
+    this.cancelReconnect();
     this.transport.removeMessageListener(this.onMessage as (event: TransportMessageEvent) => void);
     this.transport.removeDisconnectListener(this.onDisconnect);
     await this.transport.disconnect();
     this.connected = false;
-    this.sessionState = null;
+    this.sessions.clear();
     this.failPending(new Error('Disconnected'));
+    this.setConnectionState('idle');
   }
 
-  async sendAddKeyRequest(publicKeyRaw: Uint8Array, role: number, formFactor: number): Promise<void> {
-    // BLE-only flow; no authenticated session required. The vehicle will prompt for NFC tap.
+  /**
+   * Asks the car to add this key and waits for the owner to approve it with a
+   * key card tap. Approval is only reported once a handshake with the new key
+   * succeeds; the car's own verdict alone is not trusted.
+   */
+  async enrollKey(privateKey: TeslaPrivateKey, options: KeyEnrollmentOptions = {}): Promise<KeyEnrollmentResult> {
     if (!this.connected) {
       await this.connect();
     }
-    const payload = encodeVcsecAddKeyRequest({ publicKeyRaw, role, formFactor });
-    await this.transport.send(payload);
+    const publicKeyRaw = await exportPublicKeyFromPrivate(privateKey);
+    const keyId = toHex(publicKeyId(publicKeyRaw));
+    const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_ENROLLMENT_TIMEOUT_MS);
+    const uuid = randomBytes(16);
+    const { buffer } = encodePlainRequest({
+      domain: UniversalDomain.DOMAIN_VEHICLE_SECURITY,
+      routingAddress: this.routingAddress,
+      uuid,
+      payload: encodeVcsecAddKeyRequest({
+        publicKeyRaw,
+        role: options.role ?? KeyRole.ROLE_OWNER,
+        formFactor: options.formFactor ?? KeyFormFactor.KEY_FORM_FACTOR_ANDROID_DEVICE,
+      }),
+    });
+    const outcome: { reply: KeyEnrollmentResult | null; notify: () => void } = { reply: null, notify: () => {} };
+    const readReply = (message: any) =>
+      decodeEnrollmentReply(decodeVcsecFromMessage(new Uint8Array(message.protobufMessageAsBytes ?? [])));
+    // The car answers WAIT straight away and sends the verdict on the same request once the tap is resolved.
+    const uuidHex = toHex(uuid);
+    this.lateReplyHandlers.set(uuidHex, (message) => {
+      outcome.reply = readReply(message) ?? outcome.reply;
+      outcome.notify();
+    });
+    try {
+      outcome.reply = readReply(await this.sendAndAwait(buffer, uuid));
+      while (!outcome.reply) {
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+          return { status: 'timedOut', reason: null };
+        }
+        await new Promise<void>((resolve) => {
+          outcome.notify = resolve;
+          setTimeout(resolve, Math.min(ENROLLMENT_POLL_INTERVAL_MS, remainingMs));
+        });
+        if (!outcome.reply && (await this.isKeyEnrolled(keyId))) {
+          outcome.reply = { status: 'approved', reason: null };
+        }
+      }
+    } finally {
+      this.lateReplyHandlers.delete(uuidHex);
+    }
+    if (outcome.reply.status !== 'approved') {
+      return outcome.reply;
+    }
+    return this.verifyEnrolledKey(privateKey);
   }
 
   getSelectedDeviceInfo(): SelectedDeviceInfo | null {
-    const device = this.transport.bluetoothDevice;
+    const device = this.transport.deviceInfo;
     if (!device) {
       return null;
     }
     return {
-      name: device.name ?? null,
+      name: device.name,
       id: device.id,
       serviceUUIDs: device.serviceUUIDs ?? null,
       mtu: device.mtu,
@@ -164,41 +323,329 @@ export class TeslaBleSession {
     } satisfies SelectedDeviceInfo;
   }
 
-  async ensureSession(privateKey: TeslaPrivateKey): Promise<void> {
+  /**
+   * Opens an authenticated session with one vehicle domain. Infotainment and
+   * VCSEC keep separate epochs and counters, so each needs its own handshake.
+   */
+  async ensureSession(privateKey: TeslaPrivateKey, domain: UniversalDomain = this.domain): Promise<void> {
+    this.lastPrivateKey = privateKey;
     if (!this.connected) {
       await this.connect();
     }
-    if (this.sessionState) {
+    if (this.sessions.has(domain)) {
       return;
     }
-    await this.performHandshake(privateKey);
+    let handshake = this.handshakes.get(domain);
+    if (!handshake) {
+      handshake = this.runHandshake(privateKey, domain).finally(() => {
+        this.handshakes.delete(domain);
+      });
+      this.handshakes.set(domain, handshake);
+    }
+    await handshake;
   }
 
   async getState(category: StateCategory, privateKey: TeslaPrivateKey): Promise<VehicleStateResult> {
-    await this.ensureSession(privateKey);
-    if (!this.sessionState) {
-      throw new Error('Session not established');
+    const [result] = await this.getStates([category], privateKey);
+    return result;
+  }
+
+  /**
+   * Fetches several categories in one round-trip. Results come back in the
+   * requested order, each holding only its own part of the `VehicleData`.
+   */
+  async getStates(categories: StateCategory[], privateKey: TeslaPrivateKey): Promise<VehicleStateResult[]> {
+    if (!categories.length) {
+      return [];
     }
-    const payload = encodeGetVehicleData(category);
-    const responseBytes = await this.sendEncryptedCommand(payload);
+    const payload = encodeGetVehicleData(Array.from(new Set(categories)));
+    const responseBytes = await this.sendSignedCommand(payload, privateKey);
     const response = decodeCarServerResponse(responseBytes);
-    if (response.actionStatus?.result === 1) {
-      const reason = response.actionStatus?.resultReason?.plainText ?? 'unknown error';
-      throw new Error(`Vehicle reported error: ${reason}`);
-    }
+    assertActionSucceeded(decodeActionStatus(response));
     const vehicleData = decodeVehicleData(responseBytes);
+    const responseObject = carServerResponseToObject(response);
+    return categories.map((category) => {
+      const field = vehicleDataField(category);
+      return {
+        category,
+        rawResponse: responseBytes,
+        response: responseObject,
+        vehicleData: { [field]: vehicleData[field] },
+      };
+    });
+  }
+
+  /**
+   * Signs and sends an infotainment command. Throws VehicleActionError when the
+   * vehicle refuses it; check `error.nominal` for "already in that state" replies.
+   */
+  async execute(command: VehicleCommand, privateKey: TeslaPrivateKey): Promise<VehicleCommandResult> {
+    const payload = encodeVehicleCommand(command);
+    const responseBytes = await this.sendSignedCommand(payload, privateKey);
+    const response = decodeCarServerResponse(responseBytes);
+    assertActionSucceeded(decodeActionStatus(response), command.type);
     return {
-      category,
+      command,
       rawResponse: responseBytes,
       response: carServerResponseToObject(response),
-      vehicleData,
     };
   }
 
-  private async performHandshake(privateKey: TeslaPrivateKey): Promise<void> {
+  /** Signs and sends a VCSEC command (lock, unlock, closures) over the vehicle security session. */
+  async executeSecurity(command: SecurityCommand, privateKey: TeslaPrivateKey): Promise<SecurityCommandResult> {
+    const response = await this.sendVcsecCommand(encodeSecurityCommand(command), privateKey, command.type);
+    return { command, response };
+  }
+
+  /** Removes, replaces or adds keys. The vehicle only accepts these from an owner key. */
+  async executeWhitelistOperation(operation: WhitelistOperation, privateKey: TeslaPrivateKey): Promise<any> {
+    return this.sendVcsecCommand(encodeWhitelistOperation(operation), privateKey, operation.type);
+  }
+
+  async getWhitelistInfo(): Promise<WhitelistSummary> {
+    const response = await this.requestVcsecInformation(encodeWhitelistInfoRequest());
+    if (!response.whitelistInfo) {
+      throw new Error('Vehicle response missing whitelist info');
+    }
+    return decodeWhitelistInfo(response.whitelistInfo);
+  }
+
+  async getWhitelistEntry(slot: number): Promise<WhitelistEntry> {
+    const response = await this.requestVcsecInformation(encodeWhitelistEntryRequest(slot));
+    if (!response.whitelistEntryInfo) {
+      throw new Error(`Vehicle response missing whitelist entry for slot ${slot}`);
+    }
+    return { ...decodeWhitelistEntry(response.whitelistEntryInfo), slot };
+  }
+
+  /** Reads every occupied whitelist slot. Like vehicle status, this works without a session. */
+  async listKeys(): Promise<WhitelistEntry[]> {
+    const summary = await this.getWhitelistInfo();
+    const entries: WhitelistEntry[] = [];
+    for (const slot of summary.slots) {
+      entries.push(await this.getWhitelistEntry(slot));
+    }
+    return entries;
+  }
+
+  /**
+   * Asks VCSEC for sleep, lock and closure status. The request is unsigned and
+   * never wakes the car, so it is safe to poll while the vehicle is asleep.
+   */
+  async getVehicleStatus(): Promise<VehicleSecurityStatus> {
+    const response = await this.requestVcsecInformation(encodeVehicleStatusRequest());
+    if (!response.vehicleStatus) {
+      throw new Error('Vehicle response missing status');
+    }
+    return decodeVehicleStatus(response.vehicleStatus);
+  }
+
+  /**
+   * Wakes the car if VCSEC reports it asleep and waits until infotainment is
+   * up. Progress is reported through the `waking` connection state.
+   */
+  async wake(privateKey: TeslaPrivateKey, timeoutMs = this.wakeTimeoutMs): Promise<VehicleSecurityStatus> {
+    if (!this.connected) {
+      await this.connect();
+    }
+    try {
+      const status = await this.wakeVehicle(privateKey, timeoutMs);
+      this.settleConnectionState();
+      return status;
+    } catch (error) {
+      if (this.connected) {
+        this.settleConnectionState(toError(error));
+      }
+      throw error;
+    }
+  }
+
+  private async wakeVehicle(privateKey: TeslaPrivateKey, timeoutMs: number): Promise<VehicleSecurityStatus> {
+    let status = await this.getVehicleStatus();
+    if (status.sleepStatus !== 'asleep') {
+      return status;
+    }
+    // Open the VCSEC session first so its handshake does not interleave with the waking state.
+    await this.ensureSession(privateKey, UniversalDomain.DOMAIN_VEHICLE_SECURITY);
+    this.setConnectionState('waking');
+    await this.executeSecurity({ type: 'wake' }, privateKey);
+    const deadline = Date.now() + timeoutMs;
+    while (status.sleepStatus === 'asleep') {
+      if (Date.now() >= deadline) {
+        throw new Error('Vehicle did not wake up in time');
+      }
+      await delay(WAKE_POLL_INTERVAL_MS);
+      status = await this.getVehicleStatus();
+    }
+    return status;
+  }
+
+  private async sendVcsecCommand(
+    payload: Uint8Array,
+    privateKey: TeslaPrivateKey,
+    commandType: SecurityCommand['type'] | WhitelistOperation['type'],
+  ): Promise<any> {
+    const responseBytes = await this.sendSignedCommand(payload, privateKey, UniversalDomain.DOMAIN_VEHICLE_SECURITY);
+    const response = decodeVcsecFromMessage(responseBytes);
+    assertVcsecSucceeded(response, commandType);
+    return response;
+  }
+
+  private async isKeyEnrolled(keyIdHex: string): Promise<boolean> {
+    try {
+      const { keyIds } = await this.getWhitelistInfo();
+      return keyIds.some((id) => toHex(id) === keyIdHex);
+    } catch {
+      // A missed poll is not a verdict; the next one or the deadline decides.
+      return false;
+    }
+  }
+
+  private async verifyEnrolledKey(privateKey: TeslaPrivateKey): Promise<KeyEnrollmentResult> {
+    // Neither live sessions nor cached ones prove anything about the new key; it must handshake.
+    this.sessions.clear();
+    try {
+      await this.sessionCache?.remove(this.vin, await exportPublicKeyFromPrivate(privateKey), UniversalDomain.DOMAIN_VEHICLE_SECURITY);
+      await this.ensureSession(privateKey, UniversalDomain.DOMAIN_VEHICLE_SECURITY);
+      return { status: 'approved', reason: null };
+    } catch (error) {
+      return { status: 'rejected', reason: `handshake with new key failed: ${toError(error).message}` };
+    }
+  }
+
+  /** Unsigned VCSEC InformationRequest; returns the decoded FromVCSECMessage. */
+  private async requestVcsecInformation(payload: Uint8Array): Promise<any> {
+    if (!this.connected) {
+      await this.connect();
+    }
+    const uuid = randomBytes(16);
+    const { buffer } = encodePlainRequest({
+      domain: UniversalDomain.DOMAIN_VEHICLE_SECURITY,
+      routingAddress: this.routingAddress,
+      uuid,
+      payload,
+    });
+    const message = await this.sendAndAwait(buffer, uuid);
+    const response = decodeVcsecFromMessage(new Uint8Array(message.protobufMessageAsBytes ?? []));
+    assertVcsecSucceeded(response);
+    return response;
+  }
+
+  private async openTransport(target?: unknown): Promise<void> {
+    this.transport.addPhaseListener(this.onTransportPhase);
+    try {
+      await this.transport.connect(target);
+    } catch (error) {
+      if (!this.reconnectAttempt) {
+        this.setConnectionState('idle', { error: toError(error) });
+      }
+      throw error;
+    } finally {
+      this.transport.removePhaseListener(this.onTransportPhase);
+    }
+    this.transport.addMessageListener(this.onMessage as (event: TransportMessageEvent) => void);
+    this.transport.addDisconnectListener(this.onDisconnect);
+    this.connected = true;
+    this.cancelReconnect();
+    this.setConnectionState('linked');
+  }
+
+  private async runHandshake(privateKey: TeslaPrivateKey, domain: UniversalDomain): Promise<void> {
+    try {
+      if (domain === UniversalDomain.DOMAIN_INFOTAINMENT && this.autoWake) {
+        await this.wakeVehicle(privateKey, this.wakeTimeoutMs);
+      }
+      if (!(await this.resumeSession(privateKey, domain))) {
+        this.setConnectionState('handshaking');
+        await this.performHandshake(privateKey, domain);
+        this.persistSession(domain);
+      }
+    } catch (error) {
+      if (this.connected) {
+        this.settleConnectionState(toError(error));
+      }
+      throw error;
+    }
+    // A handshake nested in another one (VCSEC while waking for infotainment) is not the end of the setup.
+    if (this.handshakes.size <= 1) {
+      this.setConnectionState('ready');
+    }
+  }
+
+  /**
+   * `ready` once a domain session is authenticated, `linked` while only the link is
+   * up. An error with a session means the link is `degraded`.
+   */
+  private settleConnectionState(error?: Error): void {
+    if (!this.sessions.size) {
+      this.setConnectionState('linked', error ? { error } : {});
+    } else {
+      this.setConnectionState(error ? 'degraded' : 'ready', error ? { error } : {});
+    }
+  }
+
+  private scheduleReconnect(error?: Error): void {
+    this.reconnectAttempt += 1;
+    const { maxAttempts } = this.reconnectPolicy;
+    if (maxAttempts > 0 && this.reconnectAttempt > maxAttempts) {
+      this.reconnectAttempt = 0;
+      this.setConnectionState('idle', { error: error ?? new Error('Reconnect attempts exhausted') });
+      return;
+    }
+    const delay = backoffDelay(this.reconnectAttempt, this.reconnectPolicy);
+    this.setConnectionState('reconnecting', { attempt: this.reconnectAttempt, retryInMs: delay, error });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.attemptReconnect();
+    }, delay);
+  }
+
+  private async attemptReconnect(): Promise<void> {
+    try {
+      await this.connect();
+      if (this.lastPrivateKey) {
+        await this.ensureSession(this.lastPrivateKey);
+      }
+      this.reconnectAttempt = 0;
+    } catch (error) {
+      if (this.connected) {
+        // The link is back; a failed handshake is surfaced as degraded rather than retried blindly.
+        this.reconnectAttempt = 0;
+        return;
+      }
+      this.scheduleReconnect(toError(error));
+    }
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+  }
+
+  private setConnectionState(
+    state: ConnectionState,
+    details: Partial<Omit<ConnectionStateChange, 'state' | 'previous' | 'at'>> = {},
+  ): void {
+    const previous = this.connectionState;
+    if (state === previous && state !== 'reconnecting') {
+      return;
+    }
+    this.connectionState = state;
+    this.stateEvents.emit<ConnectionStateChange>(CONNECTION_STATE_EVENT, {
+      state,
+      previous,
+      at: Date.now(),
+      ...details,
+    });
+  }
+
+  private async performHandshake(privateKey: TeslaPrivateKey, domain: UniversalDomain): Promise<void> {
     const clientPublicKey = await exportPublicKeyFromPrivate(privateKey);
     const uuid = randomBytes(16);
-    const { buffer } = encodeSessionInfoRequest(this.domain, clientPublicKey, this.routingAddress, uuid);
+    const { buffer } = encodeSessionInfoRequest(domain, clientPublicKey, this.routingAddress, uuid);
     const message = await this.sendAndAwait(buffer, uuid);
     const sessionInfoBytes = message.sessionInfo as Uint8Array | undefined;
     if (!sessionInfoBytes) {
@@ -218,29 +665,89 @@ export class TeslaBleSession {
     }
 
     const timeZeroMs = Date.now() - sessionInfo.clockTime * 1000;
-    this.sessionState = {
+    this.sessions.set(domain, {
       keys,
       counter: sessionInfo.counter,
       epoch: sessionInfo.epoch,
       vehiclePublicKey: sessionInfo.publicKey,
       clientPublicKey,
       timeZeroMs,
-    };
+    });
+  }
+
+  /**
+   * Opens the domain session if needed and sends a signed command. Faults caused
+   * by stale session state (counter, clock or epoch after a vehicle reboot) are
+   * fixed with a fresh handshake and one resend; anything else is thrown.
+   */
+  private async sendSignedCommand(
+    payload: Uint8Array,
+    privateKey: TeslaPrivateKey,
+    domain: UniversalDomain = this.domain,
+  ): Promise<Uint8Array> {
+    await this.ensureSession(privateKey, domain);
+    let response: Uint8Array;
+    try {
+      response = await this.sendEncryptedCommand(payload, domain);
+    } catch (error) {
+      if (!(error instanceof MessageFaultError) || !error.recoverable) {
+        throw error;
+      }
+      console.warn(`[Session] ${error.message}; re-running handshake`);
+      await this.forgetSession(domain);
+      await this.ensureSession(privateKey, domain);
+      response = await this.sendEncryptedCommand(payload, domain);
+    }
+    this.persistSession(domain);
+    return response;
+  }
+
+  /** Restores a cached session for this key; a stale one is caught by the first command's fault. */
+  private async resumeSession(privateKey: TeslaPrivateKey, domain: UniversalDomain): Promise<boolean> {
+    if (!this.sessionCache) {
+      return false;
+    }
+    const clientPublicKey = await exportPublicKeyFromPrivate(privateKey);
+    const cached = await this.sessionCache.load(this.vin, clientPublicKey, domain);
+    if (!cached) {
+      return false;
+    }
+    this.sessions.set(domain, cached);
+    return true;
+  }
+
+  /** Saves the session's current counter. Runs in the background; a lost write only costs a resync. */
+  private persistSession(domain: UniversalDomain): void {
+    const session = this.sessions.get(domain);
+    if (!this.sessionCache || !session) {
+      return;
+    }
+    void this.sessionCache.save(this.vin, domain, { ...session }).catch((error) => {
+      console.warn('[Session] Failed to cache session', error);
+    });
+  }
+
+  private async forgetSession(domain: UniversalDomain): Promise<void> {
+    const session = this.sessions.get(domain);
+    this.sessions.delete(domain);
+    if (this.sessionCache && session) {
+      await this.sessionCache.remove(this.vin, session.clientPublicKey, domain).catch(() => {});
+    }
   }
 
-  private async sendEncryptedCommand(plaintext: Uint8Array): Promise<Uint8Array> {
-    if (!this.sessionState) {
+  private async sendEncryptedCommand(plaintext: Uint8Array, domain: UniversalDomain = this.domain): Promise<Uint8Array> {
+    const session = this.sessions.get(domain);
+    if (!session) {
       throw new Error('Session not established');
     }
-    const session = this.sessionState;
     session.counter += 1;
     const counter = session.counter;
-    const vehicleNow = this.vehicleTimeSeconds();
+    const vehicleNow = this.vehicleTimeSeconds(session);
     const expires = defaultExpiry(vehicleNow);
 
     const metadataItems = [
       { tag: TAG_SIGNATURE_TYPE, value: new Uint8Array([SIGNATURE_TYPE_AES_GCM_PERSONALIZED]) },
-      { tag: TAG_DOMAIN, value: new Uint8Array([this.domain]) },
+      { tag: TAG_DOMAIN, value: new Uint8Array([domain]) },
       { tag: TAG_PERSONALIZATION, value: textEncoder.encode(this.vin) },
       { tag: TAG_EPOCH, value: session.epoch },
       { tag: TAG_EXPIRES_AT, value: uint32ToBytes(expires) },
@@ -266,7 +773,7 @@ export class TeslaBleSession {
     requestId.set(tag, 1);
 
     const { buffer } = encodeEncryptedCommand({
-      domain: this.domain,
+      domain,
       routingAddress: this.routingAddress,
       uuid,
       ciphertext,
@@ -282,15 +789,16 @@ export class TeslaBleSession {
     });
 
     return this.sendAndAwait(buffer, uuid, {
-      handler: async (message, raw) => this.handleEncryptedResponse(message, raw, requestId),
+      handler: async (message) => this.handleEncryptedResponse(message, session, domain, requestId),
     });
   }
 
-  private async handleEncryptedResponse(message: any, raw: Uint8Array, requestId: Uint8Array): Promise<void> {
-    if (!this.sessionState) {
-      throw new Error('Session not established');
-    }
-    const session = this.sessionState;
+  private async handleEncryptedResponse(
+    message: any,
+    session: DomainSessionState,
+    domain: UniversalDomain,
+    requestId: Uint8Array,
+  ): Promise<void> {
     const signatureData = message.signatureData?.AES_GCM_ResponseData;
     if (!signatureData) {
       throw new Error('Missing AES-GCM response metadata');
@@ -304,7 +812,7 @@ export class TeslaBleSession {
     const flags = message.flags ?? 0;
     const metadataItems = [
       { tag: TAG_SIGNATURE_TYPE, value: new Uint8Array([SIGNATURE_TYPE_AES_GCM_RESPONSE]) },
-      { tag: TAG_DOMAIN, value: new Uint8Array([message.fromDestination?.domain ?? this.domain]) },
+      { tag: TAG_DOMAIN, value: new Uint8Array([message.fromDestination?.domain ?? domain]) },
       { tag: TAG_PERSONALIZATION, value: textEncoder.encode(this.vin) },
       { tag: TAG_COUNTER, value: uint32ToBytes(counter) },
     ];
@@ -325,18 +833,22 @@ export class TeslaBleSession {
     }
     const uuidHex = toHex(uuid);
     return new Promise((resolve, reject) => {
-      const timeout = window.setTimeout(() => {
+      const timeout = setTimeout(() => {
         this.pending.delete(uuidHex);
-        reject(new Error('Request timed out'));
+        const error = new RequestTimeoutError(REQUEST_TIMEOUT_MS);
+        if (this.connectionState === 'ready') {
+          this.setConnectionState('degraded', { error });
+        }
+        reject(error);
       }, REQUEST_TIMEOUT_MS);
 
       this.pending.set(uuidHex, {
         resolve: (message) => {
-          window.clearTimeout(timeout);
+          clearTimeout(timeout);
           resolve(message);
         },
         reject: (err) => {
-          window.clearTimeout(timeout);
+          clearTimeout(timeout);
           reject(err);
         },
         timeout,
@@ -344,11 +856,15 @@ export class TeslaBleSession {
       });
 
       void this.transport.send(buffer).catch((error) => {
-        window.clearTimeout(timeout);
+        clearTimeout(timeout);
         this.pending.delete(uuidHex);
         reject(error);
       });
     }).then(async (message: any) => {
+      const fault = decodeMessageFault(message);
+      if (fault) {
+        throw fault;
+      }
       if (options.handler) {
         const raw = message.__raw as Uint8Array | undefined;
         await options.handler(message, raw ?? new Uint8Array());
@@ -376,7 +892,7 @@ export class TeslaBleSession {
       return;
     }
     const key = toHex(new Uint8Array(requestUuid));
-    if (__DEV__) {
+    if (typeof __DEV__ !== 'undefined' && __DEV__) {
       console.debug('[BLE][RX]', {
         uuid: key,
         flags: message.flags ?? 0,
@@ -385,63 +901,55 @@ export class TeslaBleSession {
     }
     const pending = this.pending.get(key);
     if (!pending) {
+      const lateReplyHandler = this.lateReplyHandlers.get(key);
+      if (lateReplyHandler) {
+        lateReplyHandler(message);
+        return;
+      }
       console.warn('No pending request for UUID', key, 'message flags', message.flags ?? 0);
       return;
     }
     this.pending.delete(key);
+    if (this.connectionState === 'degraded' && this.sessions.size) {
+      this.setConnectionState('ready');
+    }
     pending.resolve(message);
   };
 
   private onDisconnect = () => {
     this.connected = false;
+    this.sessions.clear();
     this.failPending(new Error('BLE disconnected'));
+    if (this.reconnectPolicy.enabled) {
+      this.scheduleReconnect();
+    } else {
+      this.setConnectionState('idle');
+    }
   };
 
-  private vehicleTimeSeconds(): number {
-    if (!this.sessionState) {
-      return Math.floor(Date.now() / 1000);
-    }
-    return Math.floor((Date.now() - this.sessionState.timeZeroMs) / 1000);
+  private onTransportPhase = (phase: TransportPhase) => {
+    this.setConnectionState(phase);
+  };
+
+  private vehicleTimeSeconds(session: DomainSessionState): number {
+    return Math.floor((Date.now() - session.timeZeroMs) / 1000);
   }
 
   private failPending(err: Error) {
     for (const [key, pending] of this.pending) {
-      window.clearTimeout(pending.timeout);
+      clearTimeout(pending.timeout);
       pending.reject(err);
       this.pending.delete(key);
     }
   }
 }
 
-function serializeMetadata(items: Array<{ tag: number; value?: Uint8Array | null }>): Uint8Array {
-  let lastTag = -1;
-  const chunks: Uint8Array[] = [];
-  for (const { tag, value } of items) {
-    if (tag < lastTag) {
-      throw new Error('Metadata tags must be appended in ascending order');
-    }
-    lastTag = tag;
-    if (!value) {
-      continue;
-    }
-    if (value.length > 255) {
-      throw new Error('Metadata value too large');
-    }
-    const chunk = new Uint8Array(2 + value.length);
-    chunk[0] = tag & 0xff;
-    chunk[1] = value.length & 0xff;
-    chunk.set(value, 2);
-    chunks.push(chunk);
-  }
-  chunks.push(new Uint8Array([TAG_END]));
-  return concat(...chunks);
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function uint32ToBytes(value: number): Uint8Array {
-  const buffer = new Uint8Array(4);
-  const view = new DataView(buffer.buffer);
-  view.setUint32(0, value >>> 0, false);
-  return buffer;
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
 }
 
 function toHex(bytes: Uint8Array): string {
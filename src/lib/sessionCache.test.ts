@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { generatePrivateKey, randomBytes, sessionKeysFromSharedSecret } from './crypto';
+import { UniversalDomain } from './protocol';
+import { KeyValueStorage, SessionCache, SessionSnapshot } from './sessionCache';
+
+const VIN = '5YJ3E1EA7JF000000';
+const DOMAIN = UniversalDomain.DOMAIN_INFOTAINMENT;
+
+class MemoryStorage implements KeyValueStorage {
+  readonly items = new Map<string, string>();
+
+  async getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  async getAllKeys() {
+    return [...this.items.keys()];
+  }
+}
+
+async function snapshot(): Promise<SessionSnapshot> {
+  const { publicKey } = await generatePrivateKey();
+  return {
+    keys: await sessionKeysFromSharedSecret(randomBytes(32)),
+    counter: 7,
+    epoch: randomBytes(16),
+    vehiclePublicKey: randomBytes(65),
+    clientPublicKey: publicKey,
+    timeZeroMs: 1_000,
+  };
+}
+
+describe('SessionCache', () => {
+  it('keeps the sealing secret out of the entry storage', async () => {
+    const storage = new MemoryStorage();
+    const secrets = new MemoryStorage();
+    const session = await snapshot();
+    await new SessionCache(storage, secrets).save(VIN, DOMAIN, session);
+
+    const loaded = await new SessionCache(storage, secrets).load(VIN, session.clientPublicKey, DOMAIN);
+    expect(loaded?.counter).toBe(7);
+    expect(loaded?.keys.sharedSecret).toEqual(session.keys.sharedSecret);
+    expect([...storage.items.keys()].some((key) => key.includes('secret'))).toBe(false);
+    expect(secrets.items.size).toBe(1);
+  });
+
+  it('drops every entry when the sealing secret is lost', async () => {
+    const storage = new MemoryStorage();
+    const session = await snapshot();
+    await new SessionCache(storage, new MemoryStorage()).save(VIN, DOMAIN, session);
+    storage.items.set('tsla.other', 'kept');
+
+    const cache = new SessionCache(storage, new MemoryStorage());
+    expect(await cache.load(VIN, session.clientPublicKey, DOMAIN)).toBeNull();
+    expect([...storage.items.keys()]).toEqual(['tsla.other']);
+  });
+});
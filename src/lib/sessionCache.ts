@@ -0,0 +1,172 @@
+import {
+  concat,
+  decryptAesGcm,
+  encryptAesGcm,
+  publicKeyId,
+  randomBytes,
+  sessionKeysFromSharedSecret,
+  TeslaSessionKeys,
+} from './crypto';
+import { UniversalDomain } from './protocol';
+
+const SECRET_STORAGE_KEY = 'tsla.sessionCache.secret';
+const ENTRY_STORAGE_PREFIX = 'tsla.session';
+const SECRET_SIZE = 16;
+const NONCE_SIZE = 12;
+
+/** The subset of AsyncStorage the cache needs; injectable so the library stays UI-agnostic. */
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+/** Where the sealing secret lives, e.g. the Keychain or Keystore; never next to the entries. */
+export interface SecretStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+/** Everything needed to keep signing commands without a new handshake. */
+export interface SessionSnapshot {
+  keys: TeslaSessionKeys;
+  counter: number;
+  epoch: Uint8Array;
+  vehiclePublicKey: Uint8Array;
+  clientPublicKey: Uint8Array;
+  timeZeroMs: number;
+}
+
+interface StoredEntry {
+  epoch: string;
+  counter: number;
+  timeZeroMs: number;
+  vehiclePublicKey: string;
+  nonce: string;
+  sealedSecret: string;
+}
+
+/**
+ * Persists domain sessions per VIN, client key and domain. The ECDH shared
+ * secret is sealed with AES-GCM under a random device-local secret kept in
+ * `secretStorage`, with the VIN, client key and domain bound in as AAD; the
+ * session keys are re-derived from it on load.
+ */
+export class SessionCache {
+  private readonly storage: KeyValueStorage;
+  private readonly secretStorage: SecretStorage;
+  private secret: Promise<Uint8Array> | null = null;
+
+  constructor(storage: KeyValueStorage, secretStorage: SecretStorage) {
+    this.storage = storage;
+    this.secretStorage = secretStorage;
+  }
+
+  async load(vin: string, clientPublicKey: Uint8Array, domain: UniversalDomain): Promise<SessionSnapshot | null> {
+    const storageKey = entryKey(vin, clientPublicKey, domain);
+    try {
+      // Resolve the secret first: a lost one clears the entries before they are read.
+      const secret = await this.deviceSecret();
+      const raw = await this.storage.getItem(storageKey);
+      if (!raw) {
+        return null;
+      }
+      const entry = JSON.parse(raw) as StoredEntry;
+      const sharedSecret = await decryptAesGcm(
+        secret,
+        hexToBytes(entry.nonce),
+        hexToBytes(entry.sealedSecret),
+        associatedData(vin, clientPublicKey, domain),
+      );
+      return {
+        keys: await sessionKeysFromSharedSecret(sharedSecret),
+        counter: entry.counter,
+        epoch: hexToBytes(entry.epoch),
+        vehiclePublicKey: hexToBytes(entry.vehiclePublicKey),
+        clientPublicKey,
+        timeZeroMs: entry.timeZeroMs,
+      };
+    } catch (error) {
+      console.warn('[SessionCache] Dropping unreadable session', error);
+      await this.storage.removeItem(storageKey).catch(() => {});
+      return null;
+    }
+  }
+
+  async save(vin: string, domain: UniversalDomain, session: SessionSnapshot): Promise<void> {
+    const nonce = randomBytes(NONCE_SIZE);
+    const sealed = await encryptAesGcm(
+      await this.deviceSecret(),
+      nonce,
+      session.keys.sharedSecret,
+      associatedData(vin, session.clientPublicKey, domain),
+    );
+    const entry: StoredEntry = {
+      epoch: bytesToHex(session.epoch),
+      counter: session.counter,
+      timeZeroMs: session.timeZeroMs,
+      vehiclePublicKey: bytesToHex(session.vehiclePublicKey),
+      nonce: bytesToHex(nonce),
+      sealedSecret: bytesToHex(sealed),
+    };
+    await this.storage.setItem(entryKey(vin, session.clientPublicKey, domain), JSON.stringify(entry));
+  }
+
+  async remove(vin: string, clientPublicKey: Uint8Array, domain: UniversalDomain): Promise<void> {
+    await this.storage.removeItem(entryKey(vin, clientPublicKey, domain));
+  }
+
+  /** Removes every cached session, and the secret older versions kept beside them. */
+  async clear(): Promise<void> {
+    const keys = await this.storage.getAllKeys();
+    const stale = keys.filter((key) => key.startsWith(`${ENTRY_STORAGE_PREFIX}.`) || key === SECRET_STORAGE_KEY);
+    await Promise.all(stale.map((key) => this.storage.removeItem(key)));
+  }
+
+  private deviceSecret(): Promise<Uint8Array> {
+    if (!this.secret) {
+      this.secret = this.loadOrCreateSecret().catch((error) => {
+        this.secret = null;
+        throw error;
+      });
+    }
+    return this.secret;
+  }
+
+  private async loadOrCreateSecret(): Promise<Uint8Array> {
+    const stored = await this.secretStorage.getItem(SECRET_STORAGE_KEY).catch((error) => {
+      console.warn('[SessionCache] Sealing secret unreadable', error);
+      return null;
+    });
+    if (stored?.length === SECRET_SIZE * 2) {
+      return hexToBytes(stored);
+    }
+    // Entries sealed under a lost secret can never be opened again; drop them
+    // before sealing new ones under a fresh secret.
+    await this.clear();
+    const secret = randomBytes(SECRET_SIZE);
+    await this.secretStorage.setItem(SECRET_STORAGE_KEY, bytesToHex(secret));
+    return secret;
+  }
+}
+
+function entryKey(vin: string, clientPublicKey: Uint8Array, domain: UniversalDomain): string {
+  return `${ENTRY_STORAGE_PREFIX}.${vin}.${bytesToHex(publicKeyId(clientPublicKey))}.${domain}`;
+}
+
+function associatedData(vin: string, clientPublicKey: Uint8Array, domain: UniversalDomain): Uint8Array {
+  return concat(new TextEncoder().encode(vin), clientPublicKey, new Uint8Array([domain]));
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i += 1) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
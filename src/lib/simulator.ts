@@ -0,0 +1,866 @@
+import {
+  SIGNATURE_TYPE_AES_GCM_PERSONALIZED,
+  SIGNATURE_TYPE_AES_GCM_RESPONSE,
+  SIGNATURE_TYPE_HMAC,
+  TAG_CHALLENGE,
+  TAG_COUNTER,
+  TAG_DOMAIN,
+  TAG_EPOCH,
+  TAG_EXPIRES_AT,
+  TAG_FAULT,
+  TAG_FLAGS,
+  TAG_PERSONALIZATION,
+  TAG_REQUEST_HASH,
+  TAG_SIGNATURE_TYPE,
+} from './constants';
+import {
+  concat,
+  decryptAesGcm,
+  deriveSessionKeys,
+  encryptAesGcm,
+  exportPublicKeyFromPrivate,
+  generatePrivateKey,
+  hmacSha256,
+  randomBytes,
+  sha256,
+  TeslaPrivateKey,
+  TeslaSessionKeys,
+} from './crypto';
+import { serializeMetadata, uint32ToBytes } from './metadata';
+import {
+  ClosureMoveType,
+  decodeCarServerAction,
+  decodeRoutableMessage,
+  decodeVcsecToMessage,
+  decodeVcsecUnsignedMessage,
+  encodeCarServerResponse,
+  encodeRoutableResponse,
+  encodeSessionInfo,
+  encodeVcsecFromMessage,
+  KeyFormFactor,
+  KeyRole,
+  MessageFault,
+  OperationStatus,
+  ResponseSignatureData,
+  RkeAction,
+  UniversalDomain,
+} from './protocol';
+import { DRIVING_SCENARIO, SimulatorScenario, VehicleDataSnapshot } from './simulatorScenarios';
+import { SimulatedKey, SimulatedWhitelist } from './simulatorWhitelist';
+import { TransportMessageEvent, VehicleTransport } from './transport';
+
+const GCM_TAG_SIZE = 16;
+const AES_GCM_NONCE_SIZE = 12;
+const FLAG_ENCRYPT_RESPONSE = 1 << 1;
+const DEFAULT_WAKE_DELAY_MS = 2_000;
+const DEFAULT_ENROLLMENT_DELAY_MS = 3_000;
+
+const VEHICLE_SLEEP_STATUS_AWAKE = 1;
+const VEHICLE_SLEEP_STATUS_ASLEEP = 2;
+const VEHICLE_LOCK_STATE_UNLOCKED = 0;
+const VEHICLE_LOCK_STATE_LOCKED = 1;
+const VEHICLE_USER_PRESENCE_NOT_PRESENT = 1;
+const VEHICLE_USER_PRESENCE_PRESENT = 2;
+const INFORMATION_REQUEST_TYPE_GET_STATUS = 0;
+const INFORMATION_REQUEST_TYPE_GET_WHITELIST_INFO = 5;
+const INFORMATION_REQUEST_TYPE_GET_WHITELIST_ENTRY_INFO = 6;
+const VCSEC_SIGNATURE_TYPE_PRESENT_KEY = 2;
+const WHITELIST_INFORMATION_KEY_ALREADY_ON_WHITELIST = 13;
+const WHITELIST_INFORMATION_UI_DENIED = 24;
+const CLOSURE_STATE_CLOSED = 0;
+const CLOSURE_STATE_OPEN = 1;
+const MEDIA_PLAYBACK_PLAYING = 1;
+const MEDIA_PLAYBACK_PAUSED = 2;
+const SCHEDULED_CHARGING_MODE_OFF = 0;
+const SCHEDULED_CHARGING_MODE_START_AT = 1;
+
+/** Where each VCSEC closure shows up in the infotainment vehicle data. */
+const CLOSURE_FIELDS: Record<string, [stateField: string, field: string]> = {
+  frontDriverDoor: ['closuresState', 'doorOpenDriverFront'],
+  frontPassengerDoor: ['closuresState', 'doorOpenPassengerFront'],
+  rearDriverDoor: ['closuresState', 'doorOpenDriverRear'],
+  rearPassengerDoor: ['closuresState', 'doorOpenPassengerRear'],
+  rearTrunk: ['closuresState', 'doorOpenTrunkRear'],
+  frontTrunk: ['closuresState', 'doorOpenTrunkFront'],
+  chargePort: ['chargeState', 'chargePortDoorOpen'],
+  tonneau: ['closuresState', 'tonneauPercentOpen'],
+};
+
+/** HvacSeatHeaterActions seat oneof to the ClimateState level it sets. */
+const SEAT_HEATER_FIELDS: Record<string, string> = {
+  CAR_SEAT_FRONT_LEFT: 'seatHeaterLeft',
+  CAR_SEAT_FRONT_RIGHT: 'seatHeaterRight',
+  CAR_SEAT_REAR_LEFT: 'seatHeaterRearLeft',
+  CAR_SEAT_REAR_LEFT_BACK: 'seatHeaterRearLeftBack',
+  CAR_SEAT_REAR_CENTER: 'seatHeaterRearCenter',
+  CAR_SEAT_REAR_RIGHT: 'seatHeaterRearRight',
+  CAR_SEAT_REAR_RIGHT_BACK: 'seatHeaterRearRightBack',
+  CAR_SEAT_THIRD_ROW_LEFT: 'seatHeaterThirdRowLeft',
+  CAR_SEAT_THIRD_ROW_RIGHT: 'seatHeaterThirdRowRight',
+};
+
+const SEAT_HEATER_LEVELS: Record<string, number> = {
+  SEAT_HEATER_OFF: 0,
+  SEAT_HEATER_LOW: 1,
+  SEAT_HEATER_MED: 2,
+  SEAT_HEATER_HIGH: 3,
+};
+
+// HvacClimateKeeperAction.ClimateKeeperAction_E to ClimateState.ClimateKeeperMode
+const CLIMATE_KEEPER_MODES: Record<number, string> = { 0: 'Off', 1: 'On', 2: 'Dog', 3: 'Party' };
+
+export interface VehicleSimulatorOptions {
+  vin: string;
+  /** Vehicle-side end of the link, usually the second half of createLoopbackPair(). */
+  transport: VehicleTransport;
+  scenario?: SimulatorScenario;
+  /** Vehicle identity key. Generated on start() when omitted. */
+  privateKey?: TeslaPrivateKey;
+  /**
+   * Raw client public keys enrolled as owners. When omitted, any key is enrolled on
+   * first contact unless it was removed from the whitelist.
+   */
+  authorizedKeys?: Uint8Array[];
+  wakeDelayMs?: number;
+  /** How the owner answers add-key requests at the car: tap a card, decline, or walk away. */
+  enrollmentResponse?: SimulatedEnrollmentResponse;
+  enrollmentDelayMs?: number;
+  now?: () => number;
+}
+
+export type SimulatedEnrollmentResponse = 'approve' | 'deny' | 'ignore';
+
+interface ClientSession {
+  keys: TeslaSessionKeys;
+  counter: number;
+}
+
+interface DomainState {
+  epoch: Uint8Array;
+  startedAtMs: number;
+  clients: Map<string, ClientSession>;
+}
+
+interface SimulatedRequest {
+  domain: UniversalDomain;
+  message: any;
+  uuid: Uint8Array;
+  routingAddress: Uint8Array;
+  flags: number;
+}
+
+/**
+ * Software stand-in for the vehicle side of the BLE protocol. It answers
+ * session handshakes for the infotainment and VCSEC domains, verifies and
+ * decrypts personalized commands, and replies with data from a scenario.
+ */
+export class VehicleSimulator {
+  private readonly vin: string;
+  private readonly transport: VehicleTransport;
+  private readonly whitelist: SimulatedWhitelist;
+  private readonly wakeDelayMs: number;
+  private readonly enrollmentResponse: SimulatedEnrollmentResponse;
+  private readonly enrollmentDelayMs: number;
+  private readonly now: () => number;
+  private readonly textEncoder = new TextEncoder();
+  private readonly domains = new Map<UniversalDomain, DomainState>();
+
+  private privateKey: TeslaPrivateKey | null;
+  private publicKey: Uint8Array | null = null;
+  private scenario: SimulatorScenario;
+  private scenarioStartedAt = 0;
+  private asleep: boolean;
+  private locked: boolean;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private enrollmentTimer: ReturnType<typeof setTimeout> | null = null;
+  /** State changed by commands, layered over the scenario until the scenario is switched. */
+  private stateOverrides: Record<string, Record<string, unknown>> = {};
+  private running = false;
+
+  constructor(options: VehicleSimulatorOptions) {
+    this.vin = options.vin;
+    this.transport = options.transport;
+    this.privateKey = options.privateKey ?? null;
+    this.whitelist = new SimulatedWhitelist({ autoEnroll: !options.authorizedKeys });
+    options.authorizedKeys?.forEach((key) => this.authorizeKey(key));
+    this.wakeDelayMs = options.wakeDelayMs ?? DEFAULT_WAKE_DELAY_MS;
+    this.enrollmentResponse = options.enrollmentResponse ?? 'approve';
+    this.enrollmentDelayMs = options.enrollmentDelayMs ?? DEFAULT_ENROLLMENT_DELAY_MS;
+    this.now = options.now ?? Date.now;
+    this.scenario = options.scenario ?? DRIVING_SCENARIO;
+    this.asleep = this.scenario.asleep;
+    this.locked = this.scenario.locked;
+  }
+
+  get isAsleep(): boolean {
+    return this.asleep;
+  }
+
+  get isLocked(): boolean {
+    return this.locked;
+  }
+
+  get currentScenario(): SimulatorScenario {
+    return this.scenario;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    if (!this.privateKey) {
+      this.privateKey = (await generatePrivateKey()).privateKey;
+    }
+    this.publicKey = await exportPublicKeyFromPrivate(this.privateKey);
+    this.scenarioStartedAt = this.now();
+    this.transport.addMessageListener(this.onMessage);
+    this.running = true;
+  }
+
+  stop(): void {
+    this.transport.removeMessageListener(this.onMessage);
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+    if (this.enrollmentTimer) {
+      clearTimeout(this.enrollmentTimer);
+      this.enrollmentTimer = null;
+    }
+    this.running = false;
+  }
+
+  setScenario(scenario: SimulatorScenario): void {
+    this.scenario = scenario;
+    this.scenarioStartedAt = this.now();
+    this.stateOverrides = {};
+    this.asleep = scenario.asleep;
+    this.locked = scenario.locked;
+  }
+
+  authorizeKey(
+    publicKey: Uint8Array,
+    role: KeyRole = KeyRole.ROLE_OWNER,
+    formFactor: KeyFormFactor = KeyFormFactor.KEY_FORM_FACTOR_UNKNOWN,
+  ): void {
+    if (!this.whitelist.get(publicKey)) {
+      this.whitelist.add(publicKey, role, formFactor);
+    }
+  }
+
+  /** Simulates a vehicle reboot: every domain gets a fresh epoch and forgets its sessions. */
+  rotateEpochs(): void {
+    this.domains.clear();
+  }
+
+  sleep(): void {
+    this.asleep = true;
+  }
+
+  currentVehicleData(): VehicleDataSnapshot {
+    const data = this.scenario.vehicleData(this.now() - this.scenarioStartedAt);
+    for (const [stateField, values] of Object.entries(this.stateOverrides)) {
+      data[stateField] = { ...data[stateField], ...values };
+    }
+    data.closuresState = { ...data.closuresState, locked: this.locked };
+    return data;
+  }
+
+  private onMessage = (event: TransportMessageEvent) => {
+    void this.handleMessage(event.detail).catch((error) => {
+      console.error('[Simulator] Failed to handle message', error);
+    });
+  };
+
+  private async handleMessage(payload: Uint8Array): Promise<void> {
+    const message = decodeRoutableMessage(payload);
+    const domain = message.toDestination?.domain as UniversalDomain | undefined;
+    if (domain === undefined || domain === null) {
+      console.warn('[Simulator] Ignoring frame without domain');
+      return;
+    }
+    const request: SimulatedRequest = {
+      domain,
+      message,
+      uuid: new Uint8Array(message.uuid ?? []),
+      routingAddress: new Uint8Array(message.fromDestination?.routingAddress ?? []),
+      flags: message.flags ?? 0,
+    };
+    if (domain === UniversalDomain.DOMAIN_INFOTAINMENT && this.asleep) {
+      // Infotainment is powered down while the car sleeps; requests simply time out.
+      return;
+    }
+    if (message.sessionInfoRequest) {
+      await this.handleSessionInfoRequest(request);
+      return;
+    }
+    if (message.signatureData?.AES_GCM_PersonalizedData) {
+      await this.handleSignedCommand(request);
+      return;
+    }
+    if (domain === UniversalDomain.DOMAIN_VEHICLE_SECURITY && message.protobufMessageAsBytes) {
+      this.handleUnsignedVcsec(request);
+      return;
+    }
+    this.sendFault(request, MessageFault.MESSAGEFAULT_ERROR_INVALID_COMMAND);
+  }
+
+  private async handleSessionInfoRequest(request: SimulatedRequest): Promise<void> {
+    const clientKey = new Uint8Array(request.message.sessionInfoRequest.publicKey ?? []);
+    if (!this.whitelist.admit(clientKey)) {
+      this.sendFault(request, MessageFault.MESSAGEFAULT_ERROR_UNKNOWN_KEY_ID);
+      return;
+    }
+    const state = this.domainState(request.domain);
+    const session = await this.clientSession(state, clientKey);
+    const sessionInfo = encodeSessionInfo({
+      counter: session.counter,
+      epoch: state.epoch,
+      clockTime: this.clockSeconds(state),
+      publicKey: this.publicKey!,
+    });
+    const metadata = serializeMetadata([
+      { tag: TAG_SIGNATURE_TYPE, value: new Uint8Array([SIGNATURE_TYPE_HMAC]) },
+      { tag: TAG_PERSONALIZATION, value: this.textEncoder.encode(this.vin) },
+      { tag: TAG_CHALLENGE, value: request.uuid },
+    ]);
+    const tag = await hmacSha256(session.keys.sessionInfoKey, concat(metadata, sessionInfo));
+    const { buffer } = encodeRoutableResponse({
+      domain: request.domain,
+      routingAddress: request.routingAddress,
+      requestUuid: request.uuid,
+      uuid: randomBytes(16),
+      sessionInfo,
+      sessionInfoTag: tag,
+    });
+    await this.transport.send(buffer);
+  }
+
+  private async handleSignedCommand(request: SimulatedRequest): Promise<void> {
+    const { message } = request;
+    const signature = message.signatureData.AES_GCM_PersonalizedData;
+    const clientKey = new Uint8Array(message.signatureData.signerIdentity?.publicKey ?? []);
+    const state = this.domainState(request.domain);
+    const session = state.clients.get(toHex(clientKey));
+    const signer = this.whitelist.get(clientKey);
+    if (!signer) {
+      this.sendFault(request, MessageFault.MESSAGEFAULT_ERROR_UNKNOWN_KEY_ID);
+      return;
+    }
+    const epoch = new Uint8Array(signature.epoch ?? []);
+    // After a reboot the car has forgotten the session, but the client still signs with the old epoch.
+    if (!session || toHex(epoch) !== toHex(state.epoch)) {
+      this.sendFault(request, MessageFault.MESSAGEFAULT_ERROR_INCORRECT_EPOCH);
+      return;
+    }
+    const expiresAt = signature.expiresAt ?? 0;
+    if (expiresAt < this.clockSeconds(state)) {
+      this.sendFault(request, MessageFault.MESSAGEFAULT_ERROR_TIME_EXPIRED);
+      return;
+    }
+    const counter = signature.counter ?? 0;
+    if (counter <= session.counter) {
+      this.sendFault(request, MessageFault.MESSAGEFAULT_ERROR_INVALID_TOKEN_OR_COUNTER);
+      return;
+    }
+
+    const metadataItems = [
+      { tag: TAG_SIGNATURE_TYPE, value: new Uint8Array([SIGNATURE_TYPE_AES_GCM_PERSONALIZED]) },
+      { tag: TAG_DOMAIN, value: new Uint8Array([request.domain]) },
+      { tag: TAG_PERSONALIZATION, value: this.textEncoder.encode(this.vin) },
+      { tag: TAG_EPOCH, value: epoch },
+      { tag: TAG_EXPIRES_AT, value: uint32ToBytes(expiresAt) },
+      { tag: TAG_COUNTER, value: uint32ToBytes(counter) },
+    ];
+    if (request.flags !== 0) {
+      metadataItems.push({ tag: TAG_FLAGS, value: uint32ToBytes(request.flags) });
+    }
+    const aad = await sha256(serializeMetadata(metadataItems));
+    const requestTag = new Uint8Array(signature.tag ?? []);
+    const ciphertext = new Uint8Array(message.protobufMessageAsBytes ?? []);
+    let plaintext: Uint8Array;
+    try {
+      plaintext = await decryptAesGcm(
+        session.keys.aesKeyBytes,
+        new Uint8Array(signature.nonce ?? []),
+        concat(ciphertext, requestTag),
+        aad,
+      );
+    } catch {
+      this.sendFault(request, MessageFault.MESSAGEFAULT_ERROR_INVALID_SIGNATURE);
+      return;
+    }
+    session.counter = counter;
+
+    const response = request.domain === UniversalDomain.DOMAIN_VEHICLE_SECURITY
+      ? this.handleVcsecPayload(plaintext, signer)
+      : this.handleCarServerPayload(plaintext);
+    if (!response) {
+      return;
+    }
+    const requestId = concat(new Uint8Array([SIGNATURE_TYPE_AES_GCM_PERSONALIZED]), requestTag);
+    await this.sendEncryptedResponse(request, session, counter, requestId, response);
+  }
+
+  private handleCarServerPayload(plaintext: Uint8Array): Uint8Array {
+    let action: any;
+    try {
+      action = decodeCarServerAction(plaintext);
+    } catch {
+      return encodeCarServerResponse({ errorReason: 'decoding' });
+    }
+    const vehicleAction = action.vehicleAction ?? {};
+    if (vehicleAction.getVehicleData) {
+      const snapshot = this.currentVehicleData();
+      const vehicleData: VehicleDataSnapshot = {};
+      for (const field of Object.keys(vehicleAction.getVehicleData)) {
+        const stateField = field.replace(/^get/, '').replace(/^./, (c) => c.toLowerCase());
+        if (snapshot[stateField]) {
+          vehicleData[stateField] = snapshot[stateField];
+        }
+      }
+      return encodeCarServerResponse({ vehicleData });
+    }
+    const errorReason = this.applyVehicleAction(vehicleAction);
+    return encodeCarServerResponse(errorReason ? { errorReason } : {});
+  }
+
+  /** Applies an infotainment action to the state overlay. Returns a vehicle error reason on refusal. */
+  private applyVehicleAction(vehicleAction: Record<string, any>): string | null {
+    const data = this.currentVehicleData();
+    const [name] = Object.keys(vehicleAction);
+    const action = vehicleAction[name] ?? {};
+    switch (name) {
+      case 'chargingSetLimitAction':
+        return this.overrideState(data, 'chargeState', { chargeLimitSoc: action.percent });
+      case 'setChargingAmpsAction':
+        return this.overrideState(data, 'chargeState', { chargingAmps: action.chargingAmps });
+      case 'chargingStartStopAction': {
+        const charging = Boolean(data.chargeState?.chargingState?.Charging);
+        if (action.stop) {
+          return charging ? this.overrideState(data, 'chargeState', { chargingState: { Stopped: {} } }) : 'not_charging';
+        }
+        if (data.chargeState?.chargingState?.Disconnected) {
+          return 'disconnected';
+        }
+        return charging ? 'is_charging' : this.overrideState(data, 'chargeState', { chargingState: { Charging: {} } });
+      }
+      case 'chargePortDoorOpen':
+        return this.overrideState(data, 'chargeState', { chargePortDoorOpen: true });
+      case 'chargePortDoorClose':
+        return this.overrideState(data, 'chargeState', { chargePortDoorOpen: false });
+      case 'scheduledChargingAction':
+        return this.overrideState(data, 'chargeState', {
+          scheduledChargingMode: action.enabled ? SCHEDULED_CHARGING_MODE_START_AT : SCHEDULED_CHARGING_MODE_OFF,
+          scheduledChargingStartTimeMinutes: action.chargingTime ?? 0,
+          scheduledChargingPending: Boolean(action.enabled),
+        });
+      case 'addChargeScheduleAction': {
+        const schedules: any[] = data.chargeScheduleState?.chargeSchedules ?? [];
+        const replaced = schedules.some((schedule) => schedule.id === action.id);
+        if (!replaced && schedules.length >= (data.chargeScheduleState?.maxNumChargeSchedules ?? Infinity)) {
+          return 'max_schedules';
+        }
+        return this.overrideState(data, 'chargeScheduleState', {
+          chargeSchedules: replaced
+            ? schedules.map((schedule) => (schedule.id === action.id ? action : schedule))
+            : [...schedules, action],
+        });
+      }
+      case 'removeChargeScheduleAction': {
+        const schedules: any[] = data.chargeScheduleState?.chargeSchedules ?? [];
+        if (!schedules.some((schedule) => schedule.id === action.id)) {
+          return 'not_found';
+        }
+        return this.overrideState(data, 'chargeScheduleState', {
+          chargeSchedules: schedules.filter((schedule) => schedule.id !== action.id),
+        });
+      }
+      case 'batchRemoveChargeSchedulesAction':
+        // The simulated car has no home or work location, so every schedule is "other".
+        return action.other ? this.overrideState(data, 'chargeScheduleState', { chargeSchedules: [] }) : null;
+      case 'hvacAutoAction':
+        return this.overrideState(data, 'climateState', {
+          isClimateOn: Boolean(action.powerOn),
+          isAutoConditioningOn: Boolean(action.powerOn),
+        });
+      case 'hvacTemperatureAdjustmentAction':
+        return this.overrideState(data, 'climateState', {
+          driverTempSetting: action.driverTempCelsius,
+          passengerTempSetting: action.passengerTempCelsius,
+        });
+      case 'hvacSteeringWheelHeaterAction':
+        return this.overrideState(data, 'climateState', { steeringWheelHeater: Boolean(action.powerOn) });
+      case 'hvacSeatHeaterActions': {
+        const values: Record<string, number> = {};
+        for (const seat of action.hvacSeatHeaterAction ?? []) {
+          const field = Object.keys(seat).map((key) => SEAT_HEATER_FIELDS[key]).find(Boolean);
+          const level = Object.keys(seat).map((key) => SEAT_HEATER_LEVELS[key]).find((value) => value !== undefined);
+          if (!field || level === undefined) {
+            return 'invalid seat';
+          }
+          values[field] = level;
+        }
+        return this.overrideState(data, 'climateState', values);
+      }
+      case 'hvacClimateKeeperAction': {
+        const mode = CLIMATE_KEEPER_MODES[action.ClimateKeeperAction ?? 0];
+        if (!mode) {
+          return 'invalid mode';
+        }
+        return this.overrideState(data, 'climateState', {
+          climateKeeperMode: { [mode]: {} },
+          ...(mode === 'Off' ? {} : { isClimateOn: true }),
+        });
+      }
+      case 'hvacBioweaponModeAction':
+        return this.overrideState(data, 'climateState', {
+          bioweaponModeOn: Boolean(action.on),
+          ...(action.on ? { isClimateOn: true } : {}),
+        });
+      case 'vehicleControlSetSentryModeAction':
+        return this.overrideState(data, 'closuresState', { sentryModeState: action.on ? { Armed: {} } : { Off: {} } });
+      case 'mediaPlayAction': {
+        const playing = data.mediaState?.mediaPlaybackStatus === MEDIA_PLAYBACK_PLAYING;
+        return this.overrideState(data, 'mediaState', {
+          mediaPlaybackStatus: playing ? MEDIA_PLAYBACK_PAUSED : MEDIA_PLAYBACK_PLAYING,
+        });
+      }
+      case 'mediaUpdateVolume': {
+        const current = data.mediaState?.audioVolume ?? 0;
+        const max = data.mediaState?.audioVolumeMax ?? 10;
+        const step = data.mediaState?.audioVolumeIncrement ?? 1;
+        const volume = action.volumeAbsoluteFloat ?? current + (action.volumeDelta ?? 0) * step;
+        return this.overrideState(data, 'mediaState', { audioVolume: Math.min(max, Math.max(0, volume)) });
+      }
+      case 'mediaNextTrack':
+      case 'mediaPreviousTrack':
+      case 'mediaNextFavorite':
+      case 'mediaPreviousFavorite':
+      case 'vehicleControlFlashLightsAction':
+      case 'vehicleControlHonkHornAction':
+      case 'ping':
+        return null;
+      default:
+        return 'unsupported action';
+    }
+  }
+
+  private overrideState(data: VehicleDataSnapshot, stateField: string, values: Record<string, unknown>): string | null {
+    const current = data[stateField] ?? {};
+    const unchanged = Object.entries(values).every(
+      ([key, value]) => JSON.stringify(current[key]) === JSON.stringify(value),
+    );
+    if (unchanged) {
+      return 'already_set';
+    }
+    this.stateOverrides[stateField] = { ...this.stateOverrides[stateField], ...values };
+    return null;
+  }
+
+  private handleUnsignedVcsec(request: SimulatedRequest): void {
+    const plaintext = new Uint8Array(request.message.protobufMessageAsBytes);
+    const addKeyRequest = decodeAddKeyRequest(plaintext);
+    if (addKeyRequest) {
+      this.handleAddKeyRequest(request, addKeyRequest);
+      return;
+    }
+    const response = this.handleVcsecPayload(plaintext, null);
+    if (response) {
+      this.sendVcsecReply(request, response);
+    }
+  }
+
+  /** Key enrollment: answer WAIT, then the owner's verdict on the same request once the card "tap" is resolved. */
+  private handleAddKeyRequest(request: SimulatedRequest, operation: any): void {
+    const addition = operation.addKeyToWhitelistAndAddPermissions;
+    const publicKey = new Uint8Array(addition?.key?.PublicKeyRaw ?? []);
+    const reply = (operationStatus: number, information = 0) =>
+      this.sendVcsecReply(
+        request,
+        encodeVcsecFromMessage({
+          commandStatus: {
+            operationStatus,
+            whitelistOperationStatus: { whitelistOperationInformation: information, operationStatus },
+          },
+        }),
+      );
+    if (this.whitelist.get(publicKey)) {
+      reply(OperationStatus.OPERATIONSTATUS_ERROR, WHITELIST_INFORMATION_KEY_ALREADY_ON_WHITELIST);
+      return;
+    }
+    reply(OperationStatus.OPERATIONSTATUS_WAIT);
+    if (this.enrollmentResponse === 'ignore') {
+      return;
+    }
+    if (this.enrollmentTimer) {
+      clearTimeout(this.enrollmentTimer);
+    }
+    this.enrollmentTimer = setTimeout(() => {
+      this.enrollmentTimer = null;
+      if (this.enrollmentResponse === 'deny') {
+        reply(OperationStatus.OPERATIONSTATUS_ERROR, WHITELIST_INFORMATION_UI_DENIED);
+        return;
+      }
+      this.authorizeKey(
+        publicKey,
+        addition.keyRole ?? KeyRole.ROLE_OWNER,
+        operation.metadataForKey?.keyFormFactor ?? KeyFormFactor.KEY_FORM_FACTOR_UNKNOWN,
+      );
+      reply(OperationStatus.OPERATIONSTATUS_OK);
+    }, this.enrollmentDelayMs);
+  }
+
+  private sendVcsecReply(request: SimulatedRequest, response: Uint8Array): void {
+    const { buffer } = encodeRoutableResponse({
+      domain: request.domain,
+      routingAddress: request.routingAddress,
+      requestUuid: request.uuid,
+      uuid: randomBytes(16),
+      payload: response,
+    });
+    void this.transport.send(buffer);
+  }
+
+  /** `signer` is the whitelist entry of the key that signed the request, null for unsigned requests. */
+  private handleVcsecPayload(plaintext: Uint8Array, signer: SimulatedKey | null): Uint8Array | null {
+    const unsigned = decodeVcsecUnsignedMessage(plaintext);
+    if (unsigned.InformationRequest) {
+      return this.handleInformationRequest(unsigned.InformationRequest);
+    }
+    if (!signer) {
+      return encodeVcsecFromMessage({ nominalError: { genericError: 6 } });
+    }
+    if (unsigned.WhitelistOperation) {
+      const { information, removed } = this.whitelist.applyOperation(unsigned.WhitelistOperation, signer);
+      removed.forEach((publicKey) => this.dropClientSessions(publicKey));
+      const operationStatus = information === 0
+        ? OperationStatus.OPERATIONSTATUS_OK
+        : OperationStatus.OPERATIONSTATUS_ERROR;
+      return encodeVcsecFromMessage({
+        commandStatus: {
+          operationStatus,
+          whitelistOperationStatus: { whitelistOperationInformation: information, operationStatus },
+        },
+      });
+    }
+    if (unsigned.RKEAction !== undefined && unsigned.RKEAction !== null) {
+      this.applyRkeAction(unsigned.RKEAction);
+      return encodeVcsecFromMessage({ commandStatus: { operationStatus: OperationStatus.OPERATIONSTATUS_OK } });
+    }
+    if (unsigned.closureMoveRequest) {
+      const operationStatus = this.applyClosureMoves(unsigned.closureMoveRequest)
+        ? OperationStatus.OPERATIONSTATUS_OK
+        : OperationStatus.OPERATIONSTATUS_ERROR;
+      return encodeVcsecFromMessage({ commandStatus: { operationStatus } });
+    }
+    return encodeVcsecFromMessage({ commandStatus: { operationStatus: OperationStatus.OPERATIONSTATUS_ERROR } });
+  }
+
+  private handleInformationRequest(info: any): Uint8Array {
+    switch (info.informationRequestType ?? INFORMATION_REQUEST_TYPE_GET_STATUS) {
+      case INFORMATION_REQUEST_TYPE_GET_STATUS:
+        return encodeVcsecFromMessage({ vehicleStatus: this.vehicleStatus() });
+      case INFORMATION_REQUEST_TYPE_GET_WHITELIST_INFO: {
+        const entries = this.whitelist.entries();
+        return encodeVcsecFromMessage({
+          whitelistInfo: {
+            numberOfEntries: entries.length,
+            whitelistEntries: entries.map((key) => ({ publicKeySHA1: key.keyId })),
+            slotMask: this.whitelist.slotMask(),
+          },
+        });
+      }
+      case INFORMATION_REQUEST_TYPE_GET_WHITELIST_ENTRY_INFO: {
+        const key = this.whitelist.bySlot(info.slot ?? -1);
+        if (!key) {
+          return encodeVcsecFromMessage({ commandStatus: { operationStatus: OperationStatus.OPERATIONSTATUS_ERROR } });
+        }
+        return encodeVcsecFromMessage({
+          whitelistEntryInfo: {
+            keyId: { publicKeySHA1: key.keyId },
+            publicKey: { PublicKeyRaw: key.publicKey },
+            metadataForKey: { keyFormFactor: key.formFactor },
+            slot: key.slot,
+            keyRole: key.role,
+          },
+        });
+      }
+      default:
+        return encodeVcsecFromMessage({ commandStatus: { operationStatus: OperationStatus.OPERATIONSTATUS_ERROR } });
+    }
+  }
+
+  private applyRkeAction(action: number): void {
+    switch (action) {
+      case RkeAction.RKE_ACTION_LOCK:
+        this.locked = true;
+        break;
+      case RkeAction.RKE_ACTION_UNLOCK:
+        this.locked = false;
+        break;
+      case RkeAction.RKE_ACTION_WAKE_VEHICLE:
+        if (this.asleep && !this.wakeTimer) {
+          this.wakeTimer = setTimeout(() => {
+            this.wakeTimer = null;
+            this.asleep = false;
+          }, this.wakeDelayMs);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  /** Returns false when a requested move is not possible, e.g. closing the frunk. */
+  private applyClosureMoves(request: Record<string, number>): boolean {
+    const data = this.currentVehicleData();
+    for (const [closure, move] of Object.entries(request)) {
+      const target = CLOSURE_FIELDS[closure];
+      if (!target || !move || move === ClosureMoveType.CLOSURE_MOVE_TYPE_STOP) {
+        continue;
+      }
+      const [stateField, field] = target;
+      const open = move === ClosureMoveType.CLOSURE_MOVE_TYPE_OPEN
+        || (move === ClosureMoveType.CLOSURE_MOVE_TYPE_MOVE && !isClosureOpen(data[stateField]?.[field]));
+      if (closure === 'frontTrunk' && !open) {
+        return false;
+      }
+      const value = closure === 'tonneau' ? (open ? 100 : 0) : open;
+      this.stateOverrides[stateField] = { ...this.stateOverrides[stateField], [field]: value };
+    }
+    return true;
+  }
+
+  private vehicleStatus(): Record<string, unknown> {
+    const data = this.currentVehicleData();
+    const closureStatuses: Record<string, number> = {};
+    for (const [closure, [stateField, field]] of Object.entries(CLOSURE_FIELDS)) {
+      closureStatuses[closure] = isClosureOpen(data[stateField]?.[field]) ? CLOSURE_STATE_OPEN : CLOSURE_STATE_CLOSED;
+    }
+    return {
+      vehicleLockState: this.locked ? VEHICLE_LOCK_STATE_LOCKED : VEHICLE_LOCK_STATE_UNLOCKED,
+      vehicleSleepStatus: this.asleep ? VEHICLE_SLEEP_STATUS_ASLEEP : VEHICLE_SLEEP_STATUS_AWAKE,
+      userPresence: data.closuresState?.isUserPresent && !this.asleep
+        ? VEHICLE_USER_PRESENCE_PRESENT
+        : VEHICLE_USER_PRESENCE_NOT_PRESENT,
+      closureStatuses,
+      detailedClosureStatus: { tonneauPercentOpen: data.closuresState?.tonneauPercentOpen ?? 0 },
+    };
+  }
+
+  private async sendEncryptedResponse(
+    request: SimulatedRequest,
+    session: ClientSession,
+    counter: number,
+    requestId: Uint8Array,
+    response: Uint8Array,
+  ): Promise<void> {
+    if (!(request.flags & FLAG_ENCRYPT_RESPONSE)) {
+      const { buffer } = encodeRoutableResponse({
+        domain: request.domain,
+        routingAddress: request.routingAddress,
+        requestUuid: request.uuid,
+        uuid: randomBytes(16),
+        flags: request.flags,
+        payload: response,
+      });
+      await this.transport.send(buffer);
+      return;
+    }
+    const metadata = serializeMetadata([
+      { tag: TAG_SIGNATURE_TYPE, value: new Uint8Array([SIGNATURE_TYPE_AES_GCM_RESPONSE]) },
+      { tag: TAG_DOMAIN, value: new Uint8Array([request.domain]) },
+      { tag: TAG_PERSONALIZATION, value: this.textEncoder.encode(this.vin) },
+      { tag: TAG_COUNTER, value: uint32ToBytes(counter) },
+      { tag: TAG_FLAGS, value: uint32ToBytes(request.flags) },
+      { tag: TAG_REQUEST_HASH, value: requestId },
+      { tag: TAG_FAULT, value: uint32ToBytes(MessageFault.MESSAGEFAULT_ERROR_NONE) },
+    ]);
+    const aad = await sha256(metadata);
+    const nonce = randomBytes(AES_GCM_NONCE_SIZE);
+    const encrypted = await encryptAesGcm(session.keys.aesKeyBytes, nonce, response, aad);
+    const signature: ResponseSignatureData = {
+      nonce,
+      counter,
+      tag: encrypted.slice(encrypted.length - GCM_TAG_SIZE),
+    };
+    const { buffer } = encodeRoutableResponse({
+      domain: request.domain,
+      routingAddress: request.routingAddress,
+      requestUuid: request.uuid,
+      uuid: randomBytes(16),
+      flags: request.flags,
+      payload: encrypted.slice(0, encrypted.length - GCM_TAG_SIZE),
+      responseSignature: signature,
+    });
+    await this.transport.send(buffer);
+  }
+
+  private sendFault(request: SimulatedRequest, fault: MessageFault): void {
+    const { buffer } = encodeRoutableResponse({
+      domain: request.domain,
+      routingAddress: request.routingAddress,
+      requestUuid: request.uuid,
+      uuid: randomBytes(16),
+      fault,
+    });
+    void this.transport.send(buffer).catch((error) => {
+      console.warn('[Simulator] Failed to send fault', error);
+    });
+  }
+
+  private domainState(domain: UniversalDomain): DomainState {
+    let state = this.domains.get(domain);
+    if (!state) {
+      state = { epoch: randomBytes(16), startedAtMs: this.now(), clients: new Map() };
+      this.domains.set(domain, state);
+    }
+    return state;
+  }
+
+  private async clientSession(state: DomainState, clientKey: Uint8Array): Promise<ClientSession> {
+    const id = toHex(clientKey);
+    let session = state.clients.get(id);
+    if (!session) {
+      const keys = await deriveSessionKeys({ privateKey: this.privateKey!, peerPublicKey: clientKey });
+      session = { keys, counter: 0 };
+      state.clients.set(id, session);
+    }
+    return session;
+  }
+
+  private clockSeconds(state: DomainState): number {
+    return Math.floor((this.now() - state.startedAtMs) / 1000);
+  }
+
+  private dropClientSessions(publicKey: Uint8Array): void {
+    const id = toHex(publicKey);
+    this.domains.forEach((state) => state.clients.delete(id));
+  }
+}
+
+/**
+ * Add-key requests arrive as a `ToVCSECMessage` with a present-key signature
+ * instead of a bare `UnsignedMessage`. Returns the `WhitelistOperation` if so.
+ */
+function decodeAddKeyRequest(plaintext: Uint8Array): any | null {
+  let signed: any;
+  try {
+    signed = decodeVcsecToMessage(plaintext).signedMessage;
+  } catch {
+    return null;
+  }
+  if (signed?.signatureType !== VCSEC_SIGNATURE_TYPE_PRESENT_KEY || !signed.protobufMessageAsBytes) {
+    return null;
+  }
+  return decodeVcsecUnsignedMessage(new Uint8Array(signed.protobufMessageAsBytes)).WhitelistOperation ?? null;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function isClosureOpen(value: unknown): boolean {
+  return value === true || (typeof value === 'number' && value > 0);
+}
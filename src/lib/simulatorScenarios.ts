@@ -0,0 +1,349 @@
+/**
+ * Scripted vehicle behaviour for the simulator. Vehicle data is expressed in
+ * the protobufjs object shape of `CarServer.VehicleData`, so a snapshot can be
+ * encoded straight into a `CarServer.Response`.
+ */
+export type VehicleDataSnapshot = Record<string, any>;
+
+export interface SimulatorScenario {
+  id: string;
+  label: string;
+  /** Initial sleep state. The simulator wakes on an RKE wake request. */
+  asleep: boolean;
+  locked: boolean;
+  vehicleData(elapsedMs: number): VehicleDataSnapshot;
+}
+
+export interface ScenarioStep {
+  durationMs: number;
+  vehicleData(stepElapsedMs: number, stepStartMs: number): VehicleDataSnapshot;
+}
+
+export interface ScriptedScenarioOptions {
+  id: string;
+  label: string;
+  asleep?: boolean;
+  locked?: boolean;
+  /** Restart from the first step once the script ends; otherwise the last step holds. */
+  loop?: boolean;
+}
+
+export function scriptedScenario(options: ScriptedScenarioOptions, steps: ScenarioStep[]): SimulatorScenario {
+  if (!steps.length) {
+    throw new Error('Scenario needs at least one step');
+  }
+  const totalMs = steps.reduce((sum, step) => sum + step.durationMs, 0);
+  return {
+    id: options.id,
+    label: options.label,
+    asleep: options.asleep ?? false,
+    locked: options.locked ?? true,
+    vehicleData(elapsedMs: number) {
+      let offset = Math.max(0, elapsedMs);
+      if (options.loop !== false && totalMs > 0) {
+        offset %= totalMs;
+      }
+      let stepStart = 0;
+      for (const step of steps) {
+        if (offset < stepStart + step.durationMs) {
+          return step.vehicleData(offset - stepStart, stepStart);
+        }
+        stepStart += step.durationMs;
+      }
+      const last = steps[steps.length - 1];
+      return last.vehicleData(last.durationMs, totalMs - last.durationMs);
+    },
+  };
+}
+
+interface SpeedSegment {
+  durationMs: number;
+  fromMph: number;
+  toMph: number;
+  shift?: ShiftLetter;
+}
+
+type ShiftLetter = 'P' | 'R' | 'N' | 'D';
+
+const MS_PER_HOUR = 3_600_000;
+const BASE_ODOMETER_MILES = 12_345.67;
+
+/**
+ * Builds a looping drive from linear speed segments. Odometer and power are
+ * derived from the profile so consumers see internally consistent data.
+ */
+export function speedProfileScenario(
+  options: ScriptedScenarioOptions & { startBatteryLevel?: number },
+  segments: SpeedSegment[],
+): SimulatorScenario {
+  const loopMiles = segments.reduce((sum, segment) => sum + segmentMiles(segment, segment.durationMs), 0);
+  const loopMs = segments.reduce((sum, segment) => sum + segment.durationMs, 0);
+  const startBattery = options.startBatteryLevel ?? 80;
+  return {
+    id: options.id,
+    label: options.label,
+    asleep: options.asleep ?? false,
+    locked: options.locked ?? true,
+    vehicleData(elapsedMs: number) {
+      const loops = loopMs > 0 ? Math.floor(elapsedMs / loopMs) : 0;
+      let offset = loopMs > 0 ? elapsedMs - loops * loopMs : 0;
+      let miles = loops * loopMiles;
+      let speed = 0;
+      let accelMphPerSec = 0;
+      let shift: ShiftLetter = 'D';
+      for (const segment of segments) {
+        if (offset < segment.durationMs) {
+          const fraction = segment.durationMs ? offset / segment.durationMs : 1;
+          speed = segment.fromMph + (segment.toMph - segment.fromMph) * fraction;
+          accelMphPerSec = segment.durationMs ? ((segment.toMph - segment.fromMph) * 1000) / segment.durationMs : 0;
+          miles += segmentMiles(segment, offset);
+          shift = segment.shift ?? 'D';
+          break;
+        }
+        miles += segmentMiles(segment, segment.durationMs);
+        offset -= segment.durationMs;
+      }
+      const powerKw = Math.round(estimatePowerKw(speed, accelMphPerSec));
+      const batteryLevel = Math.max(5, startBattery - miles * 0.35);
+      return baseVehicleData({
+        shift,
+        speedMph: speed,
+        powerKw,
+        odometerMiles: BASE_ODOMETER_MILES + miles,
+        batteryLevel,
+        headingDeg: Math.round((elapsedMs / 1000) * 3) % 360,
+        locked: options.locked ?? true,
+      });
+    },
+  };
+}
+
+export const DRIVING_SCENARIO = speedProfileScenario(
+  { id: 'driving', label: 'Driving at speed', locked: true },
+  [
+    { durationMs: 4_000, fromMph: 0, toMph: 0, shift: 'P' },
+    { durationMs: 2_000, fromMph: 0, toMph: 0, shift: 'D' },
+    { durationMs: 9_000, fromMph: 0, toMph: 65 },
+    { durationMs: 30_000, fromMph: 65, toMph: 68 },
+    { durationMs: 6_000, fromMph: 68, toMph: 40 },
+    { durationMs: 15_000, fromMph: 40, toMph: 40 },
+    { durationMs: 7_000, fromMph: 40, toMph: 0 },
+    { durationMs: 5_000, fromMph: 0, toMph: 0 },
+    { durationMs: 3_000, fromMph: 0, toMph: 4, shift: 'R' },
+    { durationMs: 3_000, fromMph: 4, toMph: 0, shift: 'R' },
+  ],
+);
+
+const PUNCTURE_DRIVE = speedProfileScenario(
+  { id: 'puncture', label: 'Slow puncture while driving', locked: true },
+  [
+    { durationMs: 4_000, fromMph: 0, toMph: 0, shift: 'P' },
+    { durationMs: 2_000, fromMph: 0, toMph: 0, shift: 'D' },
+    { durationMs: 9_000, fromMph: 0, toMph: 55 },
+    { durationMs: 165_000, fromMph: 55, toMph: 55 },
+  ],
+);
+
+/** The rear right tire loses pressure from the start of the drive: a soft warning, then a hard one. */
+export const PUNCTURE_SCENARIO: SimulatorScenario = {
+  ...PUNCTURE_DRIVE,
+  vehicleData(elapsedMs: number) {
+    const data = PUNCTURE_DRIVE.vehicleData(elapsedMs);
+    const pressure = Math.max(1.4, 2.9 - Math.max(0, elapsedMs % 180_000 - 6_000) / 80_000);
+    data.tirePressureState = {
+      ...data.tirePressureState,
+      tpmsPressureRr: Number(pressure.toFixed(2)),
+      tpmsSoftWarningRr: pressure < 2.5,
+      tpmsHardWarningRr: pressure < 2.0,
+      tpmsRcpFrontValue: 2.9,
+      tpmsRcpRearValue: 2.9,
+    };
+    return data;
+  },
+};
+
+export const CHARGING_SCENARIO = scriptedScenario(
+  { id: 'charging', label: 'Supercharging', locked: true },
+  [
+    {
+      durationMs: 30 * 60_000,
+      vehicleData(stepElapsedMs) {
+        const batteryLevel = Math.min(90, 22 + stepElapsedMs / 25_000);
+        const chargerPowerKw = Math.round(batteryLevel < 50 ? 190 : Math.max(40, 190 - (batteryLevel - 50) * 3.5));
+        const charging = batteryLevel < 90;
+        const data = baseVehicleData({
+          shift: 'P',
+          speedMph: 0,
+          powerKw: -chargerPowerKw,
+          odometerMiles: BASE_ODOMETER_MILES,
+          batteryLevel,
+          headingDeg: 90,
+          locked: true,
+        });
+        data.chargeState = {
+          ...data.chargeState,
+          chargingState: charging ? { Charging: {} } : { Complete: {} },
+          fastChargerPresent: true,
+          fastChargerType: { Supercharger: {} },
+          chargePortDoorOpen: true,
+          chargeLimitSoc: 90,
+          chargerPower: charging ? chargerPowerKw : 0,
+          chargerVoltage: charging ? 390 : 0,
+          chargerActualCurrent: charging ? Math.round((chargerPowerKw * 1000) / 390) : 0,
+          chargeEnergyAdded: Number(((batteryLevel - 22) * 0.75).toFixed(2)),
+          chargeRateMphFloat: charging ? chargerPowerKw * 3.2 : 0,
+          minutesToFullCharge: charging ? Math.round((90 - batteryLevel) * 0.6 + 2) : 0,
+          minutesToChargeLimit: charging ? Math.round((90 - batteryLevel) * 0.6 + 2) : 0,
+        };
+        return data;
+      },
+    },
+  ],
+);
+
+export const PARKED_ASLEEP_SCENARIO = scriptedScenario(
+  { id: 'parked-asleep', label: 'Parked and asleep', asleep: true, locked: true, loop: false },
+  [
+    {
+      durationMs: 60_000,
+      vehicleData() {
+        return baseVehicleData({
+          shift: 'P',
+          speedMph: 0,
+          powerKw: 0,
+          odometerMiles: BASE_ODOMETER_MILES,
+          batteryLevel: 64,
+          headingDeg: 180,
+          locked: true,
+        });
+      },
+    },
+  ],
+);
+
+export const SIMULATOR_SCENARIOS: SimulatorScenario[] = [
+  DRIVING_SCENARIO,
+  PUNCTURE_SCENARIO,
+  CHARGING_SCENARIO,
+  PARKED_ASLEEP_SCENARIO,
+];
+
+export function findScenario(id: string): SimulatorScenario | null {
+  return SIMULATOR_SCENARIOS.find((scenario) => scenario.id === id) ?? null;
+}
+
+function segmentMiles(segment: SpeedSegment, elapsedMs: number): number {
+  const clamped = Math.min(Math.max(0, elapsedMs), segment.durationMs);
+  if (!segment.durationMs) {
+    return 0;
+  }
+  const speedAtEnd = segment.fromMph + ((segment.toMph - segment.fromMph) * clamped) / segment.durationMs;
+  return (((segment.fromMph + speedAtEnd) / 2) * clamped) / MS_PER_HOUR;
+}
+
+function estimatePowerKw(speedMph: number, accelMphPerSec: number): number {
+  // Rolling + aero load plus an acceleration term; braking regenerates.
+  const cruise = speedMph > 0 ? 2 + 0.004 * speedMph * speedMph : 0;
+  const inertia = accelMphPerSec * speedMph * 0.9;
+  return cruise + inertia;
+}
+
+function baseVehicleData(params: {
+  shift: ShiftLetter;
+  speedMph: number;
+  powerKw: number;
+  odometerMiles: number;
+  batteryLevel: number;
+  headingDeg: number;
+  locked: boolean;
+}): VehicleDataSnapshot {
+  const batteryLevel = Math.round(params.batteryLevel);
+  const batteryRange = params.batteryLevel * 3.1;
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  return {
+    driveState: {
+      shiftState: { [params.shift]: {} },
+      speed: Math.round(params.speedMph),
+      speedFloat: Number(params.speedMph.toFixed(1)),
+      power: params.powerKw,
+      odometerInHundredthsOfAMile: Math.round(params.odometerMiles * 100),
+      timestamp: { seconds: nowSeconds },
+    },
+    chargeState: {
+      chargingState: { Disconnected: {} },
+      batteryLevel,
+      usableBatteryLevel: Math.max(0, batteryLevel - 1),
+      batteryRange,
+      estBatteryRange: batteryRange * 0.92,
+      idealBatteryRange: batteryRange * 1.05,
+      chargeLimitSoc: 80,
+      chargeLimitSocMin: 50,
+      chargeLimitSocMax: 100,
+      chargePortDoorOpen: false,
+      chargingAmps: 32,
+      chargeCurrentRequestMax: 48,
+    },
+    chargeScheduleState: {
+      chargeSchedules: [],
+      maxNumChargeSchedules: 10,
+    },
+    climateState: {
+      insideTempCelsius: 21.5,
+      outsideTempCelsius: 14,
+      driverTempSetting: 21,
+      passengerTempSetting: 21,
+      isClimateOn: params.shift !== 'P',
+      isAutoConditioningOn: params.shift !== 'P',
+      fanStatus: params.shift !== 'P' ? 3 : 0,
+      minAvailTempCelsius: 15,
+      maxAvailTempCelsius: 28,
+      seatHeaterLeft: 0,
+      seatHeaterRight: 0,
+      climateKeeperMode: { Off: {} },
+      defrostMode: { Off: {} },
+    },
+    locationState: {
+      latitude: 37.3947 + params.odometerMiles * 0.0001 - BASE_ODOMETER_MILES * 0.0001,
+      longitude: -122.1503,
+      heading: params.headingDeg,
+    },
+    closuresState: {
+      doorOpenDriverFront: false,
+      doorOpenDriverRear: false,
+      doorOpenPassengerFront: false,
+      doorOpenPassengerRear: false,
+      doorOpenTrunkFront: false,
+      doorOpenTrunkRear: false,
+      windowOpenDriverFront: false,
+      windowOpenPassengerFront: false,
+      windowOpenDriverRear: false,
+      windowOpenPassengerRear: false,
+      locked: params.locked,
+      isUserPresent: params.shift !== 'P',
+      sentryModeState: { Off: {} },
+    },
+    tirePressureState: {
+      tpmsPressureFl: 2.9,
+      tpmsPressureFr: 2.9,
+      tpmsPressureRl: 2.875,
+      tpmsPressureRr: 2.9,
+      tpmsLastSeenPressureTimeFl: { seconds: nowSeconds },
+      tpmsLastSeenPressureTimeFr: { seconds: nowSeconds },
+      tpmsLastSeenPressureTimeRl: { seconds: nowSeconds },
+      tpmsLastSeenPressureTimeRr: { seconds: nowSeconds },
+    },
+    mediaState: {
+      remoteControlEnabled: true,
+      nowPlayingArtist: 'Simulated Artist',
+      nowPlayingTitle: 'Loopback Blues',
+      audioVolume: 4.5,
+      audioVolumeIncrement: 0.333,
+      audioVolumeMax: 10.333,
+      mediaPlaybackStatus: params.shift !== 'P' ? 1 : 2,
+    },
+    mediaDetailState: {
+      nowPlayingDuration: 215_000,
+      nowPlayingElapsed: Date.now() % 215_000,
+    },
+  };
+}
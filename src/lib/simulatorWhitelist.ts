@@ -0,0 +1,187 @@
+import { publicKeyId, randomBytes } from './crypto';
+import { KeyFormFactor, KeyRole } from './protocol';
+
+const MAX_SLOTS = 32;
+
+// VCSEC.WhitelistOperation_information_E
+const INFORMATION_NONE = 0;
+const INFORMATION_NO_PERMISSION_TO_REMOVE_ONESELF = 2;
+const INFORMATION_WHITELIST_FULL = 4;
+const INFORMATION_NO_PERMISSION_TO_ADD = 5;
+const INFORMATION_NO_PERMISSION_TO_REMOVE = 7;
+const INFORMATION_PUBLIC_KEY_NOT_ON_WHITELIST = 12;
+const INFORMATION_KEY_ALREADY_ON_WHITELIST = 13;
+
+export interface SimulatedKey {
+  publicKey: Uint8Array;
+  keyId: Uint8Array;
+  role: KeyRole;
+  formFactor: KeyFormFactor;
+  slot: number;
+  impermanent: boolean;
+}
+
+export interface WhitelistOperationOutcome {
+  /** `WhitelistOperation_information_E`; 0 on success. */
+  information: number;
+  /** Keys that lost access and must have their sessions dropped. */
+  removed: Uint8Array[];
+}
+
+/**
+ * The simulator's key whitelist. In auto-enroll mode any unknown key is added
+ * as an owner phone on first contact, as if it had been paired earlier; keys
+ * removed later stay revoked.
+ */
+export class SimulatedWhitelist {
+  private readonly keys = new Map<string, SimulatedKey>();
+  private readonly revoked = new Set<string>();
+  private readonly autoEnroll: boolean;
+
+  constructor(options: { autoEnroll: boolean; keyCards?: number }) {
+    this.autoEnroll = options.autoEnroll;
+    for (let i = 0; i < (options.keyCards ?? 2); i += 1) {
+      const cardKey = new Uint8Array(65);
+      cardKey[0] = 0x04;
+      cardKey.set(randomBytes(64), 1);
+      this.add(cardKey, KeyRole.ROLE_OWNER, KeyFormFactor.KEY_FORM_FACTOR_NFC_CARD);
+    }
+  }
+
+  get(publicKey: Uint8Array): SimulatedKey | null {
+    return this.keys.get(toHex(publicKey)) ?? null;
+  }
+
+  bySlot(slot: number): SimulatedKey | null {
+    for (const key of this.keys.values()) {
+      if (key.slot === slot) {
+        return key;
+      }
+    }
+    return null;
+  }
+
+  entries(): SimulatedKey[] {
+    return Array.from(this.keys.values()).sort((a, b) => a.slot - b.slot);
+  }
+
+  slotMask(): number {
+    return this.entries().reduce((mask, key) => (mask | (1 << key.slot)) >>> 0, 0);
+  }
+
+  /** Returns the key's entry, enrolling it first in auto-enroll mode. */
+  admit(publicKey: Uint8Array): SimulatedKey | null {
+    const existing = this.get(publicKey);
+    if (existing || !this.autoEnroll || this.revoked.has(toHex(publicKey))) {
+      return existing;
+    }
+    return this.add(publicKey, KeyRole.ROLE_OWNER, KeyFormFactor.KEY_FORM_FACTOR_ANDROID_DEVICE);
+  }
+
+  add(
+    publicKey: Uint8Array,
+    role: KeyRole,
+    formFactor: KeyFormFactor,
+    options: { impermanent?: boolean; slot?: number } = {},
+  ): SimulatedKey | null {
+    const hex = toHex(publicKey);
+    const slot = options.slot ?? this.freeSlot();
+    if (slot === null) {
+      return null;
+    }
+    const key: SimulatedKey = {
+      publicKey,
+      keyId: publicKeyId(publicKey),
+      role,
+      formFactor,
+      slot,
+      impermanent: options.impermanent ?? false,
+    };
+    this.keys.set(hex, key);
+    this.revoked.delete(hex);
+    return key;
+  }
+
+  remove(publicKey: Uint8Array): SimulatedKey | null {
+    const hex = toHex(publicKey);
+    const key = this.keys.get(hex) ?? null;
+    if (key) {
+      this.keys.delete(hex);
+      this.revoked.add(hex);
+    }
+    return key;
+  }
+
+  /** Applies a decoded `VCSEC.WhitelistOperation` signed by `signer`. */
+  applyOperation(operation: any, signer: SimulatedKey): WhitelistOperationOutcome {
+    const denied = (information: number): WhitelistOperationOutcome => ({ information, removed: [] });
+    if (signer.role !== KeyRole.ROLE_OWNER) {
+      return denied(operation.removePublicKeyFromWhitelist ? INFORMATION_NO_PERMISSION_TO_REMOVE : INFORMATION_NO_PERMISSION_TO_ADD);
+    }
+    const formFactor = (operation.metadataForKey?.keyFormFactor ?? KeyFormFactor.KEY_FORM_FACTOR_UNKNOWN) as KeyFormFactor;
+
+    if (operation.removePublicKeyFromWhitelist) {
+      const publicKey = new Uint8Array(operation.removePublicKeyFromWhitelist.PublicKeyRaw ?? []);
+      if (toHex(publicKey) === toHex(signer.publicKey)) {
+        return denied(INFORMATION_NO_PERMISSION_TO_REMOVE_ONESELF);
+      }
+      if (!this.remove(publicKey)) {
+        return denied(INFORMATION_PUBLIC_KEY_NOT_ON_WHITELIST);
+      }
+      return { information: INFORMATION_NONE, removed: [publicKey] };
+    }
+
+    if (operation.replaceKey) {
+      const request = operation.replaceKey;
+      const target = request.publicKeyToReplace
+        ? this.get(new Uint8Array(request.publicKeyToReplace.PublicKeyRaw ?? []))
+        : this.bySlot(request.slotToReplace ?? -1);
+      if (!target) {
+        return denied(INFORMATION_PUBLIC_KEY_NOT_ON_WHITELIST);
+      }
+      if (toHex(target.publicKey) === toHex(signer.publicKey)) {
+        return denied(INFORMATION_NO_PERMISSION_TO_REMOVE_ONESELF);
+      }
+      this.remove(target.publicKey);
+      this.add(new Uint8Array(request.keyToAdd?.PublicKeyRaw ?? []), request.keyRole ?? KeyRole.ROLE_NONE, target.formFactor, {
+        impermanent: Boolean(request.impermanent),
+        slot: target.slot,
+      });
+      return { information: INFORMATION_NONE, removed: [target.publicKey] };
+    }
+
+    const addition = operation.addImpermanentKey ?? operation.addKeyToWhitelistAndAddPermissions;
+    if (addition) {
+      const publicKey = new Uint8Array(addition.key?.PublicKeyRaw ?? []);
+      if (this.get(publicKey)) {
+        return denied(INFORMATION_KEY_ALREADY_ON_WHITELIST);
+      }
+      const added = this.add(publicKey, addition.keyRole ?? KeyRole.ROLE_NONE, formFactor, {
+        impermanent: Boolean(operation.addImpermanentKey),
+      });
+      return denied(added ? INFORMATION_NONE : INFORMATION_WHITELIST_FULL);
+    }
+
+    if (operation.removeAllImpermanentKeys) {
+      const removed = this.entries().filter((key) => key.impermanent);
+      removed.forEach((key) => this.remove(key.publicKey));
+      return { information: INFORMATION_NONE, removed: removed.map((key) => key.publicKey) };
+    }
+
+    return denied(INFORMATION_NO_PERMISSION_TO_ADD);
+  }
+
+  private freeSlot(): number | null {
+    const used = this.slotMask();
+    for (let slot = 0; slot < MAX_SLOTS; slot += 1) {
+      if (!((used >>> slot) & 1)) {
+        return slot;
+      }
+    }
+    return null;
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,291 @@
+import type { TeslaPrivateKey } from './crypto';
+import {
+  AdaptivePollingPolicy,
+  adaptiveInterval,
+  DEFAULT_ADAPTIVE_POLLING_POLICY,
+  motionFromDriveState,
+  PollingConditions,
+} from './pollingPolicy';
+import { StateCategory } from './protocol';
+import { RequestTimeoutError, TeslaBleSession, VehicleStateResult } from './session';
+import { SimpleEventEmitter } from './transport';
+import type { VehicleSecurityStatus } from './vcsec';
+
+const TELEMETRY_EVENT = 'telemetry';
+const DEFAULT_INTERVALS: TelemetryIntervals = { [StateCategory.Drive]: 1000 };
+// While the car is awake, VCSEC status is re-checked this often or after a failed fetch.
+const DEFAULT_STATUS_MAX_AGE_MS = 30_000;
+// Weight of the newest sample in the smoothed request latency.
+const LATENCY_SMOOTHING = 0.3;
+
+/** Polling interval in milliseconds per category; categories without an entry are not polled. */
+export type TelemetryIntervals = Partial<Record<StateCategory, number>>;
+
+/** `poll` for the background loop, `manual` for an explicit `refresh()`. */
+export type TelemetryTrigger = 'poll' | 'manual';
+
+export type TelemetryEvent =
+  | { type: 'state'; trigger: TelemetryTrigger; results: VehicleStateResult[]; latencyMs: number }
+  | { type: 'status'; trigger: TelemetryTrigger; status: VehicleSecurityStatus }
+  | { type: 'waking' }
+  | { type: 'error'; context: string; error: unknown };
+
+export interface TelemetryServiceOptions {
+  /** Called before every fetch, so a changed VIN or simulator takes effect on the next poll. */
+  getSession(): Promise<TeslaBleSession>;
+  getPrivateKey(): Promise<TeslaPrivateKey>;
+  intervals?: TelemetryIntervals;
+  adaptivePolicy?: Partial<AdaptivePollingPolicy>;
+  statusMaxAgeMs?: number;
+}
+
+/**
+ * Polls vehicle state in the background. Categories that are due together are
+ * fetched in one request; a sleeping car is left asleep until `refresh()` is
+ * called. Results, status changes and polling errors go to subscribers.
+ *
+ * The configured intervals are the fastest rates. The adaptive policy
+ * stretches them while the car is parked, after request timeouts, and while
+ * the link is saturated.
+ */
+export class TelemetryService {
+  private readonly options: TelemetryServiceOptions;
+  private readonly events = new SimpleEventEmitter();
+  private readonly statusMaxAgeMs: number;
+  private readonly lastFetchedAt = new Map<StateCategory, number>();
+  private intervals: TelemetryIntervals;
+  private adaptivePolicy: AdaptivePollingPolicy;
+  private conditions: PollingConditions = { motion: 'unknown', consecutiveTimeouts: 0, latencyMs: null };
+  private backoffJitter = Math.random();
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<void> | null = null;
+  private session: TeslaBleSession | null = null;
+  private lastStatus: VehicleSecurityStatus | null = null;
+  private lastFetchFailed = false;
+
+  constructor(options: TelemetryServiceOptions) {
+    this.options = options;
+    this.intervals = { ...(options.intervals ?? DEFAULT_INTERVALS) };
+    this.adaptivePolicy = { ...DEFAULT_ADAPTIVE_POLLING_POLICY, ...options.adaptivePolicy };
+    this.statusMaxAgeMs = options.statusMaxAgeMs ?? DEFAULT_STATUS_MAX_AGE_MS;
+  }
+
+  get active(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.lastFetchedAt.clear();
+    void this.poll();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+  }
+
+  /** Returns a function that removes the listener. */
+  subscribe(listener: (event: TelemetryEvent) => void): () => void {
+    this.events.on(TELEMETRY_EVENT, listener);
+    return () => this.events.off(TELEMETRY_EVENT, listener);
+  }
+
+  getIntervals(): TelemetryIntervals {
+    return { ...this.intervals };
+  }
+
+  setIntervals(intervals: TelemetryIntervals): void {
+    this.intervals = { ...intervals };
+    this.reschedule();
+  }
+
+  setAdaptivePolicy(policy: Partial<AdaptivePollingPolicy>): void {
+    this.adaptivePolicy = { ...this.adaptivePolicy, ...policy };
+    this.reschedule();
+  }
+
+  /** What the adaptive policy currently sees: motion, timeouts in a row and smoothed latency. */
+  getPollingConditions(): PollingConditions {
+    return { ...this.conditions };
+  }
+
+  /** The interval `category` is polled at right now, after adaptive adjustments; null if not polled. */
+  effectiveInterval(category: StateCategory): number | null {
+    const base = this.intervals[category];
+    if (base == null) {
+      return null;
+    }
+    return adaptiveInterval(base, this.conditions, this.adaptivePolicy, () => this.backoffJitter);
+  }
+
+  /** Polls every category now, e.g. when the app returns to the foreground. No-op while stopped. */
+  async refreshNow(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    this.lastFetchedAt.clear();
+    await this.poll();
+  }
+
+  /** Fetches `categories` once, waking the car if it is asleep. Errors are thrown, not emitted. */
+  async refresh(categories: StateCategory[]): Promise<VehicleStateResult[]> {
+    const session = await this.currentSession();
+    await this.ensureAwake(session, 'manual');
+    return this.fetchStates(session, categories, 'manual');
+  }
+
+  private async poll(): Promise<void> {
+    this.clearTimer();
+    if (!this.inFlight) {
+      this.inFlight = this.pollDueCategories().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    await this.inFlight;
+    this.scheduleNext();
+  }
+
+  private async pollDueCategories(): Promise<void> {
+    const now = Date.now();
+    const due = this.categories().filter((category) => now >= this.nextDueAt(category));
+    if (!due.length) {
+      return;
+    }
+    try {
+      const session = await this.currentSession();
+      if (await this.ensureAwake(session, 'poll')) {
+        await this.fetchStates(session, due, 'poll');
+      }
+    } catch (error) {
+      this.emit({ type: 'error', context: 'Auto refresh failed', error });
+    } finally {
+      const finishedAt = Date.now();
+      due.forEach((category) => this.lastFetchedAt.set(category, finishedAt));
+    }
+  }
+
+  private scheduleNext(): void {
+    this.clearTimer();
+    const categories = this.categories();
+    if (!this.running || !categories.length) {
+      return;
+    }
+    const nextDueAt = Math.min(...categories.map((category) => this.nextDueAt(category)));
+    this.timer = setTimeout(() => void this.poll(), Math.max(0, nextDueAt - Date.now()));
+  }
+
+  /** Returns false when the car is asleep and `trigger` may not wake it. */
+  private async ensureAwake(session: TeslaBleSession, trigger: TelemetryTrigger): Promise<boolean> {
+    const previous = this.lastStatus;
+    const statusStale = !previous
+      || previous.sleepStatus !== 'awake'
+      || Date.now() - previous.receivedAt > this.statusMaxAgeMs
+      || this.lastFetchFailed;
+    if (trigger === 'poll' && !statusStale) {
+      return true;
+    }
+    const status = await session.getVehicleStatus().catch((error) => {
+      // Not fatal: fall through to the infotainment request, which reports its own failure.
+      this.emit({ type: 'error', context: 'Vehicle status request failed', error });
+      return null;
+    });
+    if (status) {
+      this.updateStatus(status, trigger);
+    }
+    if (status?.sleepStatus !== 'asleep') {
+      return true;
+    }
+    // A sleeping car is parked, whatever the last Drive state said.
+    this.conditions.motion = 'parked';
+    // Polling never wakes the car; an explicit refresh does.
+    if (trigger === 'poll') {
+      return false;
+    }
+    this.emit({ type: 'waking' });
+    this.updateStatus(await session.wake(await this.options.getPrivateKey()), trigger);
+    return true;
+  }
+
+  private async fetchStates(
+    session: TeslaBleSession,
+    categories: StateCategory[],
+    trigger: TelemetryTrigger,
+  ): Promise<VehicleStateResult[]> {
+    const key = await this.options.getPrivateKey();
+    const startedAt = performance.now();
+    try {
+      const results = await session.getStates(categories, key);
+      const latencyMs = Math.round(performance.now() - startedAt);
+      this.lastFetchFailed = false;
+      this.updateConditions(results, latencyMs);
+      this.emit({ type: 'state', trigger, results, latencyMs });
+      return results;
+    } catch (error) {
+      this.lastFetchFailed = true;
+      if (error instanceof RequestTimeoutError) {
+        this.conditions.consecutiveTimeouts += 1;
+        this.backoffJitter = Math.random();
+      }
+      throw error;
+    }
+  }
+
+  private updateConditions(results: VehicleStateResult[], latencyMs: number): void {
+    const drive = results.find((result) => result.category === StateCategory.Drive);
+    const previousLatency = this.conditions.latencyMs;
+    this.conditions = {
+      motion: drive ? motionFromDriveState(drive.vehicleData.driveState) : this.conditions.motion,
+      consecutiveTimeouts: 0,
+      latencyMs: previousLatency === null
+        ? latencyMs
+        : Math.round(previousLatency + (latencyMs - previousLatency) * LATENCY_SMOOTHING),
+    };
+  }
+
+  private async currentSession(): Promise<TeslaBleSession> {
+    const session = await this.options.getSession();
+    if (session !== this.session) {
+      // Status from another vehicle or simulator says nothing about this one.
+      this.session = session;
+      this.lastStatus = null;
+      this.conditions = { motion: 'unknown', consecutiveTimeouts: 0, latencyMs: null };
+    }
+    return session;
+  }
+
+  private updateStatus(status: VehicleSecurityStatus, trigger: TelemetryTrigger): void {
+    this.lastStatus = status;
+    this.emit({ type: 'status', trigger, status });
+  }
+
+  private categories(): StateCategory[] {
+    return (Object.keys(this.intervals) as StateCategory[]).filter((category) => this.intervals[category] != null);
+  }
+
+  private nextDueAt(category: StateCategory): number {
+    const lastFetchedAt = this.lastFetchedAt.get(category);
+    return lastFetchedAt === undefined ? 0 : lastFetchedAt + (this.effectiveInterval(category) ?? 0);
+  }
+
+  private reschedule(): void {
+    if (this.running && !this.inFlight) {
+      this.scheduleNext();
+    }
+  }
+
+  private emit(event: TelemetryEvent): void {
+    this.events.emit(TELEMETRY_EVENT, event);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
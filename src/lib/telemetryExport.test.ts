@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv, toGpx } from './telemetryExport';
+import type { TelemetryRecord } from './telemetryLog';
+
+const AT = Date.UTC(2026, 9, 19, 15, 30, 0);
+
+function record(values: Partial<TelemetryRecord> = {}): TelemetryRecord {
+  return {
+    at: AT,
+    latencyMs: null,
+    shiftState: null,
+    speedMph: null,
+    powerKw: null,
+    odometerMiles: null,
+    batteryLevel: null,
+    latitude: null,
+    longitude: null,
+    headingDeg: null,
+    ...values,
+  };
+}
+
+describe('toGpx', () => {
+  it('writes a track point only for records with a position', () => {
+    const gpx = toGpx(
+      [
+        record({ latitude: 37.5, longitude: -122.25 }),
+        record({ at: AT + 1000, latitude: 37.5 }),
+        record({ at: AT + 2000, speedMph: 30 }),
+      ],
+      'Trip',
+    );
+
+    expect(gpx.match(/<trkpt /g)).toHaveLength(1);
+    expect(gpx).toContain('<trkpt lat="37.5" lon="-122.25">');
+    expect(gpx).toContain('<time>2026-10-19T15:30:00.000Z</time>');
+    expect(gpx).not.toContain('<extensions>');
+  });
+
+  it('converts speed from mph to m/s and keeps the heading', () => {
+    const gpx = toGpx([record({ latitude: 1, longitude: 2, speedMph: 60, headingDeg: 90 })], 'Trip');
+
+    expect(gpx).toContain('<gpxtpx:speed>26.82</gpxtpx:speed>');
+    expect(gpx).toContain('<gpxtpx:course>90</gpxtpx:course>');
+  });
+
+  it('escapes the track name', () => {
+    const gpx = toGpx([], `Tom & Jerry's <trip>`);
+
+    expect(gpx).toContain('<name>Tom &#38; Jerry&#39;s &#60;trip&#62;</name>');
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a header and one row per record with empty cells for missing values', () => {
+    const csv = toCsv([record({ shiftState: 'D', speedMph: 42.5, batteryLevel: 80 }), record({ at: AT + 1000 })]);
+    const [header, first, second, end] = csv.split('\n');
+
+    expect(header).toBe(
+      'time,at,latencyMs,shiftState,speedMph,powerKw,odometerMiles,batteryLevel,latitude,longitude,headingDeg',
+    );
+    expect(first).toBe(`2026-10-19T15:30:00.000Z,${AT},,D,42.5,,,80,,,`);
+    expect(second).toBe(`2026-10-19T15:30:01.000Z,${AT + 1000},,,,,,,,,`);
+    expect(end).toBe('');
+  });
+
+  it('keeps zero values', () => {
+    const [, row] = toCsv([record({ speedMph: 0, powerKw: 0 })]).split('\n');
+
+    expect(row).toBe(`2026-10-19T15:30:00.000Z,${AT},,,0,0,,,,,`);
+  });
+});
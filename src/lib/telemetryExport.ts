@@ -0,0 +1,95 @@
+import type { TelemetryRecord } from './telemetryLog';
+import type { Trip } from './tripComputer';
+
+export type ExportFormat = 'gpx' | 'csv' | 'json';
+
+const MPS_PER_MPH = 0.44704;
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+const CSV_COLUMNS: (keyof TelemetryRecord)[] = [
+  'at',
+  'latencyMs',
+  'shiftState',
+  'speedMph',
+  'powerKw',
+  'odometerMiles',
+  'batteryLevel',
+  'latitude',
+  'longitude',
+  'headingDeg',
+];
+
+export interface TelemetryExport {
+  vin: string | null;
+  exportedAt: number;
+  records: TelemetryRecord[];
+  trips: Trip[];
+}
+
+/**
+ * A GPX 1.1 track of the records that carry a position. Speed (m/s) and
+ * heading use Garmin's TrackPointExtension, which most analysis tools read.
+ */
+export function toGpx(records: TelemetryRecord[], name: string): string {
+  const points = records
+    .filter((record) => record.latitude != null && record.longitude != null)
+    .map((record) => {
+      const extensions = [
+        record.speedMph == null ? '' : `<gpxtpx:speed>${(record.speedMph * MPS_PER_MPH).toFixed(2)}</gpxtpx:speed>`,
+        record.headingDeg == null ? '' : `<gpxtpx:course>${record.headingDeg}</gpxtpx:course>`,
+      ].join('');
+      return [
+        `      <trkpt lat="${record.latitude}" lon="${record.longitude}">`,
+        `        <time>${new Date(record.at).toISOString()}</time>`,
+        extensions
+          ? `        <extensions><gpxtpx:TrackPointExtension>${extensions}</gpxtpx:TrackPointExtension></extensions>`
+          : null,
+        '      </trkpt>',
+      ]
+        .filter((line) => line !== null)
+        .join('\n');
+    });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="tsla-ble-dash-expo" xmlns="http://www.topografix.com/GPX/1/1"'
+      + ' xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">',
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/** One row per record; `time` is ISO 8601 next to the raw `at` milliseconds. Missing values are empty cells. */
+export function toCsv(records: TelemetryRecord[]): string {
+  const header = ['time', ...CSV_COLUMNS].join(',');
+  const rows = records.map((record) =>
+    [new Date(record.at).toISOString(), ...CSV_COLUMNS.map((column) => record[column] ?? '')].join(','),
+  );
+  return [header, ...rows, ''].join('\n');
+}
+
+export function toJson(data: TelemetryExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/** e.g. `tesla-5YJ3E1EA7JF000000-20261019-153000.gpx` */
+export function exportFileName(vin: string | null, format: ExportFormat, at = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${at.getFullYear()}${pad(at.getMonth() + 1)}${pad(at.getDate())}-`
+    + `${pad(at.getHours())}${pad(at.getMinutes())}${pad(at.getSeconds())}`;
+  return `tesla-${vin ?? 'vehicle'}-${stamp}.${format}`;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
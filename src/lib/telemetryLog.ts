@@ -0,0 +1,65 @@
+import { RingBuffer } from './timeSeries';
+import type { ShiftState } from './vehicleData';
+
+const DEFAULT_CAPACITY = 20_000;
+
+/**
+ * One polling round at full resolution. Fields the round did not fetch are
+ * null, e.g. battery level between the slower Charge polls.
+ */
+export interface TelemetryRecord {
+  at: number;
+  latencyMs: number | null;
+  shiftState: ShiftState | null;
+  speedMph: number | null;
+  powerKw: number | null;
+  odometerMiles: number | null;
+  batteryLevel: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  headingDeg: number | null;
+}
+
+/** The most recent polling rounds, oldest first; about five hours at one round per second. */
+export class TelemetryLog {
+  private readonly buffer: RingBuffer<TelemetryRecord>;
+
+  constructor(capacity = DEFAULT_CAPACITY) {
+    this.buffer = new RingBuffer(capacity);
+  }
+
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  add(record: TelemetryRecord): void {
+    this.buffer.push(record);
+  }
+
+  /** Records with `from <= at <= to`, oldest first. */
+  between(from = -Infinity, to = Infinity): TelemetryRecord[] {
+    const records: TelemetryRecord[] = [];
+    for (let i = 0; i < this.buffer.length; i += 1) {
+      const record = this.buffer.get(i)!;
+      if (record.at >= from && record.at <= to) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  /** The newest record with a position, if any. */
+  lastLocated(): TelemetryRecord | null {
+    for (let i = this.buffer.length - 1; i >= 0; i -= 1) {
+      const record = this.buffer.get(i)!;
+      if (record.latitude != null && record.longitude != null) {
+        return record;
+      }
+    }
+    return null;
+  }
+
+  clear(): void {
+    this.buffer.clear();
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { RingBuffer, TimeSeries } from './timeSeries';
+
+describe('RingBuffer', () => {
+  it('evicts and returns the oldest item when full', () => {
+    const buffer = new RingBuffer<number>(2);
+    expect(buffer.push(1)).toBeUndefined();
+    expect(buffer.push(2)).toBeUndefined();
+    expect(buffer.push(3)).toBe(1);
+    expect([buffer.get(0), buffer.get(1)]).toEqual([2, 3]);
+    expect(buffer.length).toBe(2);
+  });
+});
+
+describe('TimeSeries', () => {
+  it('folds samples evicted by the raw capacity into a bucket', () => {
+    const series = new TimeSeries({ rawCapacity: 3, rawRetentionMs: Infinity, bucketMs: 10 });
+    [0, 1, 2, 3].forEach((at) => series.add(at, at * 10));
+
+    expect(series.since(-Infinity)).toEqual([
+      { at: 0, value: 0 },
+      { at: 1, value: 10 },
+      { at: 2, value: 20 },
+      { at: 3, value: 30 },
+    ]);
+    // The first sample now comes from the bucket; the raw buffer holds the last three.
+    series.add(4, 40);
+    expect(series.since(-Infinity)).toEqual([
+      { at: 1, value: 5 },
+      { at: 2, value: 20 },
+      { at: 3, value: 30 },
+      { at: 4, value: 40 },
+    ]);
+  });
+
+  it('averages samples older than the retention into fixed-width buckets', () => {
+    const series = new TimeSeries({ rawRetentionMs: 100, bucketMs: 100 });
+    series.add(0, 1);
+    series.add(50, 3);
+    series.add(120, 5);
+    series.add(1000, 7);
+    series.add(1150, 9);
+
+    expect(series.since(-Infinity)).toEqual([
+      { at: 25, value: 2 },
+      { at: 120, value: 5 },
+      { at: 1000, value: 7 },
+      { at: 1150, value: 9 },
+    ]);
+  });
+
+  it('drops the oldest buckets beyond the bucket capacity', () => {
+    const series = new TimeSeries({ rawRetentionMs: 0, bucketMs: 10, bucketCapacity: 2 });
+    [0, 10, 20, 30, 40].forEach((at) => series.add(at, at));
+
+    expect(series.since(-Infinity).map((sample) => sample.at)).toEqual([10, 20, 30, 40]);
+  });
+
+  it('ignores samples older than the newest one and non-finite values', () => {
+    const series = new TimeSeries();
+    series.add(1000, 1);
+    series.add(999, 2);
+    series.add(1001, Number.NaN);
+    series.add(1000, 3);
+
+    expect(series.since(-Infinity)).toEqual([
+      { at: 1000, value: 1 },
+      { at: 1000, value: 3 },
+    ]);
+    expect(series.latest()).toEqual({ at: 1000, value: 3 });
+  });
+
+  it('starts a window at its first sample, inclusive, for raw samples and buckets alike', () => {
+    const series = new TimeSeries({ rawRetentionMs: 100, bucketMs: 100 });
+    series.add(0, 1);
+    series.add(20, 3);
+    series.add(500, 5);
+    series.add(600, 7);
+
+    expect(series.since(10).map((sample) => sample.at)).toEqual([10, 500, 600]);
+    expect(series.since(11).map((sample) => sample.at)).toEqual([500, 600]);
+    expect(series.since(600)).toEqual([{ at: 600, value: 7 }]);
+  });
+});
@@ -0,0 +1,158 @@
+export interface TimeSeriesSample {
+  /** Epoch milliseconds; for downsampled samples, the mean time of the samples folded in. */
+  at: number;
+  value: number;
+}
+
+export interface TimeSeriesOptions {
+  /** Samples this much older than the newest one are folded into buckets. */
+  rawRetentionMs: number;
+  /** Upper bound on full-resolution samples, whatever their age. */
+  rawCapacity: number;
+  /** Width of the averaged buckets that hold older samples. */
+  bucketMs: number;
+  bucketCapacity: number;
+}
+
+export const DEFAULT_TIME_SERIES_OPTIONS: TimeSeriesOptions = {
+  rawRetentionMs: 120_000,
+  rawCapacity: 1_200,
+  bucketMs: 10_000,
+  bucketCapacity: 360,
+};
+
+interface PendingBucket {
+  start: number;
+  count: number;
+  atSum: number;
+  valueSum: number;
+}
+
+/** Fixed-capacity FIFO; pushing onto a full buffer evicts and returns the oldest item. */
+export class RingBuffer<T> {
+  private readonly items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+
+  constructor(capacity: number) {
+    this.items = new Array(Math.max(1, capacity));
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  push(item: T): T | undefined {
+    const capacity = this.items.length;
+    if (this.count < capacity) {
+      this.items[(this.start + this.count) % capacity] = item;
+      this.count += 1;
+      return undefined;
+    }
+    const evicted = this.items[this.start];
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % capacity;
+    return evicted;
+  }
+
+  shift(): T | undefined {
+    if (!this.count) {
+      return undefined;
+    }
+    const item = this.items[this.start];
+    this.items[this.start] = undefined;
+    this.start = (this.start + 1) % this.items.length;
+    this.count -= 1;
+    return item;
+  }
+
+  get(index: number): T | undefined {
+    return index >= 0 && index < this.count ? this.items[(this.start + index) % this.items.length] : undefined;
+  }
+
+  clear(): void {
+    this.items.fill(undefined);
+    this.start = 0;
+    this.count = 0;
+  }
+}
+
+/**
+ * Bounded history of one metric. Recent samples are kept as recorded; older
+ * ones are averaged into fixed-width buckets, so memory stays constant while
+ * the series still covers the last hour or so at lower resolution.
+ */
+export class TimeSeries {
+  private readonly options: TimeSeriesOptions;
+  private readonly raw: RingBuffer<TimeSeriesSample>;
+  private readonly buckets: RingBuffer<TimeSeriesSample>;
+  private pending: PendingBucket | null = null;
+
+  constructor(options: Partial<TimeSeriesOptions> = {}) {
+    this.options = { ...DEFAULT_TIME_SERIES_OPTIONS, ...options };
+    this.raw = new RingBuffer(this.options.rawCapacity);
+    this.buckets = new RingBuffer(this.options.bucketCapacity);
+  }
+
+  /** Appends a sample. Non-finite values and samples older than the newest one are ignored. */
+  add(at: number, value: number): void {
+    const latest = this.latest();
+    if (!Number.isFinite(value) || (latest && at < latest.at)) {
+      return;
+    }
+    const evicted = this.raw.push({ at, value });
+    if (evicted) {
+      this.fold(evicted);
+    }
+    const cutoff = at - this.options.rawRetentionMs;
+    while (this.raw.length && this.raw.get(0)!.at < cutoff) {
+      this.fold(this.raw.shift()!);
+    }
+  }
+
+  latest(): TimeSeriesSample | null {
+    return this.raw.get(this.raw.length - 1) ?? null;
+  }
+
+  /** Samples at or after `since`, oldest first: downsampled buckets followed by full-resolution samples. */
+  since(since: number): TimeSeriesSample[] {
+    const samples: TimeSeriesSample[] = [];
+    const push = (sample: TimeSeriesSample) => {
+      if (sample.at >= since) {
+        samples.push(sample);
+      }
+    };
+    for (let i = 0; i < this.buckets.length; i += 1) {
+      push(this.buckets.get(i)!);
+    }
+    if (this.pending) {
+      push(bucketSample(this.pending));
+    }
+    for (let i = 0; i < this.raw.length; i += 1) {
+      push(this.raw.get(i)!);
+    }
+    return samples;
+  }
+
+  clear(): void {
+    this.raw.clear();
+    this.buckets.clear();
+    this.pending = null;
+  }
+
+  private fold(sample: TimeSeriesSample): void {
+    const start = Math.floor(sample.at / this.options.bucketMs) * this.options.bucketMs;
+    if (this.pending && this.pending.start !== start) {
+      this.buckets.push(bucketSample(this.pending));
+      this.pending = null;
+    }
+    this.pending ??= { start, count: 0, atSum: 0, valueSum: 0 };
+    this.pending.count += 1;
+    this.pending.atSum += sample.at;
+    this.pending.valueSum += sample.value;
+  }
+}
+
+function bucketSample(bucket: PendingBucket): TimeSeriesSample {
+  return { at: Math.round(bucket.atSum / bucket.count), value: bucket.valueSum / bucket.count };
+}
@@ -0,0 +1,83 @@
+import type { TirePressureState } from './vehicleData';
+
+/** Pressures are reported in bar. */
+export type PressureUnit = 'bar' | 'psi' | 'kPa';
+
+export const PRESSURE_UNITS: PressureUnit[] = ['bar', 'psi', 'kPa'];
+
+export type TirePosition = 'Fl' | 'Fr' | 'Rl' | 'Rr';
+
+export const TIRE_POSITIONS: TirePosition[] = ['Fl', 'Fr', 'Rl', 'Rr'];
+
+export const TIRE_LABELS: Record<TirePosition, string> = {
+  Fl: 'Front left',
+  Fr: 'Front right',
+  Rl: 'Rear left',
+  Rr: 'Rear right',
+};
+
+/** Sensors report every few minutes while the wheels turn and go quiet when parked. */
+export const TPMS_STALE_AFTER_MS = 15 * 60_000;
+
+export interface TireReading {
+  position: TirePosition;
+  pressureBar: number | null;
+  lastSeenAt: number | null;
+  stale: boolean;
+  hardWarning: boolean;
+  softWarning: boolean;
+}
+
+export function readTires(state: TirePressureState, now: number): TireReading[] {
+  return TIRE_POSITIONS.map((position) => {
+    const lastSeenAt = state[`tpmsLastSeenPressureTime${position}` as const];
+    return {
+      position,
+      pressureBar: state[`tpmsPressure${position}` as const],
+      lastSeenAt,
+      stale: lastSeenAt === null || now - lastSeenAt > TPMS_STALE_AFTER_MS,
+      hardWarning: Boolean(state[`tpmsHardWarning${position}` as const]),
+      softWarning: Boolean(state[`tpmsSoftWarning${position}` as const]),
+    };
+  });
+}
+
+export function hardWarningPositions(state: TirePressureState | null): TirePosition[] {
+  return state ? TIRE_POSITIONS.filter((position) => state[`tpmsHardWarning${position}` as const]) : [];
+}
+
+export function convertPressure(bar: number, unit: PressureUnit): number {
+  switch (unit) {
+    case 'psi':
+      return bar * 14.5038;
+    case 'kPa':
+      return bar * 100;
+    default:
+      return bar;
+  }
+}
+
+/** `2.9 bar`, `42 psi` or `290 kPa`; `--` without a reading. */
+export function formatPressure(bar: number | null, unit: PressureUnit): string {
+  if (bar === null || Number.isNaN(bar)) {
+    return '--';
+  }
+  const value = convertPressure(bar, unit);
+  return `${unit === 'bar' ? value.toFixed(1) : Math.round(value)} ${unit}`;
+}
+
+/** `just now`, `12 min ago` or `3 h ago`. */
+export function formatLastSeen(lastSeenAt: number | null, now: number): string {
+  if (lastSeenAt === null) {
+    return 'never seen';
+  }
+  const minutes = Math.floor(Math.max(0, now - lastSeenAt) / 60_000);
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes} min ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours} h ago` : `${Math.floor(hours / 24)} d ago`;
+}
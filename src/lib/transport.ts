@@ -0,0 +1,126 @@
+import { DEFAULT_MAX_MESSAGE_SIZE, DEFAULT_RX_TIMEOUT_MS, HEADER_SIZE } from './constants';
+
+export const MESSAGE_EVENT = 'message';
+export const DISCONNECT_EVENT = 'disconnect';
+export const PHASE_EVENT = 'phase';
+
+/** Progress reported by a transport while connect() is running. */
+export type TransportPhase = 'scanning' | 'connecting' | 'discovering';
+
+export interface TransportMessageEvent {
+  detail: Uint8Array;
+}
+
+export interface TransportDeviceInfo {
+  id: string;
+  name: string | null;
+  serviceUUIDs?: string[] | null;
+  mtu?: number;
+}
+
+/**
+ * Byte pipe between the session layer and a vehicle. Implementations deliver
+ * whole (de-framed) messages to message listeners and announce link loss via
+ * disconnect listeners.
+ */
+export interface VehicleTransport {
+  readonly connected: boolean;
+  readonly deviceInfo: TransportDeviceInfo | null;
+  connect(target?: unknown): Promise<void>;
+  disconnect(): Promise<void>;
+  send(payload: Uint8Array): Promise<void>;
+  addMessageListener(listener: (event: TransportMessageEvent) => void): void;
+  removeMessageListener(listener: (event: TransportMessageEvent) => void): void;
+  addDisconnectListener(listener: () => void): void;
+  removeDisconnectListener(listener: () => void): void;
+  addPhaseListener(listener: (phase: TransportPhase) => void): void;
+  removePhaseListener(listener: (phase: TransportPhase) => void): void;
+}
+
+type Listener<T> = (payload: T) => void;
+
+export class SimpleEventEmitter {
+  private listeners = new Map<string, Set<Listener<any>>>();
+
+  on<T>(event: string, listener: Listener<T>): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+  }
+
+  off<T>(event: string, listener: Listener<T>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<T>(event: string, payload: T): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of listeners) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[Transport] Listener for "${event}" failed`, error);
+      }
+    }
+  }
+}
+
+export function frameMessage(payload: Uint8Array): Uint8Array {
+  if (payload.length > DEFAULT_MAX_MESSAGE_SIZE) {
+    throw new Error(`Payload too large (${payload.length})`);
+  }
+  const packet = new Uint8Array(HEADER_SIZE + payload.length);
+  packet[0] = (payload.length >> 8) & 0xff;
+  packet[1] = payload.length & 0xff;
+  packet.set(payload, HEADER_SIZE);
+  return packet;
+}
+
+/**
+ * Reassembles length-prefixed messages from arbitrarily sized chunks. A gap of
+ * more than DEFAULT_RX_TIMEOUT_MS between chunks discards any partial message.
+ */
+export class MessageDeframer {
+  private buffer = new Uint8Array(0);
+  private lastChunkAt = 0;
+
+  push(chunk: Uint8Array, now = Date.now()): Uint8Array[] {
+    if (!chunk.length) {
+      return [];
+    }
+    if (now - this.lastChunkAt > DEFAULT_RX_TIMEOUT_MS) {
+      this.buffer = new Uint8Array(0);
+    }
+    this.lastChunkAt = now;
+    const merged = new Uint8Array(this.buffer.length + chunk.length);
+    merged.set(this.buffer);
+    merged.set(chunk, this.buffer.length);
+    this.buffer = merged;
+    return this.flush();
+  }
+
+  reset(): void {
+    this.buffer = new Uint8Array(0);
+  }
+
+  private flush(): Uint8Array[] {
+    const messages: Uint8Array[] = [];
+    while (this.buffer.length >= HEADER_SIZE) {
+      const length = (this.buffer[0] << 8) | this.buffer[1];
+      if (length > DEFAULT_MAX_MESSAGE_SIZE) {
+        console.error('Received oversized packet, resetting buffer');
+        this.buffer = new Uint8Array(0);
+        break;
+      }
+      if (this.buffer.length < HEADER_SIZE + length) {
+        break;
+      }
+      messages.push(this.buffer.slice(HEADER_SIZE, HEADER_SIZE + length));
+      this.buffer = this.buffer.slice(HEADER_SIZE + length);
+    }
+    return messages;
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { TripRecorder, TripSample, tripEfficiency } from './tripComputer';
+import type { ShiftState } from './vehicleData';
+
+const START = 1_700_000_000_000;
+
+function sample(
+  seconds: number,
+  shiftState: ShiftState | null,
+  values: Partial<Omit<TripSample, 'at' | 'shiftState'>> = {},
+): TripSample {
+  return { at: START + seconds * 1000, shiftState, speedMph: 0, powerKw: 0, odometerMiles: null, ...values };
+}
+
+/** Drives at `speedMph` from `fromSeconds`, one reading every 10 s, advancing the odometer from `odometer`. */
+function drive(recorder: TripRecorder, fromSeconds: number, readings: number, speedMph: number, odometer: number) {
+  for (let i = 0; i < readings; i += 1) {
+    const seconds = fromSeconds + i * 10;
+    const miles = odometer + (speedMph * (i * 10)) / 3600;
+    expect(recorder.addSample(sample(seconds, 'D', { speedMph, powerKw: 20, odometerMiles: miles }))).toBeNull();
+  }
+}
+
+describe('TripRecorder', () => {
+  it('starts a trip in D, R or N and not in Park', () => {
+    for (const shiftState of ['D', 'R', 'N'] as const) {
+      const recorder = new TripRecorder();
+      recorder.addSample(sample(0, 'P'));
+      expect(recorder.activeTrip).toBeNull();
+      recorder.addSample(sample(1, shiftState));
+      expect(recorder.activeTrip?.startedAt).toBe(START + 1000);
+    }
+  });
+
+  it('ends the trip in Park', () => {
+    const recorder = new TripRecorder();
+    drive(recorder, 0, 7, 36, 1000);
+    const trip = recorder.addSample(sample(70, 'P', { odometerMiles: 1000.6 }));
+
+    expect(trip?.distanceMiles).toBeCloseTo(0.6);
+    expect(trip?.endedAt).toBe(START + 70_000);
+    expect(recorder.activeTrip).toBeNull();
+  });
+
+  it('ends the trip when a sleeping car reports no gear', () => {
+    for (const shiftState of [null, 'SNA', 'Invalid'] as const) {
+      const recorder = new TripRecorder();
+      drive(recorder, 0, 7, 36, 1000);
+      expect(recorder.addSample(sample(70, shiftState))).not.toBeNull();
+      expect(recorder.activeTrip).toBeNull();
+    }
+  });
+
+  it('drops trips under 0.05 mi', () => {
+    const recorder = new TripRecorder();
+    recorder.addSample(sample(0, 'R', { speedMph: 3, odometerMiles: 1000 }));
+    recorder.addSample(sample(10, 'R', { speedMph: 3, odometerMiles: 1000.01 }));
+
+    expect(recorder.addSample(sample(20, 'P', { odometerMiles: 1000.01 }))).toBeNull();
+  });
+
+  it('closes a trip whose end was missed and starts the next one on the later reading', () => {
+    const recorder = new TripRecorder();
+    drive(recorder, 0, 7, 36, 1000);
+    // Polling stopped for an hour; the car was parked and driven again meanwhile.
+    const missed = recorder.addSample(sample(3660, 'D', { speedMph: 30, odometerMiles: 1010 }));
+
+    expect(missed?.distanceMiles).toBeCloseTo(0.6);
+    expect(missed?.endedAt).toBe(START + 60_000);
+    expect(recorder.activeTrip?.startedAt).toBe(START + 3_660_000);
+  });
+
+  it('skips gaps longer than a minute in distance, moving time and energy alike', () => {
+    const recorder = new TripRecorder();
+    drive(recorder, 0, 7, 36, 1000);
+    // Two minutes without readings, during which the odometer advanced 1.2 mi.
+    drive(recorder, 180, 7, 36, 1001.8);
+    const trip = recorder.finish();
+
+    expect(trip?.distanceMiles).toBeCloseTo(1.2);
+    expect(trip?.movingTimeMs).toBe(120_000);
+    expect(trip?.energyKwh).toBeCloseTo((20 * 120) / 3600);
+    expect(trip?.averageSpeedMph).toBeCloseTo(36);
+    expect(tripEfficiency(trip!)).toBeCloseTo(((20 * 120) / 3600) * 1000 / 1.2);
+  });
+
+  it('integrates energy with the trapezoid rule and subtracts regeneration', () => {
+    const recorder = new TripRecorder();
+    recorder.addSample(sample(0, 'D', { speedMph: 30, powerKw: 0 }));
+    recorder.addSample(sample(36, 'D', { speedMph: 30, powerKw: 40 }));
+    recorder.addSample(sample(72, 'D', { speedMph: 30, powerKw: -20 }));
+    const trip = recorder.finish();
+
+    // 36 s at an average of 20 kW, then 36 s at an average of 10 kW.
+    expect(trip?.energyKwh).toBeCloseTo(0.2 + 0.1);
+    // No odometer: distance comes from the speed readings.
+    expect(trip?.distanceMiles).toBeCloseTo(0.6);
+  });
+
+  it('averages speed over moving time only', () => {
+    const recorder = new TripRecorder();
+    recorder.addSample(sample(0, 'D', { speedMph: 0, odometerMiles: 500 }));
+    recorder.addSample(sample(30, 'D', { speedMph: 0, odometerMiles: 500 }));
+    recorder.addSample(sample(60, 'D', { speedMph: 60, odometerMiles: 500.25 }));
+    recorder.addSample(sample(90, 'D', { speedMph: 60, odometerMiles: 500.75 }));
+    const trip = recorder.addSample(sample(100, 'P', { odometerMiles: 500.8 }));
+
+    expect(trip?.movingTimeMs).toBe(70_000);
+    expect(trip?.durationMs).toBe(100_000);
+    expect(trip?.averageSpeedMph).toBeCloseTo(0.8 / (70 / 3600));
+  });
+});
@@ -0,0 +1,180 @@
+import type { ShiftState } from './vehicleData';
+
+const KM_PER_MILE = 1.609344;
+// Gaps longer than this (link drop, app in background) are not integrated.
+const MAX_INTEGRATION_GAP_MS = 60_000;
+// Readings further apart than this belong to different trips: polling stopped
+// while the car slept, the app was killed or auto refresh was off.
+const MAX_TRIP_GAP_MS = 5 * 60_000;
+// Shorter trips (moving the car in the driveway) are dropped.
+const MIN_TRIP_MILES = 0.05;
+
+export type DistanceUnit = 'mi' | 'km';
+
+/** One Drive reading. Units follow the vehicle: mph, kW, miles. */
+export interface TripSample {
+  at: number;
+  shiftState: ShiftState | null;
+  speedMph: number | null;
+  powerKw: number | null;
+  odometerMiles: number | null;
+}
+
+export interface Trip {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  /** Time spent with the car moving; stops at lights are excluded. */
+  movingTimeMs: number;
+  distanceMiles: number;
+  /** Distance over moving time; null before the car has moved. */
+  averageSpeedMph: number | null;
+  maxSpeedMph: number;
+  /** Net energy drawn from the battery; regeneration is subtracted. */
+  energyKwh: number;
+  startBatteryLevel: number | null;
+  endBatteryLevel: number | null;
+}
+
+interface ActiveTrip {
+  startedAt: number;
+  lastAt: number;
+  movingTimeMs: number;
+  integratedMiles: number;
+  /** Odometer advance over the integrated intervals only; null until two readings span one. */
+  odometerMiles: number | null;
+  /** Odometer at the last reading, cleared by a gap that is not integrated. */
+  lastOdometer: number | null;
+  maxSpeedMph: number;
+  energyKwh: number;
+  startBatteryLevel: number | null;
+}
+
+/** Watt-hours per mile or kilometre, or null when the trip covered no distance. */
+export function tripEfficiency(trip: Trip, unit: DistanceUnit = 'mi'): number | null {
+  const distance = unit === 'km' ? trip.distanceMiles * KM_PER_MILE : trip.distanceMiles;
+  return distance > 0 ? (trip.energyKwh * 1000) / distance : null;
+}
+
+export function milesToKm(miles: number): number {
+  return miles * KM_PER_MILE;
+}
+
+/**
+ * Turns a stream of Drive readings into trips. A trip starts in D, R or N and
+ * ends on any other reading (Park, or nothing while the car sleeps) or when
+ * readings stop for longer than `MAX_TRIP_GAP_MS`. Distance, energy and moving
+ * time all cover the same intervals between consecutive readings; distance
+ * comes from the odometer when the car reports it.
+ */
+export class TripRecorder {
+  private active: ActiveTrip | null = null;
+  private previous: TripSample | null = null;
+  private batteryLevel: number | null = null;
+
+  /** Battery level arrives with Charge state, less often than Drive readings. */
+  updateBatteryLevel(level: number | null): void {
+    if (level != null) {
+      this.batteryLevel = level;
+    }
+  }
+
+  /** The trip in progress, summarised as if it ended now; null while parked. */
+  get activeTrip(): Trip | null {
+    return this.active ? this.summarise(this.active) : null;
+  }
+
+  /** Feeds one reading. Returns the finished trip when this reading ends one. */
+  addSample(sample: TripSample): Trip | null {
+    const previous = this.previous;
+    if (previous && sample.at < previous.at) {
+      return null;
+    }
+    this.previous = sample;
+
+    const inGear = sample.shiftState === 'D' || sample.shiftState === 'R' || sample.shiftState === 'N';
+    let finished: Trip | null = null;
+    if (this.active && previous && sample.at - previous.at > MAX_TRIP_GAP_MS) {
+      // The end of the last trip was missed; close it where the readings stopped.
+      finished = this.finish();
+    } else if (this.active) {
+      this.accumulate(this.active, previous, sample);
+      return inGear ? null : this.finish();
+    }
+    if (inGear) {
+      this.active = {
+        startedAt: sample.at,
+        lastAt: sample.at,
+        movingTimeMs: 0,
+        integratedMiles: 0,
+        odometerMiles: null,
+        lastOdometer: sample.odometerMiles,
+        maxSpeedMph: Math.max(0, sample.speedMph ?? 0),
+        energyKwh: 0,
+        startBatteryLevel: this.batteryLevel,
+      };
+    }
+    return finished;
+  }
+
+  /** Ends the trip in progress, if any; returns it unless it was too short to keep. */
+  finish(): Trip | null {
+    const active = this.active;
+    this.active = null;
+    if (!active) {
+      return null;
+    }
+    const trip = this.summarise(active);
+    return trip.distanceMiles >= MIN_TRIP_MILES ? trip : null;
+  }
+
+  reset(): void {
+    this.active = null;
+    this.previous = null;
+    this.batteryLevel = null;
+  }
+
+  private accumulate(trip: ActiveTrip, previous: TripSample | null, sample: TripSample): void {
+    trip.lastAt = sample.at;
+    trip.maxSpeedMph = Math.max(trip.maxSpeedMph, sample.speedMph ?? 0);
+    const elapsedMs = previous ? sample.at - previous.at : 0;
+    if (!previous || elapsedMs <= 0 || elapsedMs > MAX_INTEGRATION_GAP_MS) {
+      trip.lastOdometer = sample.odometerMiles;
+      return;
+    }
+    if (sample.odometerMiles != null) {
+      if (trip.lastOdometer != null && sample.odometerMiles >= trip.lastOdometer) {
+        trip.odometerMiles = (trip.odometerMiles ?? 0) + sample.odometerMiles - trip.lastOdometer;
+      }
+      trip.lastOdometer = sample.odometerMiles;
+    }
+    const hours = elapsedMs / 3_600_000;
+    const fromSpeed = previous.speedMph ?? 0;
+    const toSpeed = sample.speedMph ?? 0;
+    if (fromSpeed > 0 || toSpeed > 0) {
+      trip.movingTimeMs += elapsedMs;
+    }
+    trip.integratedMiles += ((fromSpeed + toSpeed) / 2) * hours;
+    if (previous.powerKw != null && sample.powerKw != null) {
+      trip.energyKwh += ((previous.powerKw + sample.powerKw) / 2) * hours;
+    }
+  }
+
+  private summarise(trip: ActiveTrip): Trip {
+    const distanceMiles = trip.odometerMiles ?? trip.integratedMiles;
+    return {
+      id: `trip-${trip.startedAt}`,
+      startedAt: trip.startedAt,
+      endedAt: trip.lastAt,
+      durationMs: trip.lastAt - trip.startedAt,
+      movingTimeMs: trip.movingTimeMs,
+      distanceMiles,
+      averageSpeedMph: trip.movingTimeMs > 0 ? distanceMiles / (trip.movingTimeMs / 3_600_000) : null,
+      maxSpeedMph: trip.maxSpeedMph,
+      energyKwh: trip.energyKwh,
+      startBatteryLevel: trip.startBatteryLevel,
+      endBatteryLevel: this.batteryLevel,
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import type { KeyValueStorage } from './sessionCache';
+import type { TelemetryRecord } from './telemetryLog';
+import type { Trip } from './tripComputer';
+
+const TRIPS_STORAGE_KEY = 'tsla.trips';
+const TRACK_STORAGE_PREFIX = 'tsla.trips.track';
+const MAX_TRIPS = 200;
+// About an hour at one record per second; longer trips are thinned evenly to fit.
+const MAX_TRACK_RECORDS = 4000;
+
+/**
+ * Finished trips, newest first, capped at the most recent 200. Each trip's
+ * telemetry records are stored beside it so it can still be exported after a
+ * restart, when the in-memory telemetry log no longer has them.
+ */
+export class TripLog {
+  private readonly storage: KeyValueStorage;
+
+  constructor(storage: KeyValueStorage) {
+    this.storage = storage;
+  }
+
+  async load(): Promise<Trip[]> {
+    try {
+      const raw = await this.storage.getItem(TRIPS_STORAGE_KEY);
+      const parsed = raw ? (JSON.parse(raw) as Trip[]) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('[TripLog] Failed to load trips', error);
+      return [];
+    }
+  }
+
+  async add(trip: Trip, records: TelemetryRecord[] = []): Promise<Trip[]> {
+    const all = [trip, ...(await this.load()).filter((item) => item.id !== trip.id)];
+    if (records.length) {
+      await this.storage.setItem(trackKey(trip.id), JSON.stringify(thin(records, MAX_TRACK_RECORDS)));
+    }
+    const trips = all.slice(0, MAX_TRIPS);
+    await this.save(trips);
+    await Promise.all(all.slice(MAX_TRIPS).map((item) => this.storage.removeItem(trackKey(item.id))));
+    return trips;
+  }
+
+  /** The records saved with a trip, oldest first; empty when none were. */
+  async loadTrack(id: string): Promise<TelemetryRecord[]> {
+    try {
+      const raw = await this.storage.getItem(trackKey(id));
+      const parsed = raw ? (JSON.parse(raw) as TelemetryRecord[]) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('[TripLog] Failed to load track', error);
+      return [];
+    }
+  }
+
+  async remove(id: string): Promise<Trip[]> {
+    const trips = (await this.load()).filter((item) => item.id !== id);
+    await this.save(trips);
+    await this.storage.removeItem(trackKey(id));
+    return trips;
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.storage.getAllKeys();
+    const tracks = keys.filter((key) => key.startsWith(`${TRACK_STORAGE_PREFIX}.`));
+    await Promise.all([TRIPS_STORAGE_KEY, ...tracks].map((key) => this.storage.removeItem(key)));
+  }
+
+  private async save(trips: Trip[]): Promise<void> {
+    await this.storage.setItem(TRIPS_STORAGE_KEY, JSON.stringify(trips));
+  }
+}
+
+function trackKey(id: string): string {
+  return `${TRACK_STORAGE_PREFIX}.${id}`;
+}
+
+/** At most `max` records spread evenly over `records`, keeping the first and last. */
+function thin<T>(records: T[], max: number): T[] {
+  if (records.length <= max) {
+    return records;
+  }
+  const step = (records.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => records[Math.round(i * step)]);
+}
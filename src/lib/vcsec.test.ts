@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { decodeVehicleStatus } from './vcsec';
+
+describe('decodeVehicleStatus', () => {
+  it('decodes lock states', () => {
+    expect(decodeVehicleStatus({ vehicleLockState: 1 }).lockState).toBe('locked');
+    expect(decodeVehicleStatus({ vehicleLockState: 3 }).lockState).toBe('selectiveUnlocked');
+    // proto3 leaves out the zero value, VEHICLELOCKSTATE_UNLOCKED.
+    expect(decodeVehicleStatus({}).lockState).toBe('unlocked');
+  });
+
+  it('reports lock states it does not know as unknown, not locked', () => {
+    expect(decodeVehicleStatus({ vehicleLockState: 9 }).lockState).toBe('unknown');
+  });
+});
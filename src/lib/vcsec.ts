@@ -0,0 +1,398 @@
+import {
+  ClosureMoveType,
+  encodeVcsecUnsignedMessage,
+  enumValueName,
+  InformationRequestType,
+  KeyFormFactor,
+  KeyRole,
+  OperationStatus,
+  RkeAction,
+} from './protocol';
+
+/**
+ * Commands for the vehicle security controller (VCSEC). These are what make
+ * the phone a key: they are signed with the VCSEC domain session, not the
+ * infotainment one, and work while the car is asleep.
+ */
+export type SecurityCommand =
+  | { type: 'lock' }
+  | { type: 'unlock' }
+  | { type: 'wake' }
+  | { type: 'remoteDrive' }
+  | { type: 'autoSecure' }
+  | { type: 'closure'; closure: Closure; move: ClosureMove };
+
+export type SecurityCommandType = SecurityCommand['type'];
+
+export type Closure =
+  | 'frontDriverDoor'
+  | 'frontPassengerDoor'
+  | 'rearDriverDoor'
+  | 'rearPassengerDoor'
+  | 'rearTrunk'
+  | 'frontTrunk'
+  | 'chargePort'
+  | 'tonneau';
+
+/** `move` toggles a closure; the frunk only supports opening this way. */
+export type ClosureMove = 'move' | 'stop' | 'open' | 'close';
+
+const CLOSURE_MOVES: Record<ClosureMove, ClosureMoveType> = {
+  move: ClosureMoveType.CLOSURE_MOVE_TYPE_MOVE,
+  stop: ClosureMoveType.CLOSURE_MOVE_TYPE_STOP,
+  open: ClosureMoveType.CLOSURE_MOVE_TYPE_OPEN,
+  close: ClosureMoveType.CLOSURE_MOVE_TYPE_CLOSE,
+};
+
+export type SleepStatus = 'unknown' | 'awake' | 'asleep';
+/** `unknown` for values this app does not know; never assume such a car is locked. */
+export type LockState = 'unknown' | 'unlocked' | 'locked' | 'internalLocked' | 'selectiveUnlocked';
+export type UserPresence = 'unknown' | 'notPresent' | 'present';
+export type ClosureState = 'closed' | 'open' | 'ajar' | 'unknown' | 'failedUnlatch' | 'opening' | 'closing';
+
+/** `VCSEC.VehicleStatus`, answered by the security controller even while infotainment sleeps. */
+export interface VehicleSecurityStatus {
+  sleepStatus: SleepStatus;
+  lockState: LockState;
+  userPresence: UserPresence;
+  closures: Record<Closure, ClosureState>;
+  tonneauPercentOpen: number | null;
+  receivedAt: number;
+}
+
+const SLEEP_STATUSES: SleepStatus[] = ['unknown', 'awake', 'asleep'];
+const LOCK_STATES: LockState[] = ['unlocked', 'locked', 'internalLocked', 'selectiveUnlocked'];
+const USER_PRESENCES: UserPresence[] = ['unknown', 'notPresent', 'present'];
+const CLOSURE_STATES: ClosureState[] = ['closed', 'open', 'ajar', 'unknown', 'failedUnlatch', 'opening', 'closing'];
+const CLOSURES: Closure[] = [
+  'frontDriverDoor',
+  'frontPassengerDoor',
+  'rearDriverDoor',
+  'rearPassengerDoor',
+  'rearTrunk',
+  'frontTrunk',
+  'chargePort',
+  'tonneau',
+];
+
+// WhitelistOperation_information_E: LOCAL_ENTITY_AUTH_FAILED_TIMED_OUT_WAITING_FOR_TAP / _FOR_UI_ACK
+const ENROLLMENT_TIMEOUTS = new Set([25, 26]);
+
+/** Slots in use on the vehicle's key whitelist, from `VCSEC.WhitelistInfo`. */
+export interface WhitelistSummary {
+  numberOfEntries: number;
+  slots: number[];
+  keyIds: Uint8Array[];
+}
+
+export interface WhitelistEntry {
+  slot: number;
+  /** First four bytes of the SHA-1 of the public key. */
+  keyId: Uint8Array;
+  publicKey: Uint8Array | null;
+  role: KeyRole;
+  formFactor: KeyFormFactor;
+}
+
+/** Signed changes to the key whitelist. Owner privileges are required for all of them. */
+export type WhitelistOperation =
+  | { type: 'removeKey'; publicKey: Uint8Array }
+  | {
+      type: 'replaceKey';
+      keyToAdd: Uint8Array;
+      role: KeyRole;
+      /** Either the public key or the slot of the key being replaced. */
+      replace: { publicKey: Uint8Array } | { slot: number };
+      impermanent?: boolean;
+    }
+  | {
+      type: 'addImpermanentKey';
+      publicKey: Uint8Array;
+      role: KeyRole;
+      formFactor?: KeyFormFactor;
+      /** 0 keeps the key until impermanent keys are cleared. */
+      secondsToBeActive?: number;
+    }
+  | { type: 'removeAllImpermanentKeys' };
+
+export type WhitelistOperationType = WhitelistOperation['type'];
+
+export type KeyEnrollmentStatus = 'approved' | 'rejected' | 'timedOut';
+
+export interface KeyEnrollmentResult {
+  status: KeyEnrollmentStatus;
+  /** What the car reported, e.g. `local_entity_auth_failed_ui_denied`. */
+  reason: string | null;
+}
+
+export interface VcsecCommandStatus {
+  operationStatus: number;
+  /** `SignedMessage_information_E` or `WhitelistOperation_information_E`, when the car gave one. */
+  information: number | null;
+  informationName: string | null;
+}
+
+/** VCSEC refused or could not complete a command. */
+export class VcsecCommandError extends Error {
+  readonly reason: string;
+  readonly command: SecurityCommandType | WhitelistOperationType | null;
+  readonly operationStatus: number;
+
+  constructor(
+    reason: string,
+    operationStatus: number,
+    command: SecurityCommandType | WhitelistOperationType | null = null,
+  ) {
+    super(`Vehicle security controller reported error: ${reason}`);
+    this.name = 'VcsecCommandError';
+    this.reason = reason;
+    this.operationStatus = operationStatus;
+    this.command = command;
+  }
+
+  /** The controller is busy with a previous request; retrying shortly usually works. */
+  get retryable(): boolean {
+    return this.operationStatus === OperationStatus.OPERATIONSTATUS_WAIT;
+  }
+}
+
+export function encodeSecurityCommand(command: SecurityCommand): Uint8Array {
+  switch (command.type) {
+    case 'lock':
+      return encodeVcsecUnsignedMessage({ RKEAction: RkeAction.RKE_ACTION_LOCK });
+    case 'unlock':
+      return encodeVcsecUnsignedMessage({ RKEAction: RkeAction.RKE_ACTION_UNLOCK });
+    case 'wake':
+      return encodeVcsecUnsignedMessage({ RKEAction: RkeAction.RKE_ACTION_WAKE_VEHICLE });
+    case 'remoteDrive':
+      return encodeVcsecUnsignedMessage({ RKEAction: RkeAction.RKE_ACTION_REMOTE_DRIVE });
+    case 'autoSecure':
+      return encodeVcsecUnsignedMessage({ RKEAction: RkeAction.RKE_ACTION_AUTO_SECURE_VEHICLE });
+    case 'closure':
+      if (command.closure === 'frontTrunk' && command.move !== 'open' && command.move !== 'move') {
+        throw new Error('The front trunk can only be opened remotely');
+      }
+      return encodeVcsecUnsignedMessage({ closureMoveRequest: { [command.closure]: CLOSURE_MOVES[command.move] } });
+    default: {
+      const unknown: never = command;
+      throw new Error(`Unsupported security command: ${(unknown as { type: string }).type}`);
+    }
+  }
+}
+
+export function encodeVehicleStatusRequest(): Uint8Array {
+  return encodeVcsecUnsignedMessage({
+    InformationRequest: { informationRequestType: InformationRequestType.INFORMATION_REQUEST_TYPE_GET_STATUS },
+  });
+}
+
+export function encodeWhitelistInfoRequest(): Uint8Array {
+  return encodeVcsecUnsignedMessage({
+    InformationRequest: { informationRequestType: InformationRequestType.INFORMATION_REQUEST_TYPE_GET_WHITELIST_INFO },
+  });
+}
+
+export function encodeWhitelistEntryRequest(slot: number): Uint8Array {
+  return encodeVcsecUnsignedMessage({
+    InformationRequest: {
+      informationRequestType: InformationRequestType.INFORMATION_REQUEST_TYPE_GET_WHITELIST_ENTRY_INFO,
+      slot,
+    },
+  });
+}
+
+export function encodeWhitelistOperation(operation: WhitelistOperation): Uint8Array {
+  switch (operation.type) {
+    case 'removeKey':
+      return encodeVcsecUnsignedMessage({
+        WhitelistOperation: { removePublicKeyFromWhitelist: { PublicKeyRaw: operation.publicKey } },
+      });
+    case 'replaceKey': {
+      const target = 'slot' in operation.replace
+        ? { slotToReplace: operation.replace.slot }
+        : { publicKeyToReplace: { PublicKeyRaw: operation.replace.publicKey } };
+      return encodeVcsecUnsignedMessage({
+        WhitelistOperation: {
+          replaceKey: {
+            ...target,
+            keyToAdd: { PublicKeyRaw: operation.keyToAdd },
+            keyRole: operation.role,
+            impermanent: operation.impermanent ?? false,
+          },
+        },
+      });
+    }
+    case 'addImpermanentKey':
+      return encodeVcsecUnsignedMessage({
+        WhitelistOperation: {
+          addImpermanentKey: {
+            key: { PublicKeyRaw: operation.publicKey },
+            keyRole: operation.role,
+            secondsToBeActive: operation.secondsToBeActive ?? 0,
+          },
+          metadataForKey: { keyFormFactor: operation.formFactor ?? KeyFormFactor.KEY_FORM_FACTOR_UNKNOWN },
+        },
+      });
+    case 'removeAllImpermanentKeys':
+      return encodeVcsecUnsignedMessage({ WhitelistOperation: { removeAllImpermanentKeys: true } });
+    default: {
+      const unknown: never = operation;
+      throw new Error(`Unsupported whitelist operation: ${(unknown as { type: string }).type}`);
+    }
+  }
+}
+
+export function decodeWhitelistInfo(info: any): WhitelistSummary {
+  const slotMask: number = info.slotMask ?? 0;
+  const slots: number[] = [];
+  for (let slot = 0; slot < 32; slot += 1) {
+    if ((slotMask >>> slot) & 1) {
+      slots.push(slot);
+    }
+  }
+  return {
+    numberOfEntries: info.numberOfEntries ?? slots.length,
+    slots,
+    keyIds: (info.whitelistEntries ?? []).map((entry: any) => new Uint8Array(entry.publicKeySHA1 ?? [])),
+  };
+}
+
+export function decodeWhitelistEntry(entry: any): WhitelistEntry {
+  const publicKey = entry.publicKey?.PublicKeyRaw;
+  return {
+    slot: entry.slot ?? 0,
+    keyId: new Uint8Array(entry.keyId?.publicKeySHA1 ?? []),
+    publicKey: publicKey?.length ? new Uint8Array(publicKey) : null,
+    role: (entry.keyRole ?? KeyRole.ROLE_NONE) as KeyRole,
+    formFactor: (entry.metadataForKey?.keyFormFactor ?? KeyFormFactor.KEY_FORM_FACTOR_UNKNOWN) as KeyFormFactor,
+  };
+}
+
+export function describeKeyRole(role: KeyRole): string {
+  switch (role) {
+    case KeyRole.ROLE_OWNER:
+      return 'Owner';
+    case KeyRole.ROLE_DRIVER:
+      return 'Driver';
+    case KeyRole.ROLE_SERVICE:
+      return 'Service';
+    case KeyRole.ROLE_FM:
+      return 'Fleet manager';
+    case KeyRole.ROLE_VEHICLE_MONITOR:
+      return 'Vehicle monitor';
+    case KeyRole.ROLE_CHARGING_MANAGER:
+      return 'Charging manager';
+    case KeyRole.ROLE_GUEST:
+      return 'Guest';
+    default:
+      return 'No role';
+  }
+}
+
+export function describeKeyFormFactor(formFactor: KeyFormFactor): string {
+  switch (formFactor) {
+    case KeyFormFactor.KEY_FORM_FACTOR_NFC_CARD:
+      return 'Key card';
+    case KeyFormFactor.KEY_FORM_FACTOR_IOS_DEVICE:
+      return 'iPhone';
+    case KeyFormFactor.KEY_FORM_FACTOR_ANDROID_DEVICE:
+      return 'Android phone';
+    case KeyFormFactor.KEY_FORM_FACTOR_CLOUD_KEY:
+      return 'Cloud key';
+    default:
+      return 'Unknown device';
+  }
+}
+
+/** Normalises a decoded `VCSEC.VehicleStatus`; zero-valued enums are omitted on the wire. */
+export function decodeVehicleStatus(status: any, receivedAt = Date.now()): VehicleSecurityStatus {
+  const closureStatuses = status.closureStatuses ?? {};
+  const closures = {} as Record<Closure, ClosureState>;
+  for (const closure of CLOSURES) {
+    closures[closure] = CLOSURE_STATES[closureStatuses[closure] ?? 0] ?? 'unknown';
+  }
+  return {
+    sleepStatus: SLEEP_STATUSES[status.vehicleSleepStatus ?? 0] ?? 'unknown',
+    // proto3 omits the zero value, so an absent lock state is VEHICLELOCKSTATE_UNLOCKED on the wire.
+    lockState: LOCK_STATES[status.vehicleLockState ?? 0] ?? 'unknown',
+    userPresence: USER_PRESENCES[status.userPresence ?? 0] ?? 'unknown',
+    closures,
+    tonneauPercentOpen: status.detailedClosureStatus?.tonneauPercentOpen ?? null,
+    receivedAt,
+  };
+}
+
+/** Reads the `CommandStatus` from a decoded `FromVCSECMessage`. An empty message means success. */
+export function decodeVcsecCommandStatus(message: any): VcsecCommandStatus {
+  const status = message.commandStatus;
+  if (!status) {
+    return { operationStatus: OperationStatus.OPERATIONSTATUS_OK, information: null, informationName: null };
+  }
+  const signed = status.signedMessageStatus?.signedMessageInformation;
+  const whitelist = status.whitelistOperationStatus?.whitelistOperationInformation;
+  let information: number | null = null;
+  let informationName: string | null = null;
+  if (signed) {
+    information = signed;
+    informationName = enumValueName('VCSEC.SignedMessage_information_E', signed);
+  } else if (whitelist) {
+    information = whitelist;
+    informationName = enumValueName('VCSEC.WhitelistOperation_information_E', whitelist);
+  }
+  return {
+    operationStatus: status.operationStatus ?? OperationStatus.OPERATIONSTATUS_OK,
+    information,
+    informationName,
+  };
+}
+
+export function assertVcsecSucceeded(
+  message: any,
+  command: SecurityCommandType | WhitelistOperationType | null = null,
+): void {
+  const genericError = message.nominalError?.genericError;
+  if (genericError) {
+    const name = enumValueName('Errors.GenericError_E', genericError) ?? `error ${genericError}`;
+    throw new VcsecCommandError(formatEnumName(name, 'GENERICERROR_'), OperationStatus.OPERATIONSTATUS_ERROR, command);
+  }
+  const status = decodeVcsecCommandStatus(message);
+  if (status.operationStatus === OperationStatus.OPERATIONSTATUS_OK) {
+    return;
+  }
+  throw new VcsecCommandError(commandStatusReason(status), status.operationStatus, command);
+}
+
+/**
+ * Interprets one reply to an add-key request. Returns null while the car is
+ * still waiting for the key card tap.
+ */
+export function decodeEnrollmentReply(message: any): KeyEnrollmentResult | null {
+  const genericError = message.nominalError?.genericError;
+  if (genericError) {
+    const name = enumValueName('Errors.GenericError_E', genericError) ?? `error ${genericError}`;
+    return { status: 'rejected', reason: formatEnumName(name, 'GENERICERROR_') };
+  }
+  const status = decodeVcsecCommandStatus(message);
+  switch (status.operationStatus) {
+    case OperationStatus.OPERATIONSTATUS_OK:
+      return { status: 'approved', reason: null };
+    case OperationStatus.OPERATIONSTATUS_WAIT:
+      return null;
+    default:
+      return {
+        status: ENROLLMENT_TIMEOUTS.has(status.information ?? 0) ? 'timedOut' : 'rejected',
+        reason: commandStatusReason(status),
+      };
+  }
+}
+
+function commandStatusReason(status: VcsecCommandStatus): string {
+  if (status.informationName) {
+    return formatEnumName(status.informationName, /^(SIGNEDMESSAGE|WHITELISTOPERATION)_INFORMATION_(FAULT_)?/);
+  }
+  return status.operationStatus === OperationStatus.OPERATIONSTATUS_WAIT ? 'busy' : 'unknown error';
+}
+
+function formatEnumName(name: string, prefix: string | RegExp): string {
+  return name.replace(prefix, '').toLowerCase();
+}
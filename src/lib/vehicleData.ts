@@ -0,0 +1,98 @@
+import protobuf from 'protobufjs';
+import type { VehicleData } from './vehicleDataTypes';
+
+export type {
+  ChargeSchedule,
+  ChargeScheduleState,
+  ChargeState,
+  ChargerType,
+  ChargingState,
+  ClimateKeeperMode,
+  ClimateState,
+  ClosuresState,
+  DriveState,
+  LatLong,
+  LocationState,
+  MediaDetailState,
+  MediaPlaybackStatus,
+  MediaState,
+  ParentalControlsState,
+  PreconditioningScheduleState,
+  PreconditionSchedule,
+  SentryModeState,
+  ShiftState,
+  SoftwareUpdateState,
+  TirePressureState,
+  VehicleData,
+} from './vehicleDataTypes';
+
+const { Enum, Type } = protobuf;
+
+const TIMESTAMP_TYPE = '.google.protobuf.Timestamp';
+
+/**
+ * Turns the `toObject` form of `CarServer.VehicleData` into the shapes in
+ * vehicleDataTypes.ts: missing optional fields are null, oneofs of `Void`
+ * and enums are their names, timestamps are epoch milliseconds. The type
+ * generator follows the same rules, so keep the two in step.
+ */
+export function normalizeVehicleData(type: protobuf.Type, raw: unknown): VehicleData {
+  return normalizeMessage(type, raw ?? {}) as VehicleData;
+}
+
+function normalizeMessage(type: protobuf.Type, value: any): unknown {
+  if (type.fullName === TIMESTAMP_TYPE) {
+    return (value.seconds ?? 0) * 1000 + Math.round((value.nanos ?? 0) / 1e6);
+  }
+  if (isVoidUnion(type)) {
+    return type.fieldsArray.find((field) => value[field.name] != null)?.name ?? null;
+  }
+  const result: Record<string, unknown> = {};
+  for (const field of type.fieldsArray) {
+    const { resolvedType } = field.resolve();
+    const fieldValue = value[field.name];
+    if (field.repeated) {
+      result[field.name] = Array.isArray(fieldValue) ? fieldValue.map((item) => normalizeField(resolvedType, item)) : [];
+    } else if (fieldValue === undefined || fieldValue === null) {
+      result[field.name] = field.partOf || resolvedType instanceof Type ? null : defaultValue(resolvedType, field.type);
+    } else {
+      result[field.name] = normalizeField(resolvedType, fieldValue);
+    }
+  }
+  return result;
+}
+
+function normalizeField(resolvedType: protobuf.Type | protobuf.Enum | null, value: any): unknown {
+  if (resolvedType instanceof Type) {
+    return resolvedType.fieldsArray.length === 0 ? true : normalizeMessage(resolvedType, value);
+  }
+  if (resolvedType instanceof Enum) {
+    return resolvedType.valuesById[value] ?? null;
+  }
+  return value;
+}
+
+function defaultValue(resolvedType: protobuf.Type | protobuf.Enum | null, scalarType: string): unknown {
+  if (resolvedType instanceof Enum) {
+    return resolvedType.valuesById[0] ?? null;
+  }
+  switch (scalarType) {
+    case 'bool':
+      return false;
+    case 'string':
+      return '';
+    case 'bytes':
+      return [];
+    default:
+      return 0;
+  }
+}
+
+/** Messages such as ShiftState whose fields are all `Void`: only the name of the set field matters. */
+function isVoidUnion(type: protobuf.Type): boolean {
+  return type.fieldsArray.length > 0
+    && type.fieldsArray.every((field) => {
+      const { resolvedType } = field.resolve();
+      return resolvedType instanceof Type && resolvedType.fieldsArray.length === 0;
+    });
+}
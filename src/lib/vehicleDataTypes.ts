@@ -0,0 +1,614 @@
+// Generated by scripts/generate-vehicle-data-types.js from protos.json. Do not edit by hand.
+// Shapes returned by normalizeVehicleData(); see src/lib/vehicleData.ts.
+
+export interface VehicleData {
+  chargeState: ChargeState | null;
+  climateState: ClimateState | null;
+  driveState: DriveState | null;
+  locationState: LocationState | null;
+  closuresState: ClosuresState | null;
+  chargeScheduleState: ChargeScheduleState | null;
+  preconditioningScheduleState: PreconditioningScheduleState | null;
+  tirePressureState: TirePressureState | null;
+  mediaState: MediaState | null;
+  mediaDetailState: MediaDetailState | null;
+  softwareUpdateState: SoftwareUpdateState | null;
+  parentalControlsState: ParentalControlsState | null;
+}
+
+export interface ChargeState {
+  chargingState: ChargingState | null;
+  fastChargerType: ChargerType | null;
+  fastChargerBrand: ChargerBrand | null;
+  chargeLimitSoc: number | null;
+  chargeLimitSocStd: number | null;
+  chargeLimitSocMin: number | null;
+  chargeLimitSocMax: number | null;
+  maxRangeChargeCounter: number | null;
+  fastChargerPresent: boolean | null;
+  batteryRange: number | null;
+  estBatteryRange: number | null;
+  idealBatteryRange: number | null;
+  batteryLevel: number | null;
+  usableBatteryLevel: number | null;
+  chargeEnergyAdded: number | null;
+  chargeMilesAddedRated: number | null;
+  chargeMilesAddedIdeal: number | null;
+  chargerVoltage: number | null;
+  chargerPilotCurrent: number | null;
+  chargerActualCurrent: number | null;
+  chargerPower: number | null;
+  minutesToFullCharge: number | null;
+  minutesToChargeLimit: number | null;
+  tripCharging: boolean | null;
+  chargeRateMph: number | null;
+  chargePortDoorOpen: boolean | null;
+  connChargeCable: CableType | null;
+  scheduledChargingStartTime: number | null;
+  scheduledChargingPending: boolean | null;
+  scheduledDepartureTime: number | null;
+  userChargeEnableRequest: boolean | null;
+  chargeEnableRequest: boolean | null;
+  chargerPhases: number | null;
+  chargePortLatch: ChargePortLatchState | null;
+  chargePortColdWeatherMode: boolean | null;
+  chargeCurrentRequest: number | null;
+  chargeCurrentRequestMax: number | null;
+  managedChargingActive: boolean | null;
+  managedChargingUserCanceled: boolean | null;
+  managedChargingStartTime: number | null;
+  timestamp: number | null;
+  preconditioningTimes: PreconditioningTimes | null;
+  offPeakChargingTimes: OffPeakChargingTimes | null;
+  offPeakHoursEndTime: number | null;
+  scheduledChargingMode: ScheduledChargingMode | null;
+  chargingAmps: number | null;
+  scheduledChargingStartTimeMinutes: number | null;
+  scheduledDepartureTimeMinutes: number | null;
+  preconditioningEnabled: boolean | null;
+  scheduledChargingStartTimeApp: number | null;
+  superchargerSessionTripPlanner: boolean | null;
+  chargePortColor: ChargePortColor | null;
+  chargeRateMphFloat: number | null;
+  chargeLimitReason: ChargeLimitReason | null;
+  managedChargingState: ManagedChargingState | null;
+  chargeCableUnlatched: boolean | null;
+  outletState: OutletState | null;
+  powerFeedState: PowerFeedState | null;
+  outletSocLimit: number | null;
+  powerFeedSocLimit: number | null;
+  outletTimeRemaining: number | null;
+  powerFeedTimeRemaining: number | null;
+  powershareFeatureAllowed: boolean | null;
+  powershareFeatureEnabled: boolean | null;
+  powershareRequest: boolean | null;
+  powershareType: PowershareType | null;
+  powershareStatus: PowershareStatus | null;
+  powershareStopReason: PowershareStopReason | null;
+  powershareInstantaneousLoadKw: number | null;
+  powershareVehicleEnergyLeftHr: number | null;
+  powershareSocLimit: number | null;
+  oneTimeSocLimit: number | null;
+  homeLocation: LatLong | null;
+  workLocation: LatLong | null;
+  outletMaxTimerMinutes: number | null;
+}
+
+export type ChargingState =
+  | 'Unknown'
+  | 'Disconnected'
+  | 'NoPower'
+  | 'Starting'
+  | 'Charging'
+  | 'Complete'
+  | 'Stopped'
+  | 'Calibrating';
+
+export type ChargerType =
+  | 'SNA'
+  | 'Supercharger'
+  | 'Chademo'
+  | 'Gb'
+  | 'ACSingleWireCAN'
+  | 'Combo'
+  | 'MCSingleWireCAN'
+  | 'Other'
+  | 'Tesla';
+
+export type ChargerBrand =
+  | 'Tesla'
+  | 'SNA';
+
+export type CableType =
+  | 'SNA'
+  | 'IEC'
+  | 'SAE'
+  | 'GB_AC'
+  | 'GB_DC';
+
+export type ChargePortLatchState =
+  | 'SNA'
+  | 'Disengaged'
+  | 'Engaged'
+  | 'Blocking';
+
+export type PreconditioningTimes =
+  | 'allWeek'
+  | 'weekdays';
+
+export type OffPeakChargingTimes =
+  | 'allWeek'
+  | 'weekdays';
+
+export type ScheduledChargingMode =
+  | 'ScheduledChargingModeOff'
+  | 'ScheduledChargingModeStartAt'
+  | 'ScheduledChargingModeDepartBy';
+
+export type ChargePortColor =
+  | 'ChargePortColorOff'
+  | 'ChargePortColorRed'
+  | 'ChargePortColorGreen'
+  | 'ChargePortColorBlue'
+  | 'ChargePortColorWhite'
+  | 'ChargePortColorFlashingGreen'
+  | 'ChargePortColorFlashingAmber'
+  | 'ChargePortColorAmber'
+  | 'ChargePortColorRave'
+  | 'ChargePortColorDebug'
+  | 'ChargePortColorFlashingBlue';
+
+export type ChargeLimitReason =
+  | 'ChargeLimitReasonUnknown'
+  | 'ChargeLimitReasonNone'
+  | 'ChargeLimitReasonEvse'
+  | 'ChargeLimitReasonBattTempLow'
+  | 'ChargeLimitReasonHighSoc'
+  | 'ChargeLimitReasonCabin';
+
+export interface ManagedChargingState {
+  chargeOnSolarState: ChargeOnSolarState | null;
+  chargeOnSolarGatewayDin: string | null;
+  teslaElectricAssetId: string | null;
+  minutesToLowerLimit: number | null;
+}
+
+export interface ChargeOnSolarState {
+  notAllowed: boolean | null;
+  noChargeRecommended: ChargeOnSolarStateNoChargeRecommended | null;
+  chargingOnExcessSolar: boolean | null;
+  chargingOnAnything: boolean | null;
+  userDisabled: boolean | null;
+  waitingForServer: boolean | null;
+  error: boolean | null;
+  userStopped: boolean | null;
+}
+
+export interface ChargeOnSolarStateNoChargeRecommended {
+  reason: ChargeOnSolarNoChargeReason;
+}
+
+export type ChargeOnSolarNoChargeReason =
+  | 'CHARGE_ON_SOLAR_NO_CHARGE_REASON_INVALID'
+  | 'CHARGE_ON_SOLAR_NO_CHARGE_REASON_POWERWALL_CHARGE_PRIORITY'
+  | 'CHARGE_ON_SOLAR_NO_CHARGE_REASON_INSUFFICIENT_SOLAR'
+  | 'CHARGE_ON_SOLAR_NO_CHARGE_REASON_GRID_EXPORT_PRIORITY'
+  | 'CHARGE_ON_SOLAR_NO_CHARGE_REASON_ALTERNATE_VEHICLE_CHARGE_PRIORITY';
+
+export type OutletState =
+  | 'OutletStateOff'
+  | 'OutletStateCabinAndBed'
+  | 'OutletStateCabin';
+
+export type PowerFeedState =
+  | 'PowerFeedStateOff'
+  | 'PowerFeedStateCabinAndBed'
+  | 'PowerFeedStateCabin';
+
+export type PowershareType =
+  | 'PowershareTypeNone'
+  | 'PowershareTypeLoad'
+  | 'PowershareTypeHome';
+
+export type PowershareStatus =
+  | 'PowershareStatusInactive'
+  | 'PowershareStatusInit'
+  | 'PowershareStatusActive'
+  | 'PowershareStatusStopped'
+  | 'PowershareStatusHandshaking'
+  | 'PowershareStatusActiveReconnectingSoon';
+
+export type PowershareStopReason =
+  | 'PowershareStopReasonNone'
+  | 'PowershareStopReasonSOCTooLow'
+  | 'PowershareStopReasonRetry'
+  | 'PowershareStopReasonFault'
+  | 'PowershareStopReasonUser'
+  | 'PowershareStopReasonReconnecting'
+  | 'PowershareStopReasonAuthentication';
+
+export interface LatLong {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ClimateState {
+  insideTempCelsius: number | null;
+  outsideTempCelsius: number | null;
+  driverTempSetting: number | null;
+  passengerTempSetting: number | null;
+  leftTempDirection: number | null;
+  rightTempDirection: number | null;
+  isFrontDefrosterOn: boolean | null;
+  isRearDefrosterOn: boolean | null;
+  fanStatus: number | null;
+  isClimateOn: boolean | null;
+  minAvailTempCelsius: number | null;
+  maxAvailTempCelsius: number | null;
+  seatHeaterLeft: number | null;
+  seatHeaterRight: number | null;
+  seatHeaterRearLeft: number | null;
+  seatHeaterRearRight: number | null;
+  seatHeaterRearCenter: number | null;
+  seatHeaterRearRightBack: number | null;
+  seatHeaterRearLeftBack: number | null;
+  seatHeaterThirdRowRight: number | null;
+  seatHeaterThirdRowLeft: number | null;
+  batteryHeater: boolean | null;
+  batteryHeaterNoPower: boolean | null;
+  steeringWheelHeater: boolean | null;
+  wiperBladeHeater: boolean | null;
+  sideMirrorHeaters: boolean | null;
+  isPreconditioning: boolean | null;
+  remoteHeaterControlEnabled: boolean | null;
+  climateKeeperMode: ClimateKeeperMode | null;
+  timestamp: number | null;
+  bioweaponModeOn: boolean | null;
+  defrostMode: DefrostMode | null;
+  isAutoConditioningOn: boolean | null;
+  autoSeatClimateLeft: boolean | null;
+  autoSeatClimateRight: boolean | null;
+  seatFanFrontLeft: number | null;
+  seatFanFrontRight: number | null;
+  allowCabinOverheatProtection: boolean | null;
+  supportsFanOnlyCabinOverheatProtection: boolean | null;
+  cabinOverheatProtection: CabinOverheatProtection | null;
+  cabinOverheatProtectionActivelyCooling: boolean | null;
+  copActivationTemperature: CopActivationTemp | null;
+  autoSteeringWheelHeat: boolean | null;
+  steeringWheelHeatLevel: StwHeatLevel | null;
+  hvacAutoRequest: HvacAutoRequest | null;
+  copNotRunningReason: COPNotRunningReason | null;
+}
+
+export type ClimateKeeperMode =
+  | 'Unknown'
+  | 'Off'
+  | 'On'
+  | 'Dog'
+  | 'Party';
+
+export type DefrostMode =
+  | 'Off'
+  | 'Normal'
+  | 'Max';
+
+export type CabinOverheatProtection =
+  | 'CabinOverheatProtectionOff'
+  | 'CabinOverheatProtectionOn'
+  | 'CabinOverheatProtectionFanOnly';
+
+export type CopActivationTemp =
+  | 'CopActivationTempUnspecified'
+  | 'CopActivationTempLow'
+  | 'CopActivationTempMedium'
+  | 'CopActivationTempHigh';
+
+export type StwHeatLevel =
+  | 'StwHeatLevel_Unknown'
+  | 'StwHeatLevel_Off'
+  | 'StwHeatLevel_Low'
+  | 'StwHeatLevel_High';
+
+export type HvacAutoRequest =
+  | 'HvacAutoRequestOn'
+  | 'HvacAutoRequestOverride';
+
+export type COPNotRunningReason =
+  | 'COPNotRunningReasonNoReason'
+  | 'COPNotRunningReasonUserInteraction'
+  | 'COPNotRunningReasonEnergyConsumptionReached'
+  | 'COPNotRunningReasonTimeout'
+  | 'COPNotRunningReasonLowSolarLoad'
+  | 'COPNotRunningReasonFault'
+  | 'COPNotRunningReasonCabinBelowThreshold';
+
+export interface DriveState {
+  shiftState: ShiftState | null;
+  speed: number | null;
+  power: number | null;
+  timestamp: number | null;
+  odometerInHundredthsOfAMile: number | null;
+  speedFloat: number | null;
+  activeRouteDestination: string | null;
+  activeRouteMinutesToArrival: number | null;
+  activeRouteMilesToArrival: number | null;
+  activeRouteTrafficMinutesDelay: number | null;
+  activeRouteEnergyAtArrival: number | null;
+  lastRouteUpdate: number | null;
+  lastTrafficUpdate: number | null;
+  activeRouteCoordinates: LatLong | null;
+}
+
+export type ShiftState =
+  | 'Invalid'
+  | 'P'
+  | 'R'
+  | 'N'
+  | 'D'
+  | 'SNA';
+
+export interface LocationState {
+  latitude: number | null;
+  longitude: number | null;
+  heading: number | null;
+  gpsAsOf: number | null;
+  nativeLocationSupported: boolean | null;
+  nativeLatitude: number | null;
+  nativeLongitude: number | null;
+  nativeType: GPSCoordinateType | null;
+  correctedLatitude: number | null;
+  correctedLongitude: number | null;
+  timestamp: number | null;
+  homelinkNearby: boolean | null;
+  locationName: string | null;
+  geoLatitude: number | null;
+  geoLongitude: number | null;
+  geoHeading: number | null;
+  geoElevation: number | null;
+  geoAccuracy: number | null;
+  estimatedGpsValid: boolean | null;
+  estimatedToRawDistance: number | null;
+}
+
+export type GPSCoordinateType =
+  | 'GCJ'
+  | 'WGS';
+
+export interface ClosuresState {
+  doorOpenDriverFront: boolean | null;
+  doorOpenDriverRear: boolean | null;
+  doorOpenPassengerFront: boolean | null;
+  doorOpenPassengerRear: boolean | null;
+  doorOpenTrunkFront: boolean | null;
+  doorOpenTrunkRear: boolean | null;
+  windowOpenDriverFront: boolean | null;
+  windowOpenPassengerFront: boolean | null;
+  windowOpenDriverRear: boolean | null;
+  windowOpenPassengerRear: boolean | null;
+  sunRoofState: SunRoofState | null;
+  sunRoofPercentOpen: number | null;
+  locked: boolean | null;
+  isUserPresent: boolean | null;
+  centerDisplayState: DisplayState | null;
+  remoteStart: boolean | null;
+  valetMode: boolean | null;
+  valetPinNeeded: boolean | null;
+  sentryModeState: SentryModeState | null;
+  sentryModeAvailable: boolean | null;
+  speedLimitMode: SpeedLimitMode | null;
+  tonneauState: ClosureState | null;
+  tonneauPercentOpen: number | null;
+  tonneauInMotion: boolean | null;
+  timestamp: number | null;
+}
+
+export type SunRoofState =
+  | 'Unknown'
+  | 'Calibrating'
+  | 'Closed'
+  | 'Open'
+  | 'Moving'
+  | 'Vent';
+
+export type DisplayState =
+  | 'Off'
+  | 'Dim'
+  | 'Accessory'
+  | 'On'
+  | 'Driving'
+  | 'Charging'
+  | 'Lock'
+  | 'Sentry'
+  | 'Dog'
+  | 'Entertainment';
+
+export type SentryModeState =
+  | 'Off'
+  | 'Idle'
+  | 'Armed'
+  | 'Aware'
+  | 'Panic'
+  | 'Quiet';
+
+export interface SpeedLimitMode {
+  active: boolean | null;
+  pinCodeSet: boolean | null;
+  maxLimitMph: number | null;
+  minLimitMph: number | null;
+  currentLimitMph: number | null;
+}
+
+export type ClosureState =
+  | 'CLOSURESTATE_CLOSED'
+  | 'CLOSURESTATE_OPEN'
+  | 'CLOSURESTATE_AJAR'
+  | 'CLOSURESTATE_UNKNOWN'
+  | 'CLOSURESTATE_FAILED_UNLATCH'
+  | 'CLOSURESTATE_OPENING'
+  | 'CLOSURESTATE_CLOSING';
+
+export interface ChargeScheduleState {
+  chargeSchedules: ChargeSchedule[];
+  chargeScheduleWindow: ChargeSchedule | null;
+  chargeBuffer: number | null;
+  maxNumChargeSchedules: number | null;
+  nextSchedule: boolean | null;
+  showScheduleCompleteState: boolean | null;
+  timestamp: number | null;
+}
+
+export interface ChargeSchedule {
+  id: number;
+  name: string;
+  daysOfWeek: number;
+  startEnabled: boolean;
+  startTime: number;
+  endEnabled: boolean;
+  endTime: number;
+  oneTime: boolean;
+  enabled: boolean;
+  latitude: number;
+  longitude: number;
+}
+
+export interface PreconditioningScheduleState {
+  preconditionSchedules: PreconditionSchedule[];
+  preconditioningScheduleWindow: PreconditionSchedule | null;
+  maxNumPreconditionSchedules: number | null;
+  nextSchedule: boolean | null;
+  timestamp: number | null;
+}
+
+export interface PreconditionSchedule {
+  id: number;
+  name: string;
+  daysOfWeek: number;
+  preconditionTime: number;
+  oneTime: boolean;
+  enabled: boolean;
+  latitude: number;
+  longitude: number;
+}
+
+export interface TirePressureState {
+  timestamp: number | null;
+  tpmsPressureFl: number | null;
+  tpmsPressureFr: number | null;
+  tpmsPressureRl: number | null;
+  tpmsPressureRr: number | null;
+  tpmsLastSeenPressureTimeFl: number | null;
+  tpmsLastSeenPressureTimeFr: number | null;
+  tpmsLastSeenPressureTimeRl: number | null;
+  tpmsLastSeenPressureTimeRr: number | null;
+  tpmsHardWarningFl: boolean | null;
+  tpmsHardWarningFr: boolean | null;
+  tpmsHardWarningRl: boolean | null;
+  tpmsHardWarningRr: boolean | null;
+  tpmsSoftWarningFl: boolean | null;
+  tpmsSoftWarningFr: boolean | null;
+  tpmsSoftWarningRl: boolean | null;
+  tpmsSoftWarningRr: boolean | null;
+  tpmsRcpFrontValue: number | null;
+  tpmsRcpRearValue: number | null;
+}
+
+export interface MediaState {
+  timestamp: number | null;
+  remoteControlEnabled: boolean | null;
+  nowPlayingArtist: string | null;
+  nowPlayingTitle: string | null;
+  audioVolume: number | null;
+  audioVolumeIncrement: number | null;
+  audioVolumeMax: number | null;
+  nowPlayingSource: MediaSourceType | null;
+  mediaPlaybackStatus: MediaPlaybackStatus | null;
+}
+
+export type MediaSourceType =
+  | 'MediaSourceType_None'
+  | 'MediaSourceType_AM'
+  | 'MediaSourceType_FM'
+  | 'MediaSourceType_XM'
+  | 'MediaSourceType_Slacker'
+  | 'MediaSourceType_LocalFiles'
+  | 'MediaSourceType_iPod'
+  | 'MediaSourceType_Bluetooth'
+  | 'MediaSourceType_AuxIn'
+  | 'MediaSourceType_DAB'
+  | 'MediaSourceType_Rdio'
+  | 'MediaSourceType_Spotify'
+  | 'MediaSourceType_USRadio'
+  | 'MediaSourceType_EURadio'
+  | 'MediaSourceType_MediaFile'
+  | 'MediaSourceType_TuneIn'
+  | 'MediaSourceType_Stingray'
+  | 'MediaSourceType_SiriusXM'
+  | 'MediaSourceType_Tidal'
+  | 'MediaSourceType_QQMusic'
+  | 'MediaSourceType_QQMusic2'
+  | 'MediaSourceType_Ximalaya'
+  | 'MediaSourceType_OnlineRadio'
+  | 'MediaSourceType_OnlineRadio2'
+  | 'MediaSourceType_NetEaseMusic'
+  | 'MediaSourceType_Browser'
+  | 'MediaSourceType_Theater'
+  | 'MediaSourceType_Game'
+  | 'MediaSourceType_Tutorial'
+  | 'MediaSourceType_Toybox'
+  | 'MediaSourceType_RecentsFavorites'
+  | 'MediaSourceType_HomeApps'
+  | 'MediaSourceType_Search';
+
+export type MediaPlaybackStatus =
+  | 'Stopped'
+  | 'Playing'
+  | 'Paused';
+
+export interface MediaDetailState {
+  timestamp: number | null;
+  nowPlayingDuration: number | null;
+  nowPlayingElapsed: number | null;
+  nowPlayingSourceString: string | null;
+  nowPlayingAlbum: string | null;
+  nowPlayingStation: string | null;
+  a2dpSourceName: string | null;
+}
+
+export interface SoftwareUpdateState {
+  status: SoftwareUpdateStatus | null;
+  scheduledTimeMs: number | null;
+  warningTimeRemainingMs: number | null;
+  expectedDurationSec: number | null;
+  downloadPerc: number | null;
+  installPerc: number | null;
+  version: string | null;
+  timestamp: number | null;
+}
+
+export type SoftwareUpdateStatus =
+  | 'Unknown'
+  | 'Installing'
+  | 'Scheduled'
+  | 'Available'
+  | 'DownloadingWifiWait'
+  | 'Downloading';
+
+export interface ParentalControlsState {
+  timestamp: number | null;
+  parentalControlsActive: boolean | null;
+  parentalControlsPinSet: boolean | null;
+  parentalControlsSettings: ParentalControlsSettings | null;
+}
+
+export interface ParentalControlsSettings {
+  speedLimitEnabled: boolean | null;
+  maxLimitMph: number | null;
+  minLimitMph: number | null;
+  currentLimitMph: number | null;
+  chillAccelerationEnabled: boolean | null;
+  requireSafetySettingsEnabled: boolean | null;
+  curfewEnabled: boolean | null;
+  curfewStartTime: number | null;
+  curfewEndTime: number | null;
+}
@@ -0,0 +1,485 @@
+import { useCallback, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+import {
+  DAY_NAMES,
+  EVERY_DAY,
+  chargeScheduleFromInput,
+  chargeScheduleInput,
+  formatScheduleDays,
+  formatScheduleWindow,
+  formatTimeOfDay,
+  nextChargeScheduleId,
+} from '@lib/chargeSchedules';
+import type { ChargeScheduleInput } from '@lib/commands';
+import { StateCategory } from '@lib/session';
+import type { ChargeSchedule, ChargeScheduleState, ChargeState } from '@lib/vehicleData';
+import { AppButton } from '@components/AppButton';
+import { BatteryIndicator, ChargingPanel, isCharging } from '@components/ChargePanel';
+import { Stepper } from '@components/Stepper';
+import { useOptimisticState } from '@app/useOptimisticState';
+import { telemetry } from '@app/vehicleConnection';
+import { useVehicleStore } from '@state/vehicleStore';
+
+const LIMIT_STEP_PERCENT = 1;
+const DEFAULT_MIN_LIMIT_PERCENT = 50;
+const DEFAULT_MAX_LIMIT_PERCENT = 100;
+const DEFAULT_MAX_AMPS = 48;
+const TIME_STEP_MINUTES = 15;
+const MINUTES_PER_DAY = 24 * 60;
+
+interface ScheduleDraft {
+  name: string;
+  daysOfWeek: number;
+  startEnabled: boolean;
+  startTime: number;
+  endEnabled: boolean;
+  endTime: number;
+}
+
+const EMPTY_DRAFT: ScheduleDraft = {
+  name: '',
+  daysOfWeek: EVERY_DAY,
+  startEnabled: true,
+  startTime: 23 * 60,
+  endEnabled: false,
+  endTime: 6 * 60,
+};
+
+/**
+ * Charge controls and schedules. Everything goes to the car over Bluetooth,
+ * so it also works where the car has no cellular signal.
+ */
+export function ChargingScreen() {
+  const chargeResult = useVehicleStore((state) => state.chargeState);
+  const scheduleResult = useVehicleStore((state) => state.chargeScheduleState);
+  const chargeRequestedAt = useVehicleStore((state) => state.stateRequestedAt[StateCategory.Charge] ?? null);
+  const scheduleRequestedAt = useVehicleStore((state) => state.stateRequestedAt[StateCategory.ChargeSchedule] ?? null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [draft, setDraft] = useState<ScheduleDraft>(EMPTY_DRAFT);
+
+  const charge = useOptimisticState<ChargeState>(chargeResult?.vehicleData.chargeState ?? null, chargeRequestedAt);
+  const schedules = useOptimisticState<ChargeScheduleState>(
+    scheduleResult?.vehicleData.chargeScheduleState ?? null,
+    scheduleRequestedAt,
+  );
+  const { send: sendCharge, setError: setChargeError } = charge;
+  const { send: sendSchedule, setError: setScheduleError } = schedules;
+  const scheduleList = schedules.state?.chargeSchedules ?? [];
+
+  const handleRefresh = useCallback(async () => {
+    try {
+      setRefreshing(true);
+      setChargeError(null);
+      await telemetry.refresh([StateCategory.Charge, StateCategory.ChargeSchedule]);
+    } catch (failure) {
+      setChargeError(`Refresh failed: ${failure instanceof Error ? failure.message : String(failure)}`);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [setChargeError]);
+
+  const saveSchedule = useCallback(
+    (schedule: ChargeScheduleInput, label: string) => {
+      const saved = chargeScheduleFromInput(schedule);
+      const exists = scheduleList.some((item) => item.id === schedule.id);
+      const next = exists
+        ? scheduleList.map((item) => (item.id === schedule.id ? saved : item))
+        : [...scheduleList, saved];
+      return sendSchedule(label, { type: 'addChargeSchedule', schedule }, { chargeSchedules: next });
+    },
+    [scheduleList, sendSchedule],
+  );
+
+  const handleAddSchedule = useCallback(() => {
+    const position = useVehicleStore.getState().telemetryLog.lastLocated();
+    if (!position || position.latitude == null || position.longitude == null) {
+      setScheduleError('Vehicle location unknown. Schedules apply at a location; fetch Location first.');
+      return;
+    }
+    if (!draft.daysOfWeek) {
+      setScheduleError('Pick at least one day.');
+      return;
+    }
+    void saveSchedule(
+      {
+        id: nextChargeScheduleId(scheduleList),
+        name: draft.name.trim() || undefined,
+        daysOfWeek: draft.daysOfWeek,
+        startEnabled: draft.startEnabled,
+        startTime: draft.startTime,
+        endEnabled: draft.endEnabled,
+        endTime: draft.endTime,
+        enabled: true,
+        latitude: position.latitude,
+        longitude: position.longitude,
+      },
+      'Add schedule',
+    );
+    setDraft(EMPTY_DRAFT);
+  }, [draft, saveSchedule, scheduleList, setScheduleError]);
+
+  const handleRemoveSchedule = useCallback(
+    (schedule: ChargeSchedule) => {
+      void sendSchedule(
+        'Remove schedule',
+        { type: 'removeChargeSchedule', id: schedule.id },
+        { chargeSchedules: scheduleList.filter((item) => item.id !== schedule.id) },
+      );
+    },
+    [scheduleList, sendSchedule],
+  );
+
+  const handleRemoveAllSchedules = useCallback(() => {
+    Alert.alert('Remove all schedules?', 'Every charge schedule on the vehicle will be deleted.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          void sendSchedule(
+            'Remove schedules',
+            { type: 'batchRemoveChargeSchedules', home: true, work: true, other: true },
+            { chargeSchedules: [] },
+          );
+        },
+      },
+    ]);
+  }, [sendSchedule]);
+
+  const state = charge.state;
+  if (!state) {
+    return (
+      <View style={[styles.container, styles.empty]}>
+        <Text style={styles.hint}>No charge data yet. Start auto refresh or fetch it now.</Text>
+        <AppButton label="Fetch Charge State" onPress={handleRefresh} disabled={refreshing} variant="primary" />
+        {charge.error && <Text style={styles.error}>{charge.error}</Text>}
+      </View>
+    );
+  }
+
+  const charging = isCharging(state);
+  const pluggedIn = state.chargingState !== null && state.chargingState !== 'Disconnected';
+  const limit = state.chargeLimitSoc ?? DEFAULT_MIN_LIMIT_PERCENT;
+  const minLimit = state.chargeLimitSocMin ?? DEFAULT_MIN_LIMIT_PERCENT;
+  const maxLimit = state.chargeLimitSocMax ?? DEFAULT_MAX_LIMIT_PERCENT;
+  const amps = state.chargingAmps ?? state.chargeCurrentRequest ?? 1;
+  const maxAmps = state.chargeCurrentRequestMax ?? DEFAULT_MAX_AMPS;
+  const scheduledStart = state.scheduledChargingMode === 'ScheduledChargingModeStartAt';
+  const scheduledStartTime = state.scheduledChargingStartTimeMinutes ?? 0;
+  const maxSchedules = schedules.state?.maxNumChargeSchedules ?? null;
+
+  const setLimit = (percent: number) =>
+    sendCharge('Charge limit', { type: 'chargingSetLimit', percent }, { chargeLimitSoc: percent });
+  const setAmps = (value: number) =>
+    sendCharge('Charging current', { type: 'setChargingAmps', amps: value }, { chargingAmps: value });
+  const setScheduledStart = (enabled: boolean, minutes: number) =>
+    sendCharge(
+      'Scheduled charging',
+      { type: 'scheduledCharging', enabled, minutesAfterMidnight: minutes },
+      {
+        scheduledChargingMode: enabled ? 'ScheduledChargingModeStartAt' : 'ScheduledChargingModeOff',
+        scheduledChargingStartTimeMinutes: minutes,
+      },
+    );
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      {charging ? (
+        <ChargingPanel chargeState={state} />
+      ) : (
+        <View style={styles.fieldGroup}>
+          <BatteryIndicator chargeState={state} />
+          <Text style={styles.hint}>{describeChargeStatus(state)}</Text>
+        </View>
+      )}
+
+      <View style={styles.fieldGroup}>
+        <View style={styles.row}>
+          <AppButton
+            label={charging ? 'Stop Charging' : 'Start Charging'}
+            onPress={() =>
+              charging
+                ? sendCharge('Stop charging', { type: 'chargingStartStop', action: 'stop' }, { chargingState: 'Stopped' })
+                : sendCharge('Start charging', { type: 'chargingStartStop', action: 'start' }, { chargingState: 'Starting' })
+            }
+            disabled={!pluggedIn}
+            variant={charging ? 'danger' : 'primary'}
+            fullWidth
+          />
+        </View>
+        <Stepper
+          label="Charge Limit"
+          value={`${limit}%`}
+          onDecrement={() => setLimit(limit - LIMIT_STEP_PERCENT)}
+          onIncrement={() => setLimit(limit + LIMIT_STEP_PERCENT)}
+          canDecrement={limit > minLimit}
+          canIncrement={limit < maxLimit}
+        />
+        <Stepper
+          label="Current"
+          value={`${amps} A`}
+          onDecrement={() => setAmps(amps - 1)}
+          onIncrement={() => setAmps(amps + 1)}
+          canDecrement={amps > 1}
+          canIncrement={amps < maxAmps}
+        />
+        <View style={styles.row}>
+          <AppButton
+            label="Open Port"
+            onPress={() => sendCharge('Open charge port', { type: 'chargePortDoorOpen' }, { chargePortDoorOpen: true })}
+            disabled={state.chargePortDoorOpen === true}
+            fullWidth
+          />
+          <AppButton
+            label="Close Port"
+            onPress={() => sendCharge('Close charge port', { type: 'chargePortDoorClose' }, { chargePortDoorOpen: false })}
+            disabled={state.chargePortDoorOpen === false}
+            fullWidth
+          />
+        </View>
+        <View style={styles.toggleRow}>
+          <Text style={styles.toggleLabel}>Scheduled Start</Text>
+          <Switch value={scheduledStart} onValueChange={(enabled) => setScheduledStart(enabled, scheduledStartTime)} />
+        </View>
+        {scheduledStart && (
+          <Stepper
+            label="Start At"
+            value={formatTimeOfDay(scheduledStartTime)}
+            onDecrement={() => setScheduledStart(true, wrapMinutes(scheduledStartTime - TIME_STEP_MINUTES))}
+            onIncrement={() => setScheduledStart(true, wrapMinutes(scheduledStartTime + TIME_STEP_MINUTES))}
+          />
+        )}
+        {charge.error && <Text style={styles.error}>{charge.error}</Text>}
+      </View>
+
+      <Text style={styles.heading}>Charge Schedules</Text>
+      <View style={styles.fieldGroup}>
+        <Text style={styles.hint}>
+          Sent over Bluetooth, so schedules can be changed without cellular signal, e.g. in an underground garage.
+        </Text>
+        {!schedules.state && <Text style={styles.hint}>Schedules have not been fetched yet.</Text>}
+        {schedules.state && !scheduleList.length && <Text style={styles.hint}>No schedules.</Text>}
+        {scheduleList.map((schedule) => (
+          <ScheduleRow
+            key={schedule.id}
+            schedule={schedule}
+            onToggle={(enabled) =>
+              saveSchedule(
+                chargeScheduleInput({ ...schedule, enabled }),
+                enabled ? 'Enable schedule' : 'Disable schedule',
+              )
+            }
+            onRemove={() => handleRemoveSchedule(schedule)}
+          />
+        ))}
+        {scheduleList.length > 0 && (
+          <AppButton label="Remove All" onPress={handleRemoveAllSchedules} variant="danger" />
+        )}
+      </View>
+
+      <Text style={styles.heading}>New Schedule</Text>
+      <View style={styles.fieldGroup}>
+        <TextInput
+          value={draft.name}
+          onChangeText={(name) => setDraft((current) => ({ ...current, name }))}
+          placeholder="Name (optional)"
+          placeholderTextColor="#64748b"
+          style={styles.input}
+        />
+        <View style={styles.days}>
+          {DAY_NAMES.map((day, index) => {
+            const selected = Boolean(draft.daysOfWeek & (1 << index));
+            return (
+              <Pressable
+                key={day}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+                onPress={() => setDraft((current) => ({ ...current, daysOfWeek: current.daysOfWeek ^ (1 << index) }))}
+                style={[styles.day, selected && styles.daySelected]}
+              >
+                <Text style={[styles.dayLabel, selected && styles.dayLabelSelected]}>{day.slice(0, 2)}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <View style={styles.toggleRow}>
+          <Text style={styles.toggleLabel}>Start</Text>
+          <Switch
+            value={draft.startEnabled}
+            onValueChange={(startEnabled) => setDraft((current) => ({ ...current, startEnabled }))}
+          />
+        </View>
+        {draft.startEnabled && (
+          <Stepper
+            label="Start At"
+            value={formatTimeOfDay(draft.startTime)}
+            onDecrement={() => setDraft((current) => ({ ...current, startTime: wrapMinutes(current.startTime - TIME_STEP_MINUTES) }))}
+            onIncrement={() => setDraft((current) => ({ ...current, startTime: wrapMinutes(current.startTime + TIME_STEP_MINUTES) }))}
+          />
+        )}
+        <View style={styles.toggleRow}>
+          <Text style={styles.toggleLabel}>End</Text>
+          <Switch
+            value={draft.endEnabled}
+            onValueChange={(endEnabled) => setDraft((current) => ({ ...current, endEnabled }))}
+          />
+        </View>
+        {draft.endEnabled && (
+          <Stepper
+            label="End At"
+            value={formatTimeOfDay(draft.endTime)}
+            onDecrement={() => setDraft((current) => ({ ...current, endTime: wrapMinutes(current.endTime - TIME_STEP_MINUTES) }))}
+            onIncrement={() => setDraft((current) => ({ ...current, endTime: wrapMinutes(current.endTime + TIME_STEP_MINUTES) }))}
+          />
+        )}
+        <AppButton
+          label="Add Schedule"
+          onPress={handleAddSchedule}
+          disabled={!schedules.state || (maxSchedules !== null && scheduleList.length >= maxSchedules)}
+          variant="primary"
+        />
+        {schedules.error && <Text style={styles.error}>{schedules.error}</Text>}
+      </View>
+
+      <AppButton label="Refresh" onPress={handleRefresh} disabled={refreshing} />
+    </ScrollView>
+  );
+}
+
+interface ScheduleRowProps {
+  schedule: ChargeSchedule;
+  onToggle(enabled: boolean): void;
+  onRemove(): void;
+}
+
+function ScheduleRow({ schedule, onToggle, onRemove }: ScheduleRowProps) {
+  return (
+    <View style={styles.scheduleRow}>
+      <View style={styles.scheduleDetails}>
+        <Text style={styles.scheduleTitle}>{schedule.name || `Schedule ${schedule.id}`}</Text>
+        <Text style={styles.scheduleSubtitle}>
+          {`${schedule.oneTime ? 'Once' : formatScheduleDays(schedule.daysOfWeek)} · ${formatScheduleWindow(schedule)}`}
+        </Text>
+      </View>
+      <Switch value={schedule.enabled} onValueChange={onToggle} />
+      <AppButton label="Remove" onPress={onRemove} variant="danger" style={styles.removeButton} />
+    </View>
+  );
+}
+
+function describeChargeStatus(state: ChargeState): string {
+  const parts: string[] = [state.chargingState ?? 'Unknown'];
+  if (state.chargePortDoorOpen != null) {
+    parts.push(state.chargePortDoorOpen ? 'port open' : 'port closed');
+  }
+  if (state.scheduledChargingPending) {
+    parts.push('waiting for scheduled start');
+  }
+  return parts.join(' · ');
+}
+
+function wrapMinutes(minutes: number): number {
+  return ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+    gap: 16,
+    backgroundColor: '#020617',
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#f8fafc',
+    marginBottom: 8,
+  },
+  fieldGroup: {
+    backgroundColor: '#0f172a',
+    borderRadius: 16,
+    padding: 16,
+    gap: 16,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  toggleLabel: {
+    color: '#e2e8f0',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#94a3b8',
+    fontSize: 13,
+  },
+  error: {
+    color: '#f87171',
+    fontSize: 13,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#1e293b',
+    borderRadius: 10,
+    padding: 12,
+    color: '#f8fafc',
+    fontSize: 15,
+  },
+  days: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  day: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+  },
+  daySelected: {
+    backgroundColor: '#312e81',
+    borderColor: '#312e81',
+  },
+  dayLabel: {
+    color: '#94a3b8',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  dayLabelSelected: {
+    color: '#f8fafc',
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  scheduleDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  scheduleTitle: {
+    color: '#e2e8f0',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  scheduleSubtitle: {
+    color: '#94a3b8',
+    fontSize: 13,
+  },
+  removeButton: {
+    minWidth: 0,
+  },
+});
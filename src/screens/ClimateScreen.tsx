@@ -0,0 +1,390 @@
+import { useCallback, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Switch, Text, View } from 'react-native';
+import type { ClimateKeeperMode as ClimateKeeperCommandMode, SeatClimateLevel, SeatPosition } from '@lib/commands';
+import { StateCategory } from '@lib/session';
+import type { ClimateKeeperMode, ClimateState } from '@lib/vehicleData';
+import { AppButton } from '@components/AppButton';
+import { Stepper } from '@components/Stepper';
+import { useOptimisticState } from '@app/useOptimisticState';
+import { telemetry } from '@app/vehicleConnection';
+import { useVehicleStore } from '@state/vehicleStore';
+
+const TEMPERATURE_STEP_CELSIUS = 0.5;
+const DEFAULT_MIN_TEMP_CELSIUS = 15;
+const DEFAULT_MAX_TEMP_CELSIUS = 28;
+
+const SEAT_LEVELS: SeatClimateLevel[] = ['off', 'low', 'medium', 'high'];
+
+type SeatHeaterField =
+  | 'seatHeaterLeft'
+  | 'seatHeaterRight'
+  | 'seatHeaterRearLeft'
+  | 'seatHeaterRearCenter'
+  | 'seatHeaterRearRight';
+
+const FRONT_SEATS: { label: string; seat: SeatPosition; field: SeatHeaterField }[] = [
+  { label: 'Driver', seat: 'frontLeft', field: 'seatHeaterLeft' },
+  { label: 'Passenger', seat: 'frontRight', field: 'seatHeaterRight' },
+];
+
+const REAR_SEATS: { label: string; seat: SeatPosition; field: SeatHeaterField }[] = [
+  { label: 'Rear Left', seat: 'rearLeft', field: 'seatHeaterRearLeft' },
+  { label: 'Rear Center', seat: 'rearCenter', field: 'seatHeaterRearCenter' },
+  { label: 'Rear Right', seat: 'rearRight', field: 'seatHeaterRearRight' },
+];
+
+const KEEPER_MODES: { label: string; mode: ClimateKeeperCommandMode; state: ClimateKeeperMode }[] = [
+  { label: 'Off', mode: 'off', state: 'Off' },
+  { label: 'Keep', mode: 'on', state: 'On' },
+  { label: 'Dog', mode: 'dog', state: 'Dog' },
+  { label: 'Camp', mode: 'camp', state: 'Party' },
+];
+
+/**
+ * Cabin controls. Changes show immediately and are laid over the polled
+ * climate state until a Climate poll sent after the car accepted them arrives.
+ */
+export function ClimateScreen() {
+  const climateResult = useVehicleStore((state) => state.climateState);
+  const requestedAt = useVehicleStore((state) => state.stateRequestedAt[StateCategory.Climate] ?? null);
+  const [refreshing, setRefreshing] = useState(false);
+  const { state: climate, error, setError, send } = useOptimisticState<ClimateState>(
+    climateResult?.vehicleData.climateState ?? null,
+    requestedAt,
+  );
+
+  const handleRefresh = useCallback(async () => {
+    try {
+      setRefreshing(true);
+      setError(null);
+      await telemetry.refresh([StateCategory.Climate]);
+    } catch (failure) {
+      setError(`Refresh failed: ${failure instanceof Error ? failure.message : String(failure)}`);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [setError]);
+
+  if (!climate) {
+    return (
+      <View style={[styles.container, styles.empty]}>
+        <Text style={styles.hint}>No climate data yet. Start auto refresh or fetch it now.</Text>
+        <AppButton label="Fetch Climate" onPress={handleRefresh} disabled={refreshing} variant="primary" />
+        {error && <Text style={styles.error}>{error}</Text>}
+      </View>
+    );
+  }
+
+  const minTemp = climate.minAvailTempCelsius ?? DEFAULT_MIN_TEMP_CELSIUS;
+  const maxTemp = climate.maxAvailTempCelsius ?? DEFAULT_MAX_TEMP_CELSIUS;
+  // Unknown settings step from the bottom of the range.
+  const driverTemp = climate.driverTempSetting ?? minTemp;
+  const passengerTemp = climate.passengerTempSetting ?? driverTemp;
+  const climateOn = Boolean(climate.isClimateOn);
+  const rearSeats = REAR_SEATS.filter(({ field }) => climate[field] != null);
+
+  const setTemperature = (driver: number, passenger: number) => {
+    const driverCelsius = clampTemperature(driver, minTemp, maxTemp);
+    const passengerCelsius = clampTemperature(passenger, minTemp, maxTemp);
+    void send(
+      'Temperature',
+      { type: 'hvacTemperature', driverCelsius, passengerCelsius },
+      { driverTempSetting: driverCelsius, passengerTempSetting: passengerCelsius },
+    );
+  };
+
+  const cycleSeatHeater = (seat: SeatPosition, field: SeatHeaterField) => {
+    const next = ((climate[field] ?? 0) + 1) % SEAT_LEVELS.length;
+    void send('Seat heater', { type: 'hvacSeatHeater', seat, level: SEAT_LEVELS[next] }, { [field]: next });
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.summary}>
+        <View>
+          <Text style={styles.insideTemp}>{formatTemperature(climate.insideTempCelsius)}</Text>
+          <Text style={styles.caption}>Inside</Text>
+        </View>
+        <View style={styles.summaryRight}>
+          <Text style={styles.outsideTemp}>{formatTemperature(climate.outsideTempCelsius)}</Text>
+          <Text style={styles.caption}>Outside</Text>
+        </View>
+      </View>
+      <Text style={styles.hint}>{describeClimateStatus(climate)}</Text>
+
+      <View style={styles.fieldGroup}>
+        <View style={styles.toggleRow}>
+          <Text style={styles.toggleLabel}>Climate</Text>
+          <Switch
+            value={climateOn}
+            onValueChange={(on) =>
+              send('Climate', { type: 'hvacAuto', on }, { isClimateOn: on, isAutoConditioningOn: on })
+            }
+          />
+        </View>
+        <Stepper
+          label="Driver"
+          value={formatTemperature(climate.driverTempSetting)}
+          onDecrement={() => setTemperature(driverTemp - TEMPERATURE_STEP_CELSIUS, passengerTemp)}
+          onIncrement={() => setTemperature(driverTemp + TEMPERATURE_STEP_CELSIUS, passengerTemp)}
+          canDecrement={driverTemp > minTemp}
+          canIncrement={driverTemp < maxTemp}
+        />
+        <Stepper
+          label="Passenger"
+          value={formatTemperature(climate.passengerTempSetting ?? climate.driverTempSetting)}
+          onDecrement={() => setTemperature(driverTemp, passengerTemp - TEMPERATURE_STEP_CELSIUS)}
+          onIncrement={() => setTemperature(driverTemp, passengerTemp + TEMPERATURE_STEP_CELSIUS)}
+          canDecrement={passengerTemp > minTemp}
+          canIncrement={passengerTemp < maxTemp}
+        />
+      </View>
+
+      <Text style={styles.heading}>Seats</Text>
+      <View style={styles.fieldGroup}>
+        <View style={styles.seatRow}>
+          {FRONT_SEATS.map(({ label, seat, field }) => (
+            <SeatHeaterButton
+              key={seat}
+              label={label}
+              level={climate[field]}
+              onPress={() => cycleSeatHeater(seat, field)}
+            />
+          ))}
+        </View>
+        {rearSeats.length > 0 && (
+          <View style={styles.seatRow}>
+            {rearSeats.map(({ label, seat, field }) => (
+              <SeatHeaterButton
+                key={seat}
+                label={label}
+                level={climate[field]}
+                onPress={() => cycleSeatHeater(seat, field)}
+              />
+            ))}
+          </View>
+        )}
+        <View style={styles.toggleRow}>
+          <Text style={styles.toggleLabel}>Steering Wheel Heater</Text>
+          <Switch
+            value={Boolean(climate.steeringWheelHeater)}
+            onValueChange={(on) =>
+              send('Steering wheel heater', { type: 'hvacSteeringWheelHeater', on }, { steeringWheelHeater: on })
+            }
+          />
+        </View>
+      </View>
+
+      <Text style={styles.heading}>Climate Keeper</Text>
+      <View style={styles.fieldGroup}>
+        <View style={styles.segments}>
+          {KEEPER_MODES.map(({ label, mode, state }) => {
+            const selected = (climate.climateKeeperMode ?? 'Off') === state;
+            return (
+              <Pressable
+                key={mode}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+                onPress={() =>
+                  send(`Climate keeper ${label}`, { type: 'climateKeeper', mode }, { climateKeeperMode: state })
+                }
+                style={[styles.segment, selected && styles.segmentSelected]}
+              >
+                <Text style={[styles.segmentLabel, selected && styles.segmentLabelSelected]}>{label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <View style={styles.toggleRow}>
+          <Text style={styles.toggleLabel}>Bioweapon Defense</Text>
+          <Switch
+            value={Boolean(climate.bioweaponModeOn)}
+            onValueChange={(on) =>
+              send('Bioweapon defense', { type: 'hvacBioweaponMode', on }, { bioweaponModeOn: on })
+            }
+          />
+        </View>
+      </View>
+
+      {error && <Text style={styles.error}>{error}</Text>}
+      <AppButton label="Refresh" onPress={handleRefresh} disabled={refreshing} />
+    </ScrollView>
+  );
+}
+
+interface SeatHeaterButtonProps {
+  label: string;
+  level: number | null;
+  onPress(): void;
+}
+
+/** Tapping steps through off, low, medium and high. */
+function SeatHeaterButton({ label, level, onPress }: SeatHeaterButtonProps) {
+  const current = level ?? 0;
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={`${label} seat heater ${SEAT_LEVELS[current] ?? 'off'}`}
+      onPress={onPress}
+      style={({ pressed }) => [styles.seat, pressed && styles.seatPressed]}
+    >
+      <View style={styles.seatLevels}>
+        {[1, 2, 3].map((step) => (
+          <View key={step} style={[styles.seatLevel, current >= step && styles.seatLevelOn]} />
+        ))}
+      </View>
+      <Text style={styles.seatLabel}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function clampTemperature(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.round(value / TEMPERATURE_STEP_CELSIUS) * TEMPERATURE_STEP_CELSIUS));
+}
+
+function formatTemperature(celsius: number | null): string {
+  return celsius == null ? '--' : `${celsius.toFixed(1)}°C`;
+}
+
+function describeClimateStatus(climate: ClimateState): string {
+  const parts = [climate.isClimateOn ? 'Climate on' : 'Climate off'];
+  if (climate.fanStatus) {
+    parts.push(`fan ${climate.fanStatus}`);
+  }
+  if (climate.defrostMode && climate.defrostMode !== 'Off') {
+    parts.push(`defrost ${climate.defrostMode.toLowerCase()}`);
+  }
+  if (climate.isPreconditioning) {
+    parts.push('preconditioning');
+  }
+  return parts.join(' · ');
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+    gap: 16,
+    backgroundColor: '#020617',
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  summaryRight: {
+    alignItems: 'flex-end',
+  },
+  insideTemp: {
+    color: '#f8fafc',
+    fontSize: 48,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  outsideTemp: {
+    color: '#e2e8f0',
+    fontSize: 24,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  caption: {
+    color: '#64748b',
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#f8fafc',
+    marginBottom: 8,
+  },
+  fieldGroup: {
+    backgroundColor: '#0f172a',
+    borderRadius: 16,
+    padding: 16,
+    gap: 16,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  toggleLabel: {
+    color: '#e2e8f0',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    color: '#94a3b8',
+    fontSize: 13,
+  },
+  error: {
+    color: '#f87171',
+    fontSize: 13,
+  },
+  seatRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  seat: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+    backgroundColor: '#020617',
+  },
+  seatPressed: {
+    opacity: 0.8,
+  },
+  seatLevels: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  seatLevel: {
+    width: 14,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#1f2937',
+  },
+  seatLevelOn: {
+    backgroundColor: '#f97316',
+  },
+  seatLabel: {
+    color: '#e2e8f0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  segments: {
+    flexDirection: 'row',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+    overflow: 'hidden',
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#312e81',
+  },
+  segmentLabel: {
+    color: '#94a3b8',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  segmentLabelSelected: {
+    color: '#f8fafc',
+  },
+});
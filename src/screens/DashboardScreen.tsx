@@ -12,7 +12,17 @@ import type { AccessibilityState } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import * as NavigationBar from 'expo-navigation-bar';
 import * as ScreenOrientation from 'expo-screen-orientation';
-import { useVehicleStore } from '@state/vehicleStore';
+import { ConnectionState, describeConnectionState } from '@lib/connectionState';
+import { StateCategory } from '@lib/session';
+import type { DriveState, MediaState, ShiftState } from '@lib/vehicleData';
+import { AlertBanner } from '@components/AlertBanner';
+import { BatteryIndicator, ChargingPanel, isCharging } from '@components/ChargePanel';
+import { MediaStrip } from '@components/MediaStrip';
+import { POWER_HISTORY_WINDOW_MS, PowerMeter } from '@components/PowerMeter';
+import { TripSummaryPanel } from '@components/TripSummaryPanel';
+import { useOptimisticState } from '@app/useOptimisticState';
+import { useVehicleAlerts } from '@app/useVehicleAlerts';
+import { useHistoryWindow, useVehicleStore } from '@state/vehicleStore';
 
 export function DashboardScreen() {
   const [isLandscape, setIsLandscape] = useState(false);
@@ -20,20 +30,41 @@ export function DashboardScreen() {
   const theme = useMemo(() => DARK_THEME, []);
   const { width, height } = useWindowDimensions();
   const driveState = useVehicleStore((state) => state.driveState);
+  const chargeResult = useVehicleStore((state) => state.chargeState);
   const keyLoaded = useVehicleStore((state) => state.keyLoaded);
   const autoRefreshActive = useVehicleStore((state) => state.autoRefreshActive);
   const toggleAutoRefresh = useVehicleStore((state) => state.toggleAutoRefresh);
   const latencyMs = useVehicleStore((state) => state.lastLatencyMs);
+  const connectionState = useVehicleStore((state) => state.connectionState);
+  const reconnectAttempt = useVehicleStore((state) => state.reconnectAttempt);
+  const vehicleStatus = useVehicleStore((state) => state.vehicleStatus);
+  const activeTrip = useVehicleStore((state) => state.activeTrip);
+  const lastTrip = useVehicleStore((state) => state.trips[0] ?? null);
+  const mediaResult = useVehicleStore((state) => state.mediaState);
+  const mediaRequestedAt = useVehicleStore((state) => state.stateRequestedAt[StateCategory.Media] ?? null);
+  const mediaDetailResult = useVehicleStore((state) => state.mediaDetailState);
+  const mediaDetailRequestedAt = useVehicleStore(
+    (state) => state.stateRequestedAt[StateCategory.MediaDetail] ?? null,
+  );
+  const powerHistory = useHistoryWindow('power', POWER_HISTORY_WINDOW_MS);
 
-  const driveData = driveState?.vehicleData?.driveState ?? driveState?.vehicleData?.drive_state ?? null;
+  const driveData = driveState?.vehicleData.driveState ?? null;
+  const chargeData = chargeResult?.vehicleData.chargeState ?? null;
+  const charging = isCharging(chargeData);
+  const { alerts, dismiss: dismissAlert } = useVehicleAlerts();
+  const media = useOptimisticState<MediaState>(mediaResult?.vehicleData.mediaState ?? null, mediaRequestedAt);
+  const showMedia = isLandscape && media.state !== null;
 
   const shortestSide = Math.min(width, height);
   const speed = useMemo(() => parseVehicleSpeed(driveData), [driveData]);
-  const gear = useMemo(() => formatShiftState(driveData?.shiftState ?? driveData?.shift_state), [driveData]);
+  const gear = useMemo(() => formatShiftState(driveData?.shiftState), [driveData]);
   const latencyText = useMemo(() => formatLatencyDisplay(latencyMs), [latencyMs]);
   const latencyColor = useMemo(() => latencyColorForValue(latencyMs), [latencyMs]);
+  const vehicleAsleep = vehicleStatus?.sleepStatus === 'asleep';
+  const connectionText = formatConnectionDisplay(connectionState, reconnectAttempt, vehicleAsleep);
   const speedText = formatSpeedDisplay(speed);
-  const speedFontSize = shortestSide * 0.9;
+  // The now-playing strip takes the space below the speed in landscape.
+  const speedFontSize = shortestSide * (showMedia ? 0.6 : 0.9);
   const orientationIconColor = isLandscape ? theme.orientationIconActive : theme.orientationIcon;
   const orientationOutlineColor = isLandscape ? theme.orientationIconActive : undefined;
 
@@ -139,6 +170,7 @@ export function DashboardScreen() {
         <View
           style={[
             styles.frame,
+            isLandscape && styles.frameLandscape,
             {
               backgroundColor: theme.surface,
               borderColor: theme.frameBorder,
@@ -146,6 +178,16 @@ export function DashboardScreen() {
             },
           ]}
         >
+          {alerts.map((alert) => (
+            <AlertBanner
+              key={alert.id}
+              title={alert.title}
+              message={alert.message}
+              tone={alert.tone}
+              onDismiss={() => dismissAlert(alert.id)}
+            />
+          ))}
+
           <View style={[styles.readoutRow, isLandscape && styles.readoutRowLandscape]}>
             <View style={styles.speedWrapper}>
               <Text
@@ -161,6 +203,7 @@ export function DashboardScreen() {
             {isLandscape && (
               <View style={styles.metaColumnLandscape}>
                 <Text style={[styles.gear, { color: theme.primaryText }]}>{gear}</Text>
+                <PowerMeter powerKw={driveData?.power ?? null} history={powerHistory} width={160} />
                 <View style={styles.controlsStack}>
                   <IconButton
                     icon={autoRefreshActive ? 'stop' : 'play-arrow'}
@@ -183,10 +226,21 @@ export function DashboardScreen() {
             )}
           </View>
 
+          {showMedia && media.state && (
+            <MediaStrip
+              media={media.state}
+              detail={mediaDetailResult?.vehicleData.mediaDetailState ?? null}
+              detailRequestedAt={mediaDetailRequestedAt}
+              error={media.error}
+              onCommand={(label, command, values) => void media.send(label, command, values)}
+            />
+          )}
+
           {!isLandscape && (
             <View style={styles.metaRowPortrait}>
               <View style={styles.gearBlock}>
                 <Text style={[styles.gear, styles.gearPortrait, { color: theme.primaryText }]}>{gear}</Text>
+                <PowerMeter powerKw={driveData?.power ?? null} history={powerHistory} width={160} />
               </View>
               <View style={styles.controlsStack}>
                 <IconButton
@@ -215,8 +269,22 @@ export function DashboardScreen() {
             >
               {latencyText}
             </Text>
+            {connectionText && (
+              <Text style={[styles.connection, { color: connectionColorForState(connectionState, vehicleAsleep) }]}>
+                {connectionText}
+              </Text>
+            )}
+            {chargeData && (
+              <View style={styles.batteryIndicator}>
+                <BatteryIndicator chargeState={chargeData} width={isLandscape ? 140 : 200} />
+              </View>
+            )}
           </View>
 
+          {chargeData && charging
+            ? <ChargingPanel chargeState={chargeData} compact={isLandscape} />
+            : <TripSummaryPanel trip={activeTrip ?? lastTrip} active={Boolean(activeTrip)} compact={isLandscape} />}
+
           {!keyLoaded && <Text style={styles.keyStatus}>Key not loaded</Text>}
         </View>
       </View>
@@ -237,31 +305,9 @@ interface IconButtonProps {
   pressedBackgroundColor?: string;
 }
 
-function parseVehicleSpeed(driveState: any): number | null {
-  if (!driveState || typeof driveState !== 'object') {
-    return null;
-  }
-  const candidates = [
-    driveState.speedFloat,
-    driveState.speed_float,
-    driveState.speed,
-    driveState.optionalSpeedFloat,
-    driveState.optional_speed_float,
-    driveState.optionalSpeed,
-    driveState.optional_speed,
-  ];
-  for (const candidate of candidates) {
-    if (typeof candidate === 'number' && Number.isFinite(candidate)) {
-      return candidate;
-    }
-    if (candidate && typeof candidate === 'object') {
-      const nested = candidate.speedFloat ?? candidate.speed_float ?? candidate.speed;
-      if (typeof nested === 'number' && Number.isFinite(nested)) {
-        return nested;
-      }
-    }
-  }
-  return null;
+/** `speedFloat` is the precise reading; older firmware only reports the rounded `speed`. */
+function parseVehicleSpeed(driveState: DriveState | null): number | null {
+  return driveState?.speedFloat ?? driveState?.speed ?? null;
 }
 
 function formatSpeedDisplay(value: number | null): string {
@@ -272,38 +318,16 @@ function formatSpeedDisplay(value: number | null): string {
   return String(rounded).padStart(2, '0');
 }
 
-function formatShiftState(raw: any): string {
-  if (!raw) {
-    return 'X';
-  }
-  if (typeof raw === 'string') {
-    const trimmed = raw.trim();
-    if (!trimmed) {
-      return 'X';
-    }
-    if (trimmed.length === 1) {
-      return trimmed.toUpperCase();
-    }
-    const match = trimmed.match(/[PRND]/i);
-    if (match) {
-      return match[0].toUpperCase();
-    }
-    return trimmed.toUpperCase();
-  }
-  if (typeof raw === 'object') {
-    for (const key of ['P', 'R', 'N', 'D']) {
-      if (raw[key] != null || raw[key.toLowerCase()] != null) {
-        return key;
-      }
-    }
-    if (raw.Invalid != null || raw.invalid != null) {
+function formatShiftState(shiftState: ShiftState | null | undefined): string {
+  switch (shiftState) {
+    case 'P':
+    case 'R':
+    case 'N':
+    case 'D':
+      return shiftState;
+    default:
       return 'X';
-    }
-    if (typeof raw.type === 'string') {
-      return formatShiftState(raw.type);
-    }
   }
-  return 'X';
 }
 
 function formatLatencyDisplay(latency: number | null): string {
@@ -326,6 +350,24 @@ function latencyColorForValue(latency: number | null): string {
   return '#f87171';
 }
 
+function formatConnectionDisplay(state: ConnectionState, attempt: number | null, vehicleAsleep: boolean): string | null {
+  if (state === 'ready') {
+    return vehicleAsleep ? 'Vehicle asleep' : null;
+  }
+  const label = describeConnectionState(state);
+  return attempt ? `${label} #${attempt}` : label;
+}
+
+function connectionColorForState(state: ConnectionState, vehicleAsleep: boolean): string {
+  if (state === 'degraded' || state === 'reconnecting') {
+    return '#facc15';
+  }
+  if (state === 'idle' || vehicleAsleep) {
+    return '#94a3b8';
+  }
+  return '#38bdf8';
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -344,6 +386,9 @@ const styles = StyleSheet.create({
     gap: 32,
     position: 'relative',
   },
+  frameLandscape: {
+    gap: 16,
+  },
   readoutRow: {
     width: '100%',
     alignItems: 'center',
@@ -353,7 +398,7 @@ const styles = StyleSheet.create({
   },
   readoutRowLandscape: {
     minHeight: 140,
-    paddingRight: 160,
+    paddingRight: 200,
   },
   speedWrapper: {
     alignItems: 'center',
@@ -389,6 +434,7 @@ const styles = StyleSheet.create({
     minWidth: 120,
     alignItems: 'center',
     justifyContent: 'center',
+    gap: 8,
   },
   gear: {
     fontSize: 70,
@@ -412,10 +458,20 @@ const styles = StyleSheet.create({
     textShadowRadius: 2,
     textShadowOffset: { width: 0, height: 1 },
   },
+  connection: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
   latencyContainer: {
     alignItems: 'center',
     justifyContent: 'center',
   },
+  batteryIndicator: {
+    marginTop: 12,
+  },
   latencyContainerLandscape: {
     position: 'absolute',
     top: 0,
@@ -1,9 +1,7 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Picker } from '@react-native-picker/picker';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
-  AppState,
-  AppStateStatus,
+  Alert,
   Platform,
   ScrollView,
   StyleSheet,
@@ -14,12 +12,16 @@ import {
 } from 'react-native';
 import {
   TeslaBleSession,
+  ConnectionStateChange,
   StateCategory,
-  DeviceDiscoveryMode,
-  VehicleStateResult,
   SelectedDeviceInfo,
   KeyRole,
   KeyFormFactor,
+  KeyEnrollmentResult,
+  SecurityCommand,
+  WhitelistEntry,
+  describeKeyFormFactor,
+  describeKeyRole,
 } from '@lib/session';
 import {
   generatePrivateKey,
@@ -31,30 +33,45 @@ import {
   publicKeyPemToRaw,
   TeslaPrivateKey,
 } from '@lib/crypto';
+import { describeConnectionState } from '@lib/connectionState';
+import { SIMULATOR_SCENARIOS } from '@lib/simulatorScenarios';
+import type { TelemetryEvent } from '@lib/telemetry';
+import { addVehicleConnectionListener, getVehicleSession, telemetry, tripLog } from '@app/vehicleConnection';
+import {
+  KeyProfile,
+  applyVehiclePrivateKey,
+  loadKeyProfiles,
+  normalizeVin,
+  saveAdaptivePolling,
+  saveKeyProfiles,
+  saveRefreshInterval,
+  saveVin,
+} from '@app/vehicleSettings';
+import { shareTelemetryExport } from '@app/shareExport';
+import type { ExportFormat } from '@lib/telemetryExport';
+import { Trip, tripEfficiency } from '@lib/tripComputer';
 import { AppButton } from '@components/AppButton';
+import { formatTripDuration } from '@components/TripSummaryPanel';
 import { useVehicleStore } from '@state/vehicleStore';
 
-const PROFILE_STORAGE_KEY = 'tsla.profiles';
-const VIN_STORAGE_KEY = 'tsla.vin';
-const REFRESH_INTERVAL_STORAGE_KEY = 'tsla.stateRefreshIntervalMs';
-const DEFAULT_REFRESH_INTERVAL_MS = 1000;
-const MIN_REFRESH_INTERVAL_MS = 0;
-const MAX_REFRESH_INTERVAL_MS = 60_000;
-const DEFAULT_DISCOVERY_MODE = DeviceDiscoveryMode.VinPrefixPromptFilter;
-
-interface StoredProfile {
-  id: string;
-  name: string;
-  privateKeyPem: string;
-  publicKeyPem: string;
-}
+const ENROLLMENT_TIMEOUT_MS = 60_000;
 
-type AutoRefreshMode = 'manual' | 'auto';
+const SECURITY_ACTIONS: { label: string; command: SecurityCommand; variant?: 'primary' | 'secondary' | 'danger' }[] = [
+  { label: 'Lock', command: { type: 'lock' }, variant: 'primary' },
+  { label: 'Unlock', command: { type: 'unlock' }, variant: 'danger' },
+  { label: 'Open Trunk', command: { type: 'closure', closure: 'rearTrunk', move: 'open' } },
+  { label: 'Close Trunk', command: { type: 'closure', closure: 'rearTrunk', move: 'close' } },
+  { label: 'Open Frunk', command: { type: 'closure', closure: 'frontTrunk', move: 'open' } },
+  { label: 'Open Charge Port', command: { type: 'closure', closure: 'chargePort', move: 'open' } },
+  { label: 'Close Charge Port', command: { type: 'closure', closure: 'chargePort', move: 'close' } },
+  { label: 'Open Tonneau', command: { type: 'closure', closure: 'tonneau', move: 'open' } },
+  { label: 'Close Tonneau', command: { type: 'closure', closure: 'tonneau', move: 'close' } },
+];
 
 export function DebugScreen() {
   const [vin, setVin] = useState('');
   const [profileName, setProfileName] = useState('');
-  const [profiles, setProfiles] = useState<StoredProfile[]>([]);
+  const [profiles, setProfiles] = useState<KeyProfile[]>([]);
   const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
   const [hasAppliedInitialProfile, setHasAppliedInitialProfile] = useState(false);
   const [privateKeyPem, setPrivateKeyPem] = useState('');
@@ -62,64 +79,45 @@ export function DebugScreen() {
   const [privateKey, setPrivateKey] = useState<TeslaPrivateKey | null>(null);
   const [logOutput, setLogOutput] = useState('Welcome to the Tesla BLE debug console.\n');
   const [stateOutput, setStateOutput] = useState('Vehicle state output will appear here.');
-  const [stateCategory, setStateCategory] = useState<StateCategory>(StateCategory.Drive);
-  const [refreshInterval, setRefreshInterval] = useState(DEFAULT_REFRESH_INTERVAL_MS);
   const [deviceInfo, setDeviceInfo] = useState<SelectedDeviceInfo | null>(null);
   const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [vehicleKeys, setVehicleKeys] = useState<WhitelistEntry[] | null>(null);
+  const [ownPublicKeyHex, setOwnPublicKeyHex] = useState<string | null>(null);
 
-  const autoRefreshTimer = useRef<NodeJS.Timeout | null>(null);
-  const resumeFetchInFlight = useRef(false);
-  const sessionRef = useRef<TeslaBleSession | null>(null);
-  const sessionConfigRef = useRef<{ vin: string } | null>(null);
+  const autoRefreshWasActive = useRef(false);
   const stateCategoryOptions = useMemo(() => Object.values(StateCategory) as StateCategory[], []);
 
-  const setStoreVin = useVehicleStore((state) => state.setVin);
-  const setStoreKeyLoaded = useVehicleStore((state) => state.setKeyLoaded);
-  const setStoreDriveState = useVehicleStore((state) => state.setDriveState);
-  const setStoreLatency = useVehicleStore((state) => state.setLastLatency);
+  // Editing the settings below persists them; TelemetryController applies them from the store.
+  const storeVin = useVehicleStore((state) => state.vin);
+  const simulatorScenarioId = useVehicleStore((state) => state.simulatorScenarioId);
+  const setSimulatorScenarioId = useVehicleStore((state) => state.setSimulatorScenarioId);
+  const storeRefreshInterval = useVehicleStore((state) => state.refreshIntervalMs);
+  const [refreshInterval, setRefreshInterval] = useState(storeRefreshInterval);
+  const adaptivePolling = useVehicleStore((state) => state.adaptivePolling);
+  const stateCategory = useVehicleStore((state) => state.inspectedCategory);
+  const setStateCategory = useVehicleStore((state) => state.setInspectedCategory);
+  const setStoreVehicleStatus = useVehicleStore((state) => state.setVehicleStatus);
   const autoRefreshActive = useVehicleStore((state) => state.autoRefreshActive);
+  const trips = useVehicleStore((state) => state.trips);
+  const setStoreTrips = useVehicleStore((state) => state.setTrips);
   const setStoreAutoRefreshActive = useVehicleStore((state) => state.setAutoRefreshActive);
 
   useEffect(() => {
-    setStoreVin(vin ? vin : null);
-  }, [vin, setStoreVin]);
+    setVin(storeVin ?? '');
+  }, [storeVin]);
 
   useEffect(() => {
-    setStoreKeyLoaded(Boolean(privateKey));
-  }, [privateKey, setStoreKeyLoaded]);
+    setRefreshInterval(storeRefreshInterval);
+  }, [storeRefreshInterval]);
 
   useEffect(() => {
-    AsyncStorage.getItem(VIN_STORAGE_KEY)
-      .then((stored) => {
-        if (stored) {
-          setVin(normalizeVin(stored));
-        }
-      })
-      .catch((error) => console.warn('Failed to load VIN', error));
-    AsyncStorage.getItem(PROFILE_STORAGE_KEY)
-      .then((raw) => {
-        if (!raw) return;
-        const parsed = JSON.parse(raw) as StoredProfile[];
-        if (Array.isArray(parsed)) {
-          setProfiles(parsed);
-        }
-      })
-      .catch((error) => console.warn('Failed to load profiles', error));
-    AsyncStorage.getItem(REFRESH_INTERVAL_STORAGE_KEY)
-      .then((stored) => {
-        if (!stored) return;
-        setRefreshInterval(sanitizeRefreshInterval(stored));
-      })
-      .catch((error) => console.warn('Failed to load refresh interval', error));
+    loadKeyProfiles().then(setProfiles);
   }, []);
 
-  useEffect(() => {
-    return () => {
-      if (autoRefreshTimer.current) {
-        clearTimeout(autoRefreshTimer.current);
-      }
-      sessionRef.current?.disconnect().catch(() => {});
-    };
+  /** Shows `key` in the editor and makes it the key the app signs with. */
+  const selectPrivateKey = useCallback((key: TeslaPrivateKey | null) => {
+    setPrivateKey(key);
+    applyVehiclePrivateKey(key);
   }, []);
 
   const appendLog = useCallback((message: string) => {
@@ -135,22 +133,25 @@ export function DebugScreen() {
     [appendLog],
   );
 
-  const getSession = useCallback((): TeslaBleSession => {
-    const normalizedVin = normalizeVin(vin);
-    if (!normalizedVin) {
-      throw new Error('VIN is required');
-    }
-    const current = sessionConfigRef.current;
-    if (!sessionRef.current || !current || current.vin !== normalizedVin) {
-      sessionRef.current?.disconnect().catch(() => {});
-      sessionRef.current = new TeslaBleSession({
-        vin: normalizedVin,
-        deviceDiscoveryMode: DEFAULT_DISCOVERY_MODE,
-      });
-      sessionConfigRef.current = { vin: normalizedVin };
-    }
-    return sessionRef.current;
-  }, [vin]);
+  const handleConnectionStateChange = useCallback(
+    (change: ConnectionStateChange, session: TeslaBleSession) => {
+      let message = `Connection: ${describeConnectionState(change.state)}`;
+      if (change.attempt) {
+        message += ` (attempt ${change.attempt}, retry in ${change.retryInMs ?? 0} ms)`;
+      }
+      if (change.error) {
+        message += ` — ${change.error.message}`;
+      }
+      appendLog(message);
+      const info = change.state === 'linked' || change.state === 'ready' ? session.getSelectedDeviceInfo() : null;
+      if (info) {
+        setDeviceInfo(info);
+      }
+    },
+    [appendLog],
+  );
+
+  useEffect(() => addVehicleConnectionListener(handleConnectionStateChange), [handleConnectionStateChange]);
 
   const ensurePrivateKeyValue = useCallback(async (): Promise<TeslaPrivateKey> => {
     if (privateKey) {
@@ -160,9 +161,9 @@ export function DebugScreen() {
       throw new Error('Provide a private key first');
     }
     const imported = await importPrivateKeyPem(privateKeyPem);
-    setPrivateKey(imported);
+    selectPrivateKey(imported);
     return imported;
-  }, [privateKey, privateKeyPem]);
+  }, [privateKey, privateKeyPem, selectPrivateKey]);
 
   const handleGenerateKey = useCallback(async () => {
     try {
@@ -171,7 +172,7 @@ export function DebugScreen() {
       const pair = await generatePrivateKey();
       const pem = await exportPrivateKeyPem(pair.privateKey);
       const pubPem = await exportPublicKeyPem(pair.publicKey);
-      setPrivateKey(pair.privateKey);
+      selectPrivateKey(pair.privateKey);
       setPrivateKeyPem(pem);
       setPublicKeyPem(pubPem);
       setSelectedProfileId(null);
@@ -182,7 +183,7 @@ export function DebugScreen() {
     } finally {
       setBusyAction(null);
     }
-  }, [appendLog, reportError]);
+  }, [appendLog, reportError, selectPrivateKey]);
 
   const handleProfileChange = useCallback(
     async (profileId: string | null) => {
@@ -191,7 +192,7 @@ export function DebugScreen() {
         setProfileName('');
         setPrivateKeyPem('');
         setPublicKeyPem('');
-        setPrivateKey(null);
+        selectPrivateKey(null);
         return;
       }
       const profile = profiles.find((item) => item.id === profileId);
@@ -204,25 +205,25 @@ export function DebugScreen() {
       setPublicKeyPem(profile.publicKeyPem);
       try {
         const imported = await importPrivateKeyPem(profile.privateKeyPem);
-        setPrivateKey(imported);
+        selectPrivateKey(imported);
         const refreshedPublic = await exportPublicKeyPemFromPrivate(imported);
         if (!pemEquals(refreshedPublic, profile.publicKeyPem)) {
           const updated = profiles.map((item) =>
             item.id === profile.id ? { ...item, publicKeyPem: refreshedPublic } : item,
           );
           setProfiles(updated);
-          persistProfiles(updated).catch(() => {});
+          saveKeyProfiles(updated).catch(() => {});
           setPublicKeyPem(refreshedPublic);
           appendLog(`Profile "${profile.name}" public key refreshed.`);
         } else {
           appendLog(`Loaded profile "${profile.name}".`);
         }
       } catch (error) {
-        setPrivateKey(null);
+        selectPrivateKey(null);
         reportError(`Failed to load profile "${profile.name}"`, error);
       }
     },
-    [appendLog, reportError, profiles],
+    [appendLog, reportError, profiles, selectPrivateKey],
   );
 
   useEffect(() => {
@@ -249,7 +250,7 @@ export function DebugScreen() {
         throw new Error('Provide a private key before saving');
       }
       const imported = await importPrivateKeyPem(pem);
-      setPrivateKey(imported);
+      selectPrivateKey(imported);
       const publicKey = await exportPublicKeyPemFromPrivate(imported);
       setPublicKeyPem(publicKey);
       let updatedProfiles = [...profiles];
@@ -260,7 +261,7 @@ export function DebugScreen() {
         );
         appendLog(`Updated profile "${name}".`);
       } else {
-        const newProfile: StoredProfile = {
+        const newProfile: KeyProfile = {
           id: createProfileId(),
           name,
           privateKeyPem: pem,
@@ -272,11 +273,11 @@ export function DebugScreen() {
       }
       setProfiles(updatedProfiles);
       setSelectedProfileId(profileId);
-      await persistProfiles(updatedProfiles);
+      await saveKeyProfiles(updatedProfiles);
     } catch (error) {
       reportError('Failed to save profile', error);
     }
-  }, [appendLog, privateKeyPem, profileName, profiles, reportError, selectedProfileId]);
+  }, [appendLog, privateKeyPem, profileName, profiles, reportError, selectPrivateKey, selectedProfileId]);
 
   const handleDeleteProfile = useCallback(async () => {
     if (!selectedProfileId) {
@@ -289,12 +290,12 @@ export function DebugScreen() {
     setProfileName('');
     setPrivateKeyPem('');
     setPublicKeyPem('');
-    setPrivateKey(null);
-    await persistProfiles(updated);
+    selectPrivateKey(null);
+    await saveKeyProfiles(updated);
     if (profile) {
       appendLog(`Deleted profile "${profile.name}".`);
     }
-  }, [appendLog, profiles, selectedProfileId]);
+  }, [appendLog, profiles, selectPrivateKey, selectedProfileId]);
 
   const handleSelectVehicle = useCallback(async () => {
     try {
@@ -303,10 +304,9 @@ export function DebugScreen() {
       if (!normalizedVin) {
         throw new Error('VIN is required');
       }
-      setVin(normalizedVin);
-      await AsyncStorage.setItem(VIN_STORAGE_KEY, normalizedVin);
+      await saveVin(normalizedVin);
       appendLog('Selecting Tesla BLE device…');
-      const session = getSession();
+      const session = await getVehicleSession();
       await session.connect();
       const info = session.getSelectedDeviceInfo();
       setDeviceInfo(info);
@@ -319,13 +319,13 @@ export function DebugScreen() {
     } finally {
       setBusyAction(null);
     }
-  }, [appendLog, getSession, reportError, vin]);
+  }, [appendLog, reportError, vin]);
 
   const handleEnsureSession = useCallback(async () => {
     try {
       setBusyAction('connect-session');
       const key = await ensurePrivateKeyValue();
-      const session = getSession();
+      const session = await getVehicleSession();
       await session.ensureSession(key);
       appendLog('Session established successfully.');
       setDeviceInfo(session.getSelectedDeviceInfo());
@@ -334,152 +334,208 @@ export function DebugScreen() {
     } finally {
       setBusyAction(null);
     }
-  }, [appendLog, ensurePrivateKeyValue, getSession, reportError]);
+  }, [appendLog, ensurePrivateKeyValue, reportError]);
 
-  const handleVehicleStateResult = useCallback(
-    (category: StateCategory, result: VehicleStateResult, latencyMs: number) => {
-      if (category === StateCategory.Drive) {
-        setStoreDriveState(result);
-      }
-      const timestamp = formatTimestamp(new Date());
-      const payload = JSON.stringify(result.vehicleData, null, 2);
-      setStateOutput(`Last update (${timestamp}) — Category: ${category} — Latency: ${latencyMs} ms\n${payload}`);
-      setStoreLatency(latencyMs);
-    },
-    [setStoreDriveState, setStoreLatency],
-  );
-
-  const fetchCategory = useCallback(
-    async (session: TeslaBleSession, key: TeslaPrivateKey, category: StateCategory, logEvents: boolean) => {
-      if (logEvents) {
-        appendLog(`Requesting vehicle state: ${prettyLabel(category)}…`);
-      }
-      const startedAt = performance.now();
-      const result = await session.getState(category, key);
-      const latencyMs = Math.round(performance.now() - startedAt);
-      handleVehicleStateResult(category, result, latencyMs);
-      if (logEvents) {
-        appendLog(`Vehicle state updated at ${formatTimestamp(new Date())} (latency ${latencyMs} ms).`);
+  const handleTelemetryEvent = useCallback(
+    (event: TelemetryEvent) => {
+      switch (event.type) {
+        case 'state': {
+          const shown = event.results.find((result) => result.category === stateCategory);
+          if (!shown) {
+            return;
+          }
+          const timestamp = formatTimestamp(new Date());
+          const payload = JSON.stringify(shown.vehicleData, null, 2);
+          setStateOutput(
+            `Last update (${timestamp}) — Category: ${shown.category} — Latency: ${event.latencyMs} ms\n${payload}`,
+          );
+          if (event.trigger === 'manual') {
+            appendLog(`Vehicle state updated at ${timestamp} (latency ${event.latencyMs} ms).`);
+          }
+          break;
+        }
+        case 'status':
+          if (event.trigger === 'manual') {
+            const { status } = event;
+            appendLog(`Vehicle status: ${status.sleepStatus}, ${status.lockState}, user ${status.userPresence}.`);
+          }
+          break;
+        case 'waking':
+          appendLog('Vehicle is asleep; waking it…');
+          break;
+        case 'error':
+          reportError(event.context, event.error);
+          break;
       }
     },
-    [appendLog, handleVehicleStateResult],
+    [appendLog, reportError, stateCategory],
   );
 
-  const performVehicleStateFetch = useCallback(
-    async (mode: AutoRefreshMode) => {
-      const session = getSession();
-      const key = await ensurePrivateKeyValue();
-      await fetchCategory(session, key, stateCategory, mode === 'manual');
-      if (mode === 'auto' && stateCategory !== StateCategory.Drive) {
-        await fetchCategory(session, key, StateCategory.Drive, false);
-      }
-    },
-    [ensurePrivateKeyValue, fetchCategory, getSession, stateCategory],
-  );
+  useEffect(() => telemetry.subscribe(handleTelemetryEvent), [handleTelemetryEvent]);
 
   useEffect(() => {
-    if (!autoRefreshActive) {
-      if (autoRefreshTimer.current) {
-        clearTimeout(autoRefreshTimer.current);
-        autoRefreshTimer.current = null;
-        appendLog('Auto refresh disabled.');
-      }
-      return;
-    }
-
-    let cancelled = false;
-    appendLog('Auto refresh enabled.');
-
-    function scheduleNext() {
-      if (cancelled || !autoRefreshActive) {
-        return;
-      }
-      const delay = getCurrentRefreshInterval(String(refreshInterval));
-      autoRefreshTimer.current = setTimeout(run, delay);
+    if (autoRefreshActive) {
+      appendLog('Auto refresh enabled.');
+    } else if (autoRefreshWasActive.current) {
+      appendLog('Auto refresh disabled.');
     }
-
-    async function run() {
-      if (cancelled || !autoRefreshActive) {
-        return;
-      }
-      try {
-        await performVehicleStateFetch('auto');
-      } catch (error) {
-        reportError('Auto refresh failed', error);
-      } finally {
-        scheduleNext();
-      }
-    }
-
-    run();
-
-    return () => {
-      cancelled = true;
-      if (autoRefreshTimer.current) {
-        clearTimeout(autoRefreshTimer.current);
-        autoRefreshTimer.current = null;
-      }
-    };
-  }, [appendLog, autoRefreshActive, performVehicleStateFetch, refreshInterval, reportError]);
-
-  useEffect(() => {
-    const handleAppStateChange = (nextState: AppStateStatus) => {
-      if (nextState !== 'active' || !autoRefreshActive || resumeFetchInFlight.current) {
-        return;
-      }
-      resumeFetchInFlight.current = true;
-      performVehicleStateFetch('auto')
-        .catch((error) => reportError('Auto refresh on resume failed', error))
-        .finally(() => {
-          resumeFetchInFlight.current = false;
-        });
-    };
-
-    const subscription = AppState.addEventListener('change', handleAppStateChange);
-    return () => {
-      subscription.remove();
-    };
-  }, [autoRefreshActive, performVehicleStateFetch, reportError]);
+    autoRefreshWasActive.current = autoRefreshActive;
+  }, [appendLog, autoRefreshActive]);
 
   const handleManualFetch = useCallback(async () => {
     try {
       setBusyAction('fetch-state');
-      await performVehicleStateFetch('manual');
+      appendLog(`Requesting vehicle state: ${prettyLabel(stateCategory)}…`);
+      await telemetry.refresh([stateCategory]);
     } catch (error) {
       reportError('Failed to fetch state', error);
     } finally {
       setBusyAction(null);
     }
-  }, [performVehicleStateFetch, reportError]);
+  }, [appendLog, reportError, stateCategory]);
 
-  const handleRefreshIntervalBlur = useCallback(
-    (value: string) => {
-      const sanitized = sanitizeRefreshInterval(value);
-      setRefreshInterval(sanitized);
-      AsyncStorage.setItem(REFRESH_INTERVAL_STORAGE_KEY, String(sanitized)).catch(() => {});
-    },
-    [],
-  );
+  const handleRefreshIntervalBlur = useCallback((value: string) => {
+    setRefreshInterval(saveRefreshInterval(value));
+  }, []);
 
   const handleEnrollKey = useCallback(async () => {
     try {
       setBusyAction('enroll');
-      const session = getSession();
+      const key = await ensurePrivateKeyValue();
+      const session = await getVehicleSession();
       await session.connect();
-      const publicKeyRaw = await resolvePublicKeyRaw(privateKey, publicKeyPem, ensurePrivateKeyValue);
-      appendLog('Sending add-key request over BLE…');
-      await session.sendAddKeyRequest(
-        publicKeyRaw,
-        KeyRole.ROLE_VEHICLE_MONITOR,
-        KeyFormFactor.KEY_FORM_FACTOR_CLOUD_KEY,
+      appendLog(
+        `Add-key request sent. Tap a key card on the center console within ${ENROLLMENT_TIMEOUT_MS / 1000} s to approve.`,
       );
-      appendLog('Request sent. Complete the approval on the vehicle UI.');
+      const result = await session.enrollKey(key, {
+        role: KeyRole.ROLE_VEHICLE_MONITOR,
+        formFactor: KeyFormFactor.KEY_FORM_FACTOR_CLOUD_KEY,
+        timeoutMs: ENROLLMENT_TIMEOUT_MS,
+      });
+      appendLog(formatEnrollmentResult(result));
     } catch (error) {
       reportError('Failed to enroll key', error);
     } finally {
       setBusyAction(null);
     }
-  }, [appendLog, ensurePrivateKeyValue, getSession, privateKey, publicKeyPem, reportError]);
+  }, [appendLog, ensurePrivateKeyValue, reportError]);
+
+  const handleWake = useCallback(async () => {
+    try {
+      setBusyAction('wake');
+      const key = await ensurePrivateKeyValue();
+      const session = await getVehicleSession();
+      const status = await session.wake(key);
+      setStoreVehicleStatus(status);
+      appendLog('Vehicle is awake.');
+    } catch (error) {
+      reportError('Wake failed', error);
+    } finally {
+      setBusyAction(null);
+    }
+  }, [appendLog, ensurePrivateKeyValue, reportError, setStoreVehicleStatus]);
+
+  const handleSecurityCommand = useCallback(
+    async (label: string, command: SecurityCommand) => {
+      try {
+        setBusyAction('security');
+        const key = await ensurePrivateKeyValue();
+        const session = await getVehicleSession();
+        await session.executeSecurity(command, key);
+        appendLog(`${label}: done.`);
+      } catch (error) {
+        reportError(`${label} failed`, error);
+      } finally {
+        setBusyAction(null);
+      }
+    },
+    [appendLog, ensurePrivateKeyValue, reportError],
+  );
+
+  const handleLoadKeys = useCallback(async () => {
+    try {
+      setBusyAction('keys');
+      const session = await getVehicleSession();
+      const keys = await session.listKeys();
+      const ownKey = await resolvePublicKeyRaw(privateKey, publicKeyPem, ensurePrivateKeyValue).catch(() => null);
+      setOwnPublicKeyHex(ownKey ? bytesToHex(ownKey) : null);
+      setVehicleKeys(keys);
+      appendLog(`Vehicle has ${keys.length} enrolled key${keys.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      reportError('Failed to load keys', error);
+    } finally {
+      setBusyAction(null);
+    }
+  }, [appendLog, ensurePrivateKeyValue, privateKey, publicKeyPem, reportError]);
+
+  const removeKey = useCallback(
+    async (entry: WhitelistEntry) => {
+      if (!entry.publicKey) {
+        return;
+      }
+      try {
+        setBusyAction('keys');
+        const key = await ensurePrivateKeyValue();
+        const session = await getVehicleSession();
+        await session.executeWhitelistOperation({ type: 'removeKey', publicKey: entry.publicKey }, key);
+        appendLog(`Removed key in slot ${entry.slot}.`);
+        setVehicleKeys(await session.listKeys());
+      } catch (error) {
+        reportError('Failed to remove key', error);
+      } finally {
+        setBusyAction(null);
+      }
+    },
+    [appendLog, ensurePrivateKeyValue, reportError],
+  );
+
+  const handleRemoveKey = useCallback(
+    (entry: WhitelistEntry) => {
+      Alert.alert(
+        'Remove key?',
+        `${describeKeyFormFactor(entry.formFactor)} in slot ${entry.slot} will no longer be able to access the vehicle.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Remove', style: 'destructive', onPress: () => void removeKey(entry) },
+        ],
+      );
+    },
+    [removeKey],
+  );
+
+  const handleExport = useCallback(
+    async (format: ExportFormat, trip?: Trip) => {
+      try {
+        setBusyAction('export');
+        const count = await shareTelemetryExport(format, trip);
+        appendLog(`Exported ${count} record${count === 1 ? '' : 's'} as ${format.toUpperCase()}.`);
+      } catch (error) {
+        reportError('Export failed', error);
+      } finally {
+        setBusyAction(null);
+      }
+    },
+    [appendLog, reportError],
+  );
+
+  const handleClearTrips = useCallback(() => {
+    Alert.alert('Clear trips?', 'All recorded trips will be deleted from this phone.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => {
+          tripLog
+            .clear()
+            .then(() => {
+              setStoreTrips([]);
+              appendLog('Cleared trip history.');
+            })
+            .catch((error) => reportError('Failed to clear trips', error));
+        },
+      },
+    ]);
+  }, [appendLog, reportError, setStoreTrips]);
 
   const isBusy = useCallback((action: string) => busyAction === action, [busyAction]);
 
@@ -509,12 +565,26 @@ export function DebugScreen() {
           <TextInput
             value={vin}
             onChangeText={(value) => setVin(normalizeVin(value))}
+            onEndEditing={(event) => void saveVin(event.nativeEvent.text).catch(() => {})}
             placeholder="5YJ3E1EA7JF000000"
             placeholderTextColor="#64748b"
             style={styles.input}
             autoCapitalize="characters"
           />
         </Field>
+        <Field label="Simulated Vehicle">
+          <Picker
+            selectedValue={simulatorScenarioId}
+            onValueChange={(value) => setSimulatorScenarioId(String(value))}
+            dropdownIconColor="#94a3b8"
+            style={styles.picker}
+          >
+            <Picker.Item label="Off (use Bluetooth)" value="" />
+            {SIMULATOR_SCENARIOS.map((scenario) => (
+              <Picker.Item key={scenario.id} label={scenario.label} value={scenario.id} />
+            ))}
+          </Picker>
+        </Field>
         <Text style={styles.deviceInfoLabel}>Connected Device</Text>
         <Text style={styles.deviceInfo}>{deviceInfoText}</Text>
         <View style={styles.row}>
@@ -605,6 +675,53 @@ export function DebugScreen() {
         </View>
       </View>
 
+      <Text style={styles.heading}>Security</Text>
+      <View style={styles.fieldGroup}>
+        <View style={styles.row}>
+          <AppButton
+            label="Wake Vehicle"
+            onPress={handleWake}
+            disabled={isBusy('wake')}
+            variant="primary"
+            fullWidth
+          />
+        </View>
+        <View style={styles.buttonGrid}>
+          {SECURITY_ACTIONS.map(({ label, command, variant }) => (
+            <AppButton
+              key={label}
+              label={label}
+              onPress={() => handleSecurityCommand(label, command)}
+              disabled={isBusy('security')}
+              variant={variant ?? 'secondary'}
+              style={styles.gridButton}
+            />
+          ))}
+        </View>
+      </View>
+
+      <Text style={styles.heading}>Keys on Vehicle</Text>
+      <View style={styles.fieldGroup}>
+        <View style={styles.row}>
+          <AppButton
+            label="Load Keys"
+            onPress={handleLoadKeys}
+            disabled={isBusy('keys')}
+            variant="primary"
+            fullWidth
+          />
+        </View>
+        {vehicleKeys?.map((entry) => (
+          <KeyRow
+            key={entry.slot}
+            entry={entry}
+            isOwnKey={Boolean(entry.publicKey && bytesToHex(entry.publicKey) === ownPublicKeyHex)}
+            disabled={isBusy('keys')}
+            onRemove={handleRemoveKey}
+          />
+        ))}
+      </View>
+
       <Text style={styles.heading}>Vehicle State</Text>
       <View style={styles.fieldGroup}>
         <Field label="State Category">
@@ -628,6 +745,13 @@ export function DebugScreen() {
             style={styles.input}
           />
         </Field>
+        <View style={styles.toggleRow}>
+          <Text style={styles.toggleLabel}>Adaptive Polling</Text>
+          <Switch value={adaptivePolling} onValueChange={saveAdaptivePolling} />
+        </View>
+        <Text style={styles.hint}>
+          Slows polling while parked, after timeouts and on a congested link. The interval above is the fastest rate.
+        </Text>
         <View style={styles.toggleRow}>
           <Text style={styles.toggleLabel}>Auto Refresh</Text>
           <Switch
@@ -647,6 +771,43 @@ export function DebugScreen() {
         <Text style={styles.logOutput}>{stateOutput}</Text>
       </View>
 
+      <Text style={styles.heading}>Trips</Text>
+      <View style={styles.fieldGroup}>
+        {trips.length ? (
+          trips.map((trip) => (
+            <TripRow
+              key={trip.id}
+              trip={trip}
+              disabled={isBusy('export')}
+              onExport={(item) => handleExport('gpx', item)}
+            />
+          ))
+        ) : (
+          <Text style={styles.hint}>Trips are recorded while auto refresh is on, from leaving Park to returning to it.</Text>
+        )}
+        <View style={styles.row}>
+          <AppButton
+            label="Clear Trips"
+            onPress={handleClearTrips}
+            disabled={!trips.length}
+            variant="danger"
+            fullWidth
+          />
+        </View>
+      </View>
+
+      <Text style={styles.heading}>Export</Text>
+      <View style={styles.fieldGroup}>
+        <Text style={styles.hint}>
+          Shares everything recorded since the app started: a GPX track, a CSV time series or a JSON dump with trips.
+        </Text>
+        <View style={styles.row}>
+          <AppButton label="GPX" onPress={() => handleExport('gpx')} disabled={isBusy('export')} fullWidth />
+          <AppButton label="CSV" onPress={() => handleExport('csv')} disabled={isBusy('export')} fullWidth />
+          <AppButton label="JSON" onPress={() => handleExport('json')} disabled={isBusy('export')} fullWidth />
+        </View>
+      </View>
+
       <Text style={styles.heading}>Log</Text>
       <View style={styles.fieldGroup}>
         <Text style={styles.logOutput}>{logOutput}</Text>
@@ -669,8 +830,54 @@ function Field({ label, children }: FieldProps) {
   );
 }
 
-async function persistProfiles(items: StoredProfile[]): Promise<void> {
-  await AsyncStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(items));
+interface KeyRowProps {
+  entry: WhitelistEntry;
+  isOwnKey: boolean;
+  disabled: boolean;
+  onRemove(entry: WhitelistEntry): void;
+}
+
+function KeyRow({ entry, isOwnKey, disabled, onRemove }: KeyRowProps) {
+  return (
+    <View style={styles.keyRow}>
+      <View style={styles.keyDetails}>
+        <Text style={styles.keyTitle}>
+          Slot {entry.slot} · {describeKeyFormFactor(entry.formFactor)}
+          {isOwnKey ? '  (this phone)' : ''}
+        </Text>
+        <Text style={styles.keySubtitle}>
+          {describeKeyRole(entry.role)} · {bytesToHex(entry.keyId)}
+        </Text>
+      </View>
+      {!isOwnKey && entry.publicKey ? (
+        <AppButton label="Remove" onPress={() => onRemove(entry)} disabled={disabled} variant="danger" />
+      ) : null}
+    </View>
+  );
+}
+
+interface TripRowProps {
+  trip: Trip;
+  disabled: boolean;
+  onExport(trip: Trip): void;
+}
+
+function TripRow({ trip, disabled, onExport }: TripRowProps) {
+  const efficiency = tripEfficiency(trip, 'mi');
+  return (
+    <View style={styles.keyRow}>
+      <View style={styles.keyDetails}>
+        <Text style={styles.keyTitle}>
+          {formatTimestamp(new Date(trip.startedAt))} · {trip.distanceMiles.toFixed(1)} mi
+        </Text>
+        <Text style={styles.keySubtitle}>
+          {formatTripDuration(trip.durationMs)} · max {Math.round(trip.maxSpeedMph)} mph · {trip.energyKwh.toFixed(2)} kWh
+          {efficiency == null ? '' : ` · ${Math.round(efficiency)} Wh/mi`}
+        </Text>
+      </View>
+      <AppButton label="GPX" onPress={() => onExport(trip)} disabled={disabled} />
+    </View>
+  );
 }
 
 function createProfileId(): string {
@@ -680,30 +887,27 @@ function createProfileId(): string {
   return Math.random().toString(36).slice(2);
 }
 
-function normalizeVin(value: string): string {
-  return value.trim().toUpperCase();
-}
-
 function formatTimestamp(date: Date): string {
   return date.toLocaleString();
 }
 
-function sanitizeRefreshInterval(value: string | number): number {
-  const numeric = typeof value === 'number' ? value : Number.parseInt(String(value ?? '').trim(), 10);
-  if (!Number.isFinite(numeric)) {
-    return DEFAULT_REFRESH_INTERVAL_MS;
-  }
-  const rounded = Math.round(numeric);
-  return Math.min(MAX_REFRESH_INTERVAL_MS, Math.max(MIN_REFRESH_INTERVAL_MS, rounded));
+function prettyLabel(value: string): string {
+  return value.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
 }
 
-function getCurrentRefreshInterval(value: string): number {
-  const sanitized = sanitizeRefreshInterval(value);
-  return sanitized;
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
 }
 
-function prettyLabel(value: string): string {
-  return value.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
+function formatEnrollmentResult(result: KeyEnrollmentResult): string {
+  switch (result.status) {
+    case 'approved':
+      return 'Key approved. The vehicle accepted a session with it.';
+    case 'rejected':
+      return `Key rejected${result.reason ? ` (${result.reason})` : ''}.`;
+    case 'timedOut':
+      return `Key enrollment timed out${result.reason ? ` (${result.reason})` : ''}.`;
+  }
 }
 
 function pemEquals(a: string, b: string): boolean {
@@ -778,6 +982,33 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 12,
   },
+  buttonGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  gridButton: {
+    flexBasis: '45%',
+    flexGrow: 1,
+  },
+  keyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  keyDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  keyTitle: {
+    color: '#e2e8f0',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  keySubtitle: {
+    color: '#94a3b8',
+    fontSize: 13,
+  },
   toggleRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -788,6 +1019,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  hint: {
+    color: '#94a3b8',
+    fontSize: 13,
+  },
   logOutput: {
     fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'Courier' }),
     fontSize: 13,
@@ -0,0 +1,315 @@
+import { useCallback, useState } from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import type { ViewStyle } from 'react-native';
+import {
+  DOORS,
+  TRUNKS,
+  WINDOWS,
+  ClosureItem,
+  describeSentryMode,
+  isSunroofOpen,
+  openClosures,
+  resolveLocked,
+} from '@lib/closures';
+import { StateCategory } from '@lib/session';
+import type { ClosuresState } from '@lib/vehicleData';
+import { AppButton } from '@components/AppButton';
+import { telemetry } from '@app/vehicleConnection';
+import { useVehicleStore } from '@state/vehicleStore';
+
+const [DRIVER_FRONT_DOOR, PASSENGER_FRONT_DOOR, DRIVER_REAR_DOOR, PASSENGER_REAR_DOOR] = DOORS;
+const [FRUNK, TRUNK] = TRUNKS;
+const [DRIVER_FRONT_WINDOW, PASSENGER_FRONT_WINDOW, DRIVER_REAR_WINDOW, PASSENGER_REAR_WINDOW] = WINDOWS;
+
+/** Doors, trunks, windows, sunroof, lock and sentry on a top-down outline of the car. */
+export function SecurityScreen() {
+  const closuresResult = useVehicleStore((state) => state.closuresState);
+  const lockState = useVehicleStore((state) => state.vehicleStatus?.lockState ?? null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRefresh = useCallback(async () => {
+    try {
+      setRefreshing(true);
+      setError(null);
+      await telemetry.refresh([StateCategory.Closures]);
+    } catch (failure) {
+      setError(`Refresh failed: ${failure instanceof Error ? failure.message : String(failure)}`);
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  const closures = closuresResult?.vehicleData.closuresState ?? null;
+  if (!closures) {
+    return (
+      <View style={[styles.container, styles.empty]}>
+        <Text style={styles.hint}>No closure data yet. Start auto refresh or fetch it now.</Text>
+        <AppButton label="Fetch Closures" onPress={handleRefresh} disabled={refreshing} variant="primary" />
+        {error && <Text style={styles.error}>{error}</Text>}
+      </View>
+    );
+  }
+
+  const open = openClosures(closures, [...DOORS, ...TRUNKS, ...WINDOWS]);
+  const sunroofOpen = isSunroofOpen(closures);
+  const locked = resolveLocked(closures, lockState);
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.summary}>
+        <Text style={[styles.lock, locked === null ? styles.lockUnknown : locked ? styles.locked : styles.unlocked]}>
+          {locked === null ? 'Lock unknown' : locked ? 'Locked' : 'Unlocked'}
+        </Text>
+        <Text style={styles.hint}>
+          {[
+            describeSentryMode(closures.sentryModeState),
+            describeOccupancy(closures.isUserPresent),
+          ].join(' · ')}
+        </Text>
+      </View>
+
+      <View style={styles.diagram}>
+        <View style={styles.car}>
+          <ClosurePart closures={closures} item={FRUNK} style={styles.frunk} />
+          <View style={styles.cabin}>
+            <View style={styles.side}>
+              <Door closures={closures} door={DRIVER_FRONT_DOOR} doorWindow={DRIVER_FRONT_WINDOW} side="left" />
+              <Door closures={closures} door={DRIVER_REAR_DOOR} doorWindow={DRIVER_REAR_WINDOW} side="left" />
+            </View>
+            <View style={styles.roof}>
+              <View
+                accessibilityLabel={`Sunroof ${sunroofOpen ? 'open' : 'closed'}`}
+                style={[styles.sunroof, sunroofOpen && styles.sunroofOpen]}
+              />
+            </View>
+            <View style={styles.side}>
+              <Door closures={closures} door={PASSENGER_FRONT_DOOR} doorWindow={PASSENGER_FRONT_WINDOW} side="right" />
+              <Door closures={closures} door={PASSENGER_REAR_DOOR} doorWindow={PASSENGER_REAR_WINDOW} side="right" />
+            </View>
+          </View>
+          <ClosurePart closures={closures} item={TRUNK} style={styles.trunk} />
+        </View>
+      </View>
+
+      <View style={styles.fieldGroup}>
+        <StatusRow label="Open" value={open.length ? open.join(', ') : 'All closed'} alert={open.length > 0} />
+        <StatusRow label="Sunroof" value={describeSunroof(closures)} alert={sunroofOpen} />
+        {closures.valetMode && <StatusRow label="Valet mode" value="On" />}
+      </View>
+
+      {error && <Text style={styles.error}>{error}</Text>}
+      <AppButton label={refreshing ? 'Refreshing…' : 'Refresh'} onPress={handleRefresh} disabled={refreshing} />
+    </ScrollView>
+  );
+}
+
+interface ClosurePartProps {
+  closures: ClosuresState;
+  item: ClosureItem;
+  style: ViewStyle;
+}
+
+function ClosurePart({ closures, item, style }: ClosurePartProps) {
+  const state = closures[item.field];
+  return (
+    <View
+      accessibilityLabel={`${item.label} ${describeOpen(state)}`}
+      style={[styles.part, style, state === null && styles.partUnknown, state && styles.partOpen]}
+    />
+  );
+}
+
+interface DoorProps {
+  closures: ClosuresState;
+  door: ClosureItem;
+  doorWindow: ClosureItem;
+  side: 'left' | 'right';
+}
+
+/** A door with its window as a strip on the cabin side. */
+function Door({ closures, door, doorWindow, side }: DoorProps) {
+  const doorState = closures[door.field];
+  const windowState = closures[doorWindow.field];
+  return (
+    <View
+      accessibilityLabel={`${door.label} ${describeOpen(doorState)}, window ${describeOpen(windowState)}`}
+      style={[
+        styles.part,
+        styles.door,
+        side === 'right' && styles.doorRight,
+        doorState === null && styles.partUnknown,
+        doorState && styles.partOpen,
+      ]}
+    >
+      <View style={[styles.window, windowState && styles.windowOpen]} />
+    </View>
+  );
+}
+
+function StatusRow({ label, value, alert = false }: { label: string; value: string; alert?: boolean }) {
+  return (
+    <View style={styles.statusRow}>
+      <Text style={styles.statusLabel}>{label}</Text>
+      <Text style={[styles.statusValue, alert && styles.statusAlert]}>{value}</Text>
+    </View>
+  );
+}
+
+function describeOpen(state: boolean | null): string {
+  return state === null ? 'unknown' : state ? 'open' : 'closed';
+}
+
+function describeOccupancy(present: boolean | null): string {
+  return present === null ? 'Occupancy unknown' : present ? 'Someone in the car' : 'Nobody in the car';
+}
+
+function describeSunroof(closures: ClosuresState): string {
+  if (closures.sunRoofState === null && closures.sunRoofPercentOpen === null) {
+    return 'None';
+  }
+  const percent = closures.sunRoofPercentOpen ? ` ${Math.round(closures.sunRoofPercentOpen)}%` : '';
+  return `${closures.sunRoofState ?? 'Unknown'}${percent}`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+    gap: 16,
+    backgroundColor: '#020617',
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  hint: {
+    color: '#94a3b8',
+    fontSize: 13,
+  },
+  error: {
+    color: '#f87171',
+    fontSize: 13,
+  },
+  summary: {
+    gap: 4,
+  },
+  lock: {
+    fontSize: 32,
+    fontWeight: '700',
+  },
+  locked: {
+    color: '#22c55e',
+  },
+  unlocked: {
+    color: '#f87171',
+  },
+  lockUnknown: {
+    color: '#facc15',
+  },
+  diagram: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  car: {
+    width: 176,
+    padding: 8,
+    gap: 6,
+    borderRadius: 48,
+    borderWidth: 2,
+    borderColor: '#334155',
+    backgroundColor: '#0f172a',
+  },
+  part: {
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+    backgroundColor: '#1e293b',
+  },
+  partUnknown: {
+    opacity: 0.4,
+  },
+  partOpen: {
+    borderColor: '#dc2626',
+    backgroundColor: '#450a0a',
+  },
+  frunk: {
+    height: 64,
+    borderTopLeftRadius: 40,
+    borderTopRightRadius: 40,
+  },
+  trunk: {
+    height: 52,
+    borderBottomLeftRadius: 40,
+    borderBottomRightRadius: 40,
+  },
+  cabin: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  side: {
+    width: 36,
+    gap: 6,
+  },
+  door: {
+    height: 84,
+    alignItems: 'flex-end',
+    padding: 4,
+  },
+  doorRight: {
+    alignItems: 'flex-start',
+  },
+  window: {
+    width: 6,
+    flex: 1,
+    borderRadius: 3,
+    backgroundColor: '#334155',
+  },
+  windowOpen: {
+    backgroundColor: '#facc15',
+  },
+  roof: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+  },
+  sunroof: {
+    width: '70%',
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#1e293b',
+  },
+  sunroofOpen: {
+    backgroundColor: '#facc15',
+  },
+  fieldGroup: {
+    backgroundColor: '#0f172a',
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 16,
+  },
+  statusLabel: {
+    color: '#94a3b8',
+    fontSize: 14,
+  },
+  statusValue: {
+    flex: 1,
+    color: '#e2e8f0',
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  statusAlert: {
+    color: '#f87171',
+  },
+});
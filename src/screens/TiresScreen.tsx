@@ -0,0 +1,281 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { StateCategory } from '@lib/session';
+import {
+  PRESSURE_UNITS,
+  PressureUnit,
+  TIRE_LABELS,
+  TireReading,
+  formatLastSeen,
+  formatPressure,
+  readTires,
+} from '@lib/tirePressure';
+import { AppButton } from '@components/AppButton';
+import { useTicker } from '@app/useTicker';
+import { telemetry } from '@app/vehicleConnection';
+import { useVehicleStore } from '@state/vehicleStore';
+
+const PRESSURE_UNIT_STORAGE_KEY = 'tsla.pressureUnit';
+const STALENESS_TICK_MS = 15_000;
+
+/** Tire pressures around a top-down outline of the car, polled every 30 s. */
+export function TiresScreen() {
+  const tirePressureResult = useVehicleStore((state) => state.tirePressureState);
+  const unit = useVehicleStore((state) => state.pressureUnit);
+  const setUnit = useVehicleStore((state) => state.setPressureUnit);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    AsyncStorage.getItem(PRESSURE_UNIT_STORAGE_KEY)
+      .then((stored) => {
+        if (stored && PRESSURE_UNITS.includes(stored as PressureUnit)) {
+          setUnit(stored as PressureUnit);
+        }
+      })
+      .catch(() => {});
+  }, [setUnit]);
+
+  const handleUnitChange = useCallback(
+    (next: PressureUnit) => {
+      setUnit(next);
+      AsyncStorage.setItem(PRESSURE_UNIT_STORAGE_KEY, next).catch(() => {});
+    },
+    [setUnit],
+  );
+
+  const handleRefresh = useCallback(async () => {
+    try {
+      setRefreshing(true);
+      setError(null);
+      await telemetry.refresh([StateCategory.TirePressure]);
+    } catch (failure) {
+      setError(`Refresh failed: ${failure instanceof Error ? failure.message : String(failure)}`);
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  const tirePressure = tirePressureResult?.vehicleData.tirePressureState ?? null;
+  // Ticks so "last seen" and staleness keep ageing between the 30 s polls.
+  const now = useTicker(tirePressure !== null, STALENESS_TICK_MS);
+  const tires = useMemo(() => (tirePressure ? readTires(tirePressure, now) : null), [now, tirePressure]);
+
+  if (!tirePressure || !tires) {
+    return (
+      <View style={[styles.container, styles.empty]}>
+        <Text style={styles.hint}>No tire pressure data yet. Start auto refresh or fetch it now.</Text>
+        <AppButton label="Fetch Tires" onPress={handleRefresh} disabled={refreshing} variant="primary" />
+        {error && <Text style={styles.error}>{error}</Text>}
+      </View>
+    );
+  }
+
+  const [frontLeft, frontRight, rearLeft, rearRight] = tires;
+  const recommended = [
+    tirePressure.tpmsRcpFrontValue !== null ? `front ${formatPressure(tirePressure.tpmsRcpFrontValue, unit)}` : null,
+    tirePressure.tpmsRcpRearValue !== null ? `rear ${formatPressure(tirePressure.tpmsRcpRearValue, unit)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.segments}>
+        {PRESSURE_UNITS.map((option) => {
+          const selected = option === unit;
+          return (
+            <Pressable
+              key={option}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+              onPress={() => handleUnitChange(option)}
+              style={[styles.segment, selected && styles.segmentSelected]}
+            >
+              <Text style={[styles.segmentLabel, selected && styles.segmentLabelSelected]}>{option}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={styles.diagram}>
+        <View style={styles.tireColumn}>
+          <TireCard tire={frontLeft} unit={unit} now={now} />
+          <TireCard tire={rearLeft} unit={unit} now={now} />
+        </View>
+        <View style={styles.car}>
+          <View style={styles.windshield} />
+          <View style={styles.cabin} />
+          <View style={styles.rearWindow} />
+        </View>
+        <View style={styles.tireColumn}>
+          <TireCard tire={frontRight} unit={unit} now={now} />
+          <TireCard tire={rearRight} unit={unit} now={now} />
+        </View>
+      </View>
+
+      <Text style={styles.hint}>{describeWarnings(tires)}</Text>
+      {recommended.length > 0 && <Text style={styles.hint}>Recommended cold pressure: {recommended.join(', ')}</Text>}
+      {error && <Text style={styles.error}>{error}</Text>}
+      <AppButton label={refreshing ? 'Refreshing…' : 'Refresh'} onPress={handleRefresh} disabled={refreshing} />
+    </ScrollView>
+  );
+}
+
+interface TireCardProps {
+  tire: TireReading;
+  unit: PressureUnit;
+  now: number;
+}
+
+/** Hard warnings are red, soft warnings amber; stale readings are dimmed. */
+function TireCard({ tire, unit, now }: TireCardProps) {
+  return (
+    <View
+      accessibilityLabel={`${TIRE_LABELS[tire.position]} ${formatPressure(tire.pressureBar, unit)}`}
+      style={[
+        styles.tire,
+        tire.softWarning && styles.tireSoftWarning,
+        tire.hardWarning && styles.tireHardWarning,
+      ]}
+    >
+      <Text style={styles.tireLabel}>{TIRE_LABELS[tire.position]}</Text>
+      <Text style={[styles.tirePressure, tire.stale && styles.tireStale]}>{formatPressure(tire.pressureBar, unit)}</Text>
+      <Text style={[styles.tireSeen, tire.stale && styles.tireSeenStale]}>{formatLastSeen(tire.lastSeenAt, now)}</Text>
+    </View>
+  );
+}
+
+function describeWarnings(tires: TireReading[]): string {
+  const hard = tires.filter((tire) => tire.hardWarning).map((tire) => TIRE_LABELS[tire.position].toLowerCase());
+  const soft = tires
+    .filter((tire) => tire.softWarning && !tire.hardWarning)
+    .map((tire) => TIRE_LABELS[tire.position].toLowerCase());
+  const parts = [
+    hard.length ? `Check tire now: ${hard.join(', ')}` : null,
+    soft.length ? `Low pressure: ${soft.join(', ')}` : null,
+    tires.some((tire) => tire.stale) ? 'Some sensors have not reported recently' : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : 'All tires OK';
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+    gap: 16,
+    backgroundColor: '#020617',
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  hint: {
+    color: '#94a3b8',
+    fontSize: 13,
+  },
+  error: {
+    color: '#f87171',
+    fontSize: 13,
+  },
+  segments: {
+    flexDirection: 'row',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+    overflow: 'hidden',
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#312e81',
+  },
+  segmentLabel: {
+    color: '#94a3b8',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  segmentLabelSelected: {
+    color: '#f8fafc',
+  },
+  diagram: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  tireColumn: {
+    flex: 1,
+    justifyContent: 'space-between',
+    gap: 48,
+  },
+  car: {
+    width: 96,
+    borderRadius: 40,
+    borderWidth: 2,
+    borderColor: '#334155',
+    backgroundColor: '#0f172a',
+    paddingVertical: 28,
+    paddingHorizontal: 12,
+    gap: 10,
+  },
+  windshield: {
+    height: 36,
+    borderTopLeftRadius: 18,
+    borderTopRightRadius: 18,
+    backgroundColor: '#1e293b',
+  },
+  cabin: {
+    flex: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+  },
+  rearWindow: {
+    height: 24,
+    borderBottomLeftRadius: 12,
+    borderBottomRightRadius: 12,
+    backgroundColor: '#1e293b',
+  },
+  tire: {
+    padding: 12,
+    gap: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#1f2937',
+    backgroundColor: '#0f172a',
+  },
+  tireSoftWarning: {
+    borderColor: '#facc15',
+    backgroundColor: '#422006',
+  },
+  tireHardWarning: {
+    borderColor: '#dc2626',
+    backgroundColor: '#450a0a',
+  },
+  tireLabel: {
+    color: '#94a3b8',
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  tirePressure: {
+    color: '#f8fafc',
+    fontSize: 24,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  tireStale: {
+    color: '#64748b',
+  },
+  tireSeen: {
+    color: '#64748b',
+    fontSize: 12,
+  },
+  tireSeenStale: {
+    color: '#facc15',
+  },
+});
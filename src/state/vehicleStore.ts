@@ -1,33 +1,220 @@
+import { useMemo } from 'react';
 import { create } from 'zustand';
-import { VehicleStateResult } from '@lib/session';
+import { ConnectionState, StateCategory, VehicleSecurityStatus, VehicleStateResult } from '@lib/session';
+import { TelemetryLog, TelemetryRecord } from '@lib/telemetryLog';
+import { TimeSeries, TimeSeriesSample } from '@lib/timeSeries';
+import type { PressureUnit } from '@lib/tirePressure';
+import type { Trip } from '@lib/tripComputer';
+
+/**
+ * Metrics with a recorded history: speed in mph, power in kW, battery level
+ * in percent, request latency in ms and odometer in miles.
+ */
+export type HistoryMetric = 'speed' | 'power' | 'batteryLevel' | 'latency' | 'odometer';
+
+export const HISTORY_METRICS: HistoryMetric[] = ['speed', 'power', 'batteryLevel', 'latency', 'odometer'];
+
+export const DEFAULT_REFRESH_INTERVAL_MS = 1000;
+
+type TelemetryHistory = Record<HistoryMetric, TimeSeries>;
 
 interface VehicleStateStore {
   vin: string | null;
+  /** Simulated vehicle to connect to instead of Bluetooth; empty for a real car. */
+  simulatorScenarioId: string;
   keyLoaded: boolean;
+  /** Fastest polling interval: Drive, Location and `inspectedCategory` poll at it. */
+  refreshIntervalMs: number;
+  adaptivePolling: boolean;
+  /** Category shown in the Settings console. */
+  inspectedCategory: StateCategory;
   driveState: VehicleStateResult | null;
+  /** Latest Charge result; polled less often than Drive. */
+  chargeState: VehicleStateResult | null;
+  climateState: VehicleStateResult | null;
+  chargeScheduleState: VehicleStateResult | null;
+  mediaState: VehicleStateResult | null;
+  mediaDetailState: VehicleStateResult | null;
+  tirePressureState: VehicleStateResult | null;
+  closuresState: VehicleStateResult | null;
+  /** Unit for tire pressures on the Tires tab and the dashboard. */
+  pressureUnit: PressureUnit;
+  /**
+   * When the poll behind each category's latest result was sent. Changes made
+   * after that are not reflected in the result yet.
+   */
+  stateRequestedAt: Partial<Record<StateCategory, number>>;
   autoRefreshActive: boolean;
   lastLatencyMs: number | null;
+  connectionState: ConnectionState;
+  reconnectAttempt: number | null;
+  /** Last VCSEC status; tells whether infotainment is awake without waking it. */
+  vehicleStatus: VehicleSecurityStatus | null;
+  /** Mutated in place by `recordHistory`; read it through the selectors below. */
+  history: TelemetryHistory;
+  /** Every polling round at full resolution, for export. Mutated in place like `history`. */
+  telemetryLog: TelemetryLog;
+  /** Bumped on every history change so subscribers re-render. */
+  historyRevision: number;
+  /** Trip in progress, summarised up to the latest Drive reading. */
+  activeTrip: Trip | null;
+  /** Finished trips, newest first. */
+  trips: Trip[];
   setVin(vin: string | null): void;
+  setSimulatorScenarioId(scenarioId: string): void;
   setKeyLoaded(hasKey: boolean): void;
+  setRefreshIntervalMs(intervalMs: number): void;
+  setAdaptivePolling(enabled: boolean): void;
+  setInspectedCategory(category: StateCategory): void;
   setDriveState(result: VehicleStateResult | null): void;
+  setChargeState(result: VehicleStateResult | null): void;
+  setClimateState(result: VehicleStateResult | null): void;
+  setChargeScheduleState(result: VehicleStateResult | null): void;
+  setMediaState(result: VehicleStateResult | null): void;
+  setMediaDetailState(result: VehicleStateResult | null): void;
+  setTirePressureState(result: VehicleStateResult | null): void;
+  setClosuresState(result: VehicleStateResult | null): void;
+  setPressureUnit(unit: PressureUnit): void;
+  setStateRequestedAt(categories: StateCategory[], requestedAt: number): void;
   setAutoRefreshActive(active: boolean): void;
   setLastLatency(latency: number | null): void;
+  setConnectionState(state: ConnectionState, reconnectAttempt?: number | null): void;
+  setVehicleStatus(status: VehicleSecurityStatus | null): void;
   toggleAutoRefresh(): void;
+  /** Adds one sample per metric given; null and missing values are skipped. */
+  recordHistory(at: number, values: Partial<Record<HistoryMetric, number | null>>): void;
+  /** Appends a polling round to the telemetry log and its values to the history. */
+  recordTelemetry(record: TelemetryRecord): void;
+  clearHistory(): void;
+  setActiveTrip(trip: Trip | null): void;
+  setTrips(trips: Trip[]): void;
 }
 
 export const useVehicleStore = create<VehicleStateStore>((set, get) => ({
   vin: null,
+  simulatorScenarioId: '',
   keyLoaded: false,
+  refreshIntervalMs: DEFAULT_REFRESH_INTERVAL_MS,
+  adaptivePolling: true,
+  inspectedCategory: StateCategory.Drive,
   driveState: null,
+  chargeState: null,
+  climateState: null,
+  chargeScheduleState: null,
+  mediaState: null,
+  mediaDetailState: null,
+  tirePressureState: null,
+  closuresState: null,
+  pressureUnit: 'bar',
+  stateRequestedAt: {},
   autoRefreshActive: false,
   lastLatencyMs: null,
-  setVin: (vin) => set({ vin }),
+  connectionState: 'idle',
+  reconnectAttempt: null,
+  vehicleStatus: null,
+  history: createHistory(),
+  telemetryLog: new TelemetryLog(),
+  historyRevision: 0,
+  activeTrip: null,
+  trips: [],
+  setVin: (vin) => {
+    if (vin !== get().vin) {
+      // History belongs to one car.
+      get().clearHistory();
+    }
+    set({ vin });
+  },
+  setSimulatorScenarioId: (simulatorScenarioId) => set({ simulatorScenarioId }),
   setKeyLoaded: (keyLoaded) => set({ keyLoaded }),
+  setRefreshIntervalMs: (refreshIntervalMs) => set({ refreshIntervalMs }),
+  setAdaptivePolling: (adaptivePolling) => set({ adaptivePolling }),
+  setInspectedCategory: (inspectedCategory) => set({ inspectedCategory }),
   setDriveState: (driveState) => set({ driveState }),
+  setChargeState: (chargeState) => set({ chargeState }),
+  setClimateState: (climateState) => set({ climateState }),
+  setChargeScheduleState: (chargeScheduleState) => set({ chargeScheduleState }),
+  setMediaState: (mediaState) => set({ mediaState }),
+  setMediaDetailState: (mediaDetailState) => set({ mediaDetailState }),
+  setTirePressureState: (tirePressureState) => set({ tirePressureState }),
+  setClosuresState: (closuresState) => set({ closuresState }),
+  setPressureUnit: (pressureUnit) => set({ pressureUnit }),
+  setStateRequestedAt: (categories, requestedAt) =>
+    set((state) => ({
+      stateRequestedAt: {
+        ...state.stateRequestedAt,
+        ...Object.fromEntries(categories.map((category) => [category, requestedAt])),
+      },
+    })),
   setAutoRefreshActive: (autoRefreshActive) => set({ autoRefreshActive }),
   setLastLatency: (lastLatencyMs) => set({ lastLatencyMs }),
+  setConnectionState: (connectionState, reconnectAttempt = null) => set({ connectionState, reconnectAttempt }),
+  setVehicleStatus: (vehicleStatus) => set({ vehicleStatus }),
   toggleAutoRefresh: () => {
     const current = get().autoRefreshActive;
     set({ autoRefreshActive: !current });
   },
+  recordHistory: (at, values) => {
+    const { history } = get();
+    let changed = false;
+    for (const metric of HISTORY_METRICS) {
+      const value = values[metric];
+      if (value != null) {
+        history[metric].add(at, value);
+        changed = true;
+      }
+    }
+    if (changed) {
+      set((state) => ({ historyRevision: state.historyRevision + 1 }));
+    }
+  },
+  recordTelemetry: (record) => {
+    get().telemetryLog.add(record);
+    get().recordHistory(record.at, {
+      speed: record.speedMph,
+      power: record.powerKw,
+      batteryLevel: record.batteryLevel,
+      latency: record.latencyMs,
+      odometer: record.odometerMiles,
+    });
+  },
+  clearHistory: () => {
+    HISTORY_METRICS.forEach((metric) => get().history[metric].clear());
+    get().telemetryLog.clear();
+    set((state) => ({ historyRevision: state.historyRevision + 1 }));
+  },
+  setActiveTrip: (activeTrip) => set({ activeTrip }),
+  setTrips: (trips) => set({ trips }),
 }));
+
+/** Samples of `metric` from the last `windowMs`, oldest first; older parts of long windows are downsampled. */
+export function selectHistoryWindow(
+  state: Pick<VehicleStateStore, 'history'>,
+  metric: HistoryMetric,
+  windowMs: number,
+  now = Date.now(),
+): TimeSeriesSample[] {
+  return state.history[metric].since(now - windowMs);
+}
+
+export function selectLatestSample(state: Pick<VehicleStateStore, 'history'>, metric: HistoryMetric): TimeSeriesSample | null {
+  return state.history[metric].latest();
+}
+
+/** Re-renders when new samples arrive, e.g. `useHistoryWindow('speed', 60_000)` for the last minute. */
+export function useHistoryWindow(metric: HistoryMetric, windowMs: number): TimeSeriesSample[] {
+  const revision = useVehicleStore((state) => state.historyRevision);
+  return useMemo(
+    () => selectHistoryWindow(useVehicleStore.getState(), metric, windowMs),
+    [metric, revision, windowMs],
+  );
+}
+
+function createHistory(): TelemetryHistory {
+  return {
+    speed: new TimeSeries(),
+    power: new TimeSeries(),
+    batteryLevel: new TimeSeries(),
+    latency: new TimeSeries(),
+    odometer: new TimeSeries(),
+  };
+}